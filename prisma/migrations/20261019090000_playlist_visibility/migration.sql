@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Playlist" ADD COLUMN     "shareToken" TEXT,
+ADD COLUMN     "visibility" TEXT NOT NULL DEFAULT 'PRIVATE';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Playlist_shareToken_key" ON "Playlist"("shareToken");
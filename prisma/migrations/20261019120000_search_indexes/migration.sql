@@ -0,0 +1,25 @@
+-- Full-text & trigram search (GET /search)
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+CREATE EXTENSION IF NOT EXISTS "unaccent";
+
+-- unaccent() bawaan tidak IMMUTABLE sehingga tidak bisa dipakai di index.
+-- Wrapper ini memakai dictionary eksplisit agar aman ditandai IMMUTABLE.
+CREATE OR REPLACE FUNCTION immutable_unaccent(text)
+RETURNS text AS $$
+    SELECT public.unaccent('public.unaccent'::regdictionary, $1)
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT;
+
+-- CreateIndex
+CREATE INDEX "Song_title_trgm_idx" ON "Song" USING GIN (immutable_unaccent(lower("title")) gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Song_lyrics_fts_idx" ON "Song" USING GIN (to_tsvector('simple', immutable_unaccent(coalesce("lyrics", ''))));
+
+-- CreateIndex
+CREATE INDEX "Artist_name_trgm_idx" ON "Artist" USING GIN (immutable_unaccent(lower("name")) gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Album_title_trgm_idx" ON "Album" USING GIN (immutable_unaccent(lower("title")) gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Playlist_name_trgm_idx" ON "Playlist" USING GIN (immutable_unaccent(lower("name")) gin_trgm_ops);
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "IngestJob" (
+    "id" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "sourceUrl" TEXT NOT NULL,
+    "params" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'QUEUED',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "error" TEXT,
+    "audioKey" TEXT,
+    "songId" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "IngestJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "IngestJob_status_runAfter_idx" ON "IngestJob"("status", "runAfter");
+
+-- CreateIndex
+CREATE INDEX "IngestJob_createdAt_idx" ON "IngestJob"("createdAt" DESC);
+
+-- AddForeignKey
+ALTER TABLE "IngestJob" ADD CONSTRAINT "IngestJob_songId_fkey" FOREIGN KEY ("songId") REFERENCES "Song"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "IngestJob" ADD CONSTRAINT "IngestJob_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Song" ADD COLUMN     "audioFormat" TEXT,
+ADD COLUMN     "bitrate" INTEGER,
+ADD COLUMN     "metadataFlags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "metadataScannedAt" TIMESTAMP(3);
@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "Song" ADD COLUMN     "audioSize" INTEGER,
+ADD COLUMN     "storageCheckedAt" TIMESTAMP(3),
+ADD COLUMN     "storageStatus" TEXT;
+
+-- CreateTable
+CREATE TABLE "StorageScan" (
+    "id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'QUEUED',
+    "deleteOrphans" BOOLEAN NOT NULL DEFAULT false,
+    "graceHours" INTEGER NOT NULL DEFAULT 168,
+    "objectCount" INTEGER NOT NULL DEFAULT 0,
+    "songCount" INTEGER NOT NULL DEFAULT 0,
+    "missingCount" INTEGER NOT NULL DEFAULT 0,
+    "sizeMismatchCount" INTEGER NOT NULL DEFAULT 0,
+    "orphanCount" INTEGER NOT NULL DEFAULT 0,
+    "deletedCount" INTEGER NOT NULL DEFAULT 0,
+    "report" JSONB,
+    "error" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "StorageScan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StorageOrphan" (
+    "objectKey" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "firstSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StorageOrphan_pkey" PRIMARY KEY ("objectKey")
+);
+
+-- CreateIndex
+CREATE INDEX "StorageScan_status_createdAt_idx" ON "StorageScan"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "StorageScan_createdAt_idx" ON "StorageScan"("createdAt" DESC);
+
+-- AddForeignKey
+ALTER TABLE "StorageScan" ADD CONSTRAINT "StorageScan_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
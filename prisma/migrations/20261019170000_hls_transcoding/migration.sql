@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Song" ADD COLUMN     "hlsAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "hlsError" TEXT,
+ADD COLUMN     "hlsKey" TEXT,
+ADD COLUMN     "hlsLockedAt" TIMESTAMP(3),
+ADD COLUMN     "hlsRenditions" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "hlsStatus" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Song_hlsStatus_idx" ON "Song"("hlsStatus");
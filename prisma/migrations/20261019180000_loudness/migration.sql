@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Song" ADD COLUMN     "loudnessAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "loudnessError" TEXT,
+ADD COLUMN     "loudnessLockedAt" TIMESTAMP(3),
+ADD COLUMN     "loudnessLufs" DOUBLE PRECISION,
+ADD COLUMN     "loudnessRangeLu" DOUBLE PRECISION,
+ADD COLUMN     "loudnessStatus" TEXT,
+ADD COLUMN     "trackGainDb" DOUBLE PRECISION,
+ADD COLUMN     "truePeakDb" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "Song_loudnessStatus_idx" ON "Song"("loudnessStatus");
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Song" ADD COLUMN     "waveformAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "waveformError" TEXT,
+ADD COLUMN     "waveformLockedAt" TIMESTAMP(3),
+ADD COLUMN     "waveformStatus" TEXT;
+
+-- CreateTable
+CREATE TABLE "SongWaveform" (
+    "songId" TEXT NOT NULL,
+    "buckets" INTEGER NOT NULL,
+    "peaks" BYTEA NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SongWaveform_pkey" PRIMARY KEY ("songId")
+);
+
+-- CreateIndex
+CREATE INDEX "Song_waveformStatus_idx" ON "Song"("waveformStatus");
+
+-- AddForeignKey
+ALTER TABLE "SongWaveform" ADD CONSTRAINT "SongWaveform_songId_fkey" FOREIGN KEY ("songId") REFERENCES "Song"("id") ON DELETE CASCADE ON UPDATE CASCADE;
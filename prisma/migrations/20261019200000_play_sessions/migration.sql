@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "PlayHistory" ADD COLUMN     "sessionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "PlaySession" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "songId" TEXT NOT NULL,
+    "source" TEXT,
+    "positionSec" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "listenedSec" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastHeartbeatAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "qualifiedAt" TIMESTAMP(3),
+    "endedAt" TIMESTAMP(3),
+    "endReason" TEXT,
+
+    CONSTRAINT "PlaySession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PlaySession_userId_startedAt_idx" ON "PlaySession"("userId", "startedAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "PlaySession_songId_startedAt_idx" ON "PlaySession"("songId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "PlaySession_endedAt_lastHeartbeatAt_idx" ON "PlaySession"("endedAt", "lastHeartbeatAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PlayHistory_sessionId_key" ON "PlayHistory"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "PlayHistory_songId_playedAt_idx" ON "PlayHistory"("songId", "playedAt");
+
+-- AddForeignKey
+ALTER TABLE "PlayHistory" ADD CONSTRAINT "PlayHistory_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "PlaySession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlaySession" ADD CONSTRAINT "PlaySession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlaySession" ADD CONSTRAINT "PlaySession_songId_fkey" FOREIGN KEY ("songId") REFERENCES "Song"("id") ON DELETE CASCADE ON UPDATE CASCADE;
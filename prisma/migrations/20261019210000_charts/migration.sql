@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "ChartSnapshot" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "generatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChartSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ChartEntry" (
+    "snapshotId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "songId" TEXT NOT NULL,
+    "plays" INTEGER NOT NULL,
+    "listeners" INTEGER NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "previousPosition" INTEGER,
+    "movement" TEXT NOT NULL,
+
+    CONSTRAINT "ChartEntry_pkey" PRIMARY KEY ("snapshotId","position")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChartSnapshot_type_periodStart_key" ON "ChartSnapshot"("type", "periodStart");
+
+-- CreateIndex
+CREATE INDEX "ChartEntry_songId_idx" ON "ChartEntry"("songId");
+
+-- AddForeignKey
+ALTER TABLE "ChartEntry" ADD CONSTRAINT "ChartEntry_snapshotId_fkey" FOREIGN KEY ("snapshotId") REFERENCES "ChartSnapshot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChartEntry" ADD CONSTRAINT "ChartEntry_songId_fkey" FOREIGN KEY ("songId") REFERENCES "Song"("id") ON DELETE CASCADE ON UPDATE CASCADE;
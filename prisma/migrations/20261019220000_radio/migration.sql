@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "RadioStation" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "seedType" TEXT NOT NULL,
+    "seedId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "seedSongIds" TEXT[],
+    "servedSongIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RadioStation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RadioStation_userId_updatedAt_idx" ON "RadioStation"("userId", "updatedAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "RadioStation_updatedAt_idx" ON "RadioStation"("updatedAt");
+
+-- AddForeignKey
+ALTER TABLE "RadioStation" ADD CONSTRAINT "RadioStation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
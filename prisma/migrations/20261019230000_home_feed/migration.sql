@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "PlaylistOpen" (
+    "userId" TEXT NOT NULL,
+    "playlistId" TEXT NOT NULL,
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PlaylistOpen_pkey" PRIMARY KEY ("userId","playlistId")
+);
+
+-- CreateTable
+CREATE TABLE "HomeSection" (
+    "userId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "generatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "HomeSection_pkey" PRIMARY KEY ("userId","key")
+);
+
+-- CreateIndex
+CREATE INDEX "PlaylistOpen_userId_openedAt_idx" ON "PlaylistOpen"("userId", "openedAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "HomeSection_expiresAt_idx" ON "HomeSection"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "PlaylistOpen" ADD CONSTRAINT "PlaylistOpen_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlaylistOpen" ADD CONSTRAINT "PlaylistOpen_playlistId_fkey" FOREIGN KEY ("playlistId") REFERENCES "Playlist"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HomeSection" ADD CONSTRAINT "HomeSection_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
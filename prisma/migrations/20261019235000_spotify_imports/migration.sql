@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "SpotifyImport" (
+    "id" TEXT NOT NULL,
+    "albumId" TEXT,
+    "playlistId" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SpotifyImport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SpotifyImportTrack" (
+    "importId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "trackNumber" INTEGER NOT NULL,
+    "songId" TEXT,
+    "jobId" TEXT,
+    "placedAt" TIMESTAMP(3),
+
+    CONSTRAINT "SpotifyImportTrack_pkey" PRIMARY KEY ("importId","position")
+);
+
+-- CreateIndex
+CREATE INDEX "SpotifyImportTrack_jobId_idx" ON "SpotifyImportTrack"("jobId");
+
+-- AddForeignKey
+ALTER TABLE "SpotifyImport" ADD CONSTRAINT "SpotifyImport_albumId_fkey" FOREIGN KEY ("albumId") REFERENCES "Album"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SpotifyImport" ADD CONSTRAINT "SpotifyImport_playlistId_fkey" FOREIGN KEY ("playlistId") REFERENCES "Playlist"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SpotifyImport" ADD CONSTRAINT "SpotifyImport_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SpotifyImportTrack" ADD CONSTRAINT "SpotifyImportTrack_importId_fkey" FOREIGN KEY ("importId") REFERENCES "SpotifyImport"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SpotifyImportTrack" ADD CONSTRAINT "SpotifyImportTrack_songId_fkey" FOREIGN KEY ("songId") REFERENCES "Song"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SpotifyImportTrack" ADD CONSTRAINT "SpotifyImportTrack_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "IngestJob"("id") ON DELETE SET NULL ON UPDATE CASCADE;
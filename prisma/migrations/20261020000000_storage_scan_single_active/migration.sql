@@ -0,0 +1,16 @@
+-- Maksimal satu StorageScan QUEUED/RUNNING (enqueueStorageScan). Prisma tidak mendukung
+-- partial index di schema, jadi index ini hanya ada di migration.
+
+-- Scan aktif ganda dari race sebelumnya: sisakan yang paling lama
+UPDATE "StorageScan"
+SET "status" = 'FAILED', "error" = 'Dibatalkan: scan lain sudah berjalan.', "finishedAt" = CURRENT_TIMESTAMP
+WHERE "status" IN ('QUEUED', 'RUNNING')
+  AND "id" <> (
+      SELECT "id" FROM "StorageScan"
+      WHERE "status" IN ('QUEUED', 'RUNNING')
+      ORDER BY "createdAt" ASC, "id" ASC
+      LIMIT 1
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StorageScan_single_active_key" ON "StorageScan" ((true)) WHERE "status" IN ('QUEUED', 'RUNNING');
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Song" ADD COLUMN     "metadataScanAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "metadataScanError" TEXT;
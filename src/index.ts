@@ -4,9 +4,25 @@ import dotenv from 'dotenv';
 import authRouter from './routes/auth';
 import songsRouter from './routes/songs';
 import playlistsRouter from './routes/playlists';
+import libraryRouter from './routes/library';
+import artistsRouter from './routes/artists';
+import albumsRouter from './routes/albums';
+import searchRouter from './routes/search';
+import jobsRouter from './routes/jobs';
+import storageRouter from './routes/storage';
+import filesRouter from './routes/files';
+import playsRouter from './routes/plays';
+import statsRouter from './routes/stats';
+import chartsRouter from './routes/charts';
+import radioRouter from './routes/radio';
+import homeRouter from './routes/home';
+import { getStorage } from './lib/storage';
 
 dotenv.config();
 
+// Gagal saat start jika konfigurasi storage tidak lengkap (mis. STORAGE_LOCAL_SECRET kosong)
+getStorage();
+
 const app = express();
 const PORT = process.env.PORT || 3001;
 
@@ -26,6 +42,18 @@ app.get('/health', (_req, res) => {
 app.use('/auth', authRouter);
 app.use('/songs', songsRouter);
 app.use('/playlists', playlistsRouter);
+app.use('/library', libraryRouter);
+app.use('/artists', artistsRouter);
+app.use('/albums', albumsRouter);
+app.use('/search', searchRouter);
+app.use('/plays', playsRouter);
+app.use('/stats', statsRouter);
+app.use('/charts', chartsRouter);
+app.use('/radio', radioRouter);
+app.use('/home', homeRouter);
+app.use('/jobs', jobsRouter);
+app.use('/storage', storageRouter);
+app.use('/files', filesRouter);        // signed URL untuk STORAGE_DRIVER=local
 
 // ── 404 Handler ───────────────────────────────────────────────────────────────
 app.use((_req, res) => {
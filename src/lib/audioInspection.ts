@@ -0,0 +1,146 @@
+import { AudioMetadata, ByteSource, EmbeddedPicture, readAudioMetadata } from './audioMetadata';
+import { getStorage, storageByteSource } from './storage';
+import { normalizeArtists, normalizeKey } from './songMatching';
+
+/**
+ * Cek file audio yang sudah ada di storage terhadap metadata yang dikirim client /
+ * provider. Hasilnya disimpan di Song (bitrate, audioFormat, metadataFlags).
+ */
+
+// Selisih durasi yang masih dianggap sama (encoder / pembulatan)
+const DURATION_TOLERANCE_SEC = 3;
+// Batas percobaan backfill metadata untuk lagu yang terus kena StorageReadError
+export const METADATA_SCAN_MAX_ATTEMPTS = 5;
+
+export const METADATA_FLAGS = ['UNREADABLE', 'DURATION_MISMATCH', 'TITLE_MISMATCH', 'ARTIST_MISMATCH', 'ALBUM_MISMATCH'] as const;
+export type MetadataFlag = typeof METADATA_FLAGS[number];
+
+export interface SubmittedMetadata {
+    title?: string | null;
+    artistNames?: string[];
+    album?: string | null;
+    durationSec?: number | null;
+}
+
+/**
+ * Storage gagal diakses (jaringan / R2 / disk) saat membaca file. Bukan masalah isi file,
+ * jadi lagu tidak boleh ditandai UNREADABLE; pemanggil sebaiknya mencoba lagi nanti.
+ */
+export class StorageReadError extends Error {
+    constructor(audioKey: string, cause: unknown) {
+        super(`Gagal membaca ${audioKey} dari storage: ${(cause as any)?.message || cause}`);
+        this.name = 'StorageReadError';
+    }
+}
+
+/**
+ * Baca metadata file di storage. Return null jika file tidak ada, format tidak dikenal,
+ * atau isinya rusak. Melempar StorageReadError jika storage sendiri yang gagal.
+ */
+export async function inspectStoredAudio(audioKey: string, size?: number): Promise<AudioMetadata | null> {
+    const storageError = (err: unknown): never => {
+        throw new StorageReadError(audioKey, err);
+    };
+
+    let objectSize = size;
+    if (objectSize === undefined) {
+        const head = await getStorage().head(audioKey).catch(storageError);
+        if (!head) {
+            console.error(`[audio] File tidak ditemukan: ${audioKey}`);
+            return null;
+        }
+        objectSize = head.size;
+    }
+
+    const source = await storageByteSource(audioKey, objectSize);
+    const reader: ByteSource = {
+        size: source.size,
+        read: (offset, length) => source.read(offset, length).catch(storageError),
+    };
+
+    try {
+        return await readAudioMetadata(reader);
+    } catch (err: any) {
+        if (err instanceof StorageReadError) throw err;
+        console.error(`[audio] Gagal membaca metadata ${audioKey}:`, err?.message);
+        return null;
+    }
+}
+
+// Teks dianggap cocok jika salah satu mengandung yang lain setelah normalisasi
+// ("Song (Remastered)" vs "Song", "Artist feat. X" vs "Artist")
+function sameText(a: string, b: string, normalize: (v: string) => string): boolean {
+    const x = normalize(a);
+    const y = normalize(b);
+    if (!x || !y) return true;
+    return x === y || x.includes(y) || y.includes(x);
+}
+
+/**
+ * Bandingkan metadata file dengan yang dikirim. Field yang kosong di salah satu
+ * sisi tidak dibandingkan.
+ */
+export function compareMetadata(file: AudioMetadata | null, submitted: SubmittedMetadata): MetadataFlag[] {
+    if (!file) return ['UNREADABLE'];
+
+    const flags: MetadataFlag[] = [];
+    if (file.durationSec && submitted.durationSec && Math.abs(file.durationSec - submitted.durationSec) > DURATION_TOLERANCE_SEC) {
+        flags.push('DURATION_MISMATCH');
+    }
+    if (file.title && submitted.title && !sameText(file.title, submitted.title, normalizeKey)) {
+        flags.push('TITLE_MISMATCH');
+    }
+    if (file.artist && submitted.artistNames?.length && !sameText(file.artist, submitted.artistNames.join(', '), normalizeArtists)) {
+        flags.push('ARTIST_MISMATCH');
+    }
+    if (file.album && submitted.album && !sameText(file.album, submitted.album, normalizeKey)) {
+        flags.push('ALBUM_MISMATCH');
+    }
+    return flags;
+}
+
+/**
+ * Upload cover yang tertanam di file ke folder covers/ dan return URL publiknya.
+ */
+export async function uploadEmbeddedCover(picture: EmbeddedPicture, baseName: string): Promise<string | null> {
+    try {
+        const ext = picture.mimeType === 'image/png' ? 'png' : 'jpg';
+        const uniqueId = Date.now().toString(36) + '-' + Math.random().toString(36).substring(2, 7);
+        const objectKey = `covers/${uniqueId}-${baseName.replace(/[^a-zA-Z0-9.-]/g, '_').substring(0, 50)}.${ext}`;
+
+        const storage = getStorage();
+        await storage.put(objectKey, picture.data, { contentType: picture.mimeType });
+        return storage.publicUrl(objectKey);
+    } catch (err: any) {
+        console.error('[audio] Gagal upload cover embedded:', err?.message);
+        return null;
+    }
+}
+
+/**
+ * Kolom Song yang diisi dari hasil baca file.
+ */
+export function audioMetadataFields(file: AudioMetadata | null, flags: MetadataFlag[]) {
+    return {
+        bitrate: file?.bitrate ?? null,
+        audioFormat: file?.format ?? null,
+        metadataFlags: flags,
+        metadataScannedAt: new Date(),
+        metadataScanError: null,
+    };
+}
+
+export function formatAudioMetadata(file: AudioMetadata | null) {
+    if (!file) return null;
+    return {
+        format: file.format,
+        durationSec: file.durationSec,
+        bitrate: file.bitrate,
+        sampleRate: file.sampleRate,
+        title: file.title,
+        artist: file.artist,
+        album: file.album,
+        trackNumber: file.trackNumber,
+        hasPicture: !!file.picture,
+    };
+}
@@ -0,0 +1,514 @@
+/**
+ * Parser metadata audio tanpa dependency: MP3 (ID3v2.2–2.4, ID3v1, header
+ * Xing/Info/VBRI), MP4/M4A (mvhd + iTunes ilst) dan FLAC (STREAMINFO,
+ * Vorbis comment, PICTURE).
+ *
+ * File dibaca lewat ByteSource (baca per rentang byte), jadi bisa dipakai untuk
+ * Buffer di memori maupun objek di R2 via Range request tanpa mengunduh semuanya.
+ */
+
+export interface ByteSource {
+    size: number;
+    read(offset: number, length: number): Promise<Buffer>;
+}
+
+export interface EmbeddedPicture {
+    mimeType: string;
+    data: Buffer;
+}
+
+export interface AudioMetadata {
+    format: 'mp3' | 'mp4' | 'flac';
+    durationSec: number | null;
+    bitrate: number | null;       // kbps
+    sampleRate: number | null;
+    title: string | null;
+    artist: string | null;
+    album: string | null;
+    trackNumber: number | null;
+    picture: EmbeddedPicture | null;
+}
+
+export function bufferSource(buf: Buffer): ByteSource {
+    return {
+        size: buf.length,
+        read: async (offset, length) => buf.subarray(offset, Math.min(offset + length, buf.length)),
+    };
+}
+
+/**
+ * Baca metadata file audio. Return null jika format tidak dikenali.
+ */
+export async function readAudioMetadata(src: ByteSource): Promise<AudioMetadata | null> {
+    const head = await src.read(0, 12);
+    if (head.length < 4) return null;
+
+    if (head.toString('latin1', 0, 4) === 'fLaC') return parseFlac(src);
+    if (head.length >= 8 && head.toString('latin1', 4, 8) === 'ftyp') return parseMp4(src);
+    if (head.toString('latin1', 0, 3) === 'ID3' || (head[0] === 0xff && (head[1] & 0xe0) === 0xe0)) return parseMp3(src);
+    return null;
+}
+
+function emptyMetadata(format: AudioMetadata['format']): AudioMetadata {
+    return {
+        format,
+        durationSec: null,
+        bitrate: null,
+        sampleRate: null,
+        title: null,
+        artist: null,
+        album: null,
+        trackNumber: null,
+        picture: null,
+    };
+}
+
+function parseTrackNumber(value: string | null | undefined): number | null {
+    const n = parseInt(String(value || '').split('/')[0], 10);
+    return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+function clean(value: string | null | undefined): string | null {
+    const trimmed = (value || '').replace(/\0+$/g, '').trim();
+    return trimmed || null;
+}
+
+function sniffImageMime(data: Buffer, fallback = 'image/jpeg'): string {
+    if (data[0] === 0x89 && data.toString('latin1', 1, 4) === 'PNG') return 'image/png';
+    if (data[0] === 0xff && data[1] === 0xd8) return 'image/jpeg';
+    return fallback;
+}
+
+// ── MP3 ──────────────────────────────────────────────────────────────────────
+
+const MPEG_BITRATES: Record<string, number[]> = {
+    // [versi][layer] → kbps per index 0..15
+    'V1L1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448, 0],
+    'V1L2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384, 0],
+    'V1L3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 0],
+    'V2L1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256, 0],
+    'V2L2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160, 0],
+    'V2L3': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160, 0],
+};
+const MPEG_SAMPLE_RATES: Record<number, number[]> = {
+    3: [44100, 48000, 32000],   // MPEG-1
+    2: [22050, 24000, 16000],   // MPEG-2
+    0: [11025, 12000, 8000],    // MPEG-2.5
+};
+
+interface MpegFrame {
+    bitrate: number;
+    sampleRate: number;
+    samplesPerFrame: number;
+    frameLength: number;
+    isV1: boolean;
+    mono: boolean;
+}
+
+function parseMpegHeader(buf: Buffer, i: number): MpegFrame | null {
+    if (i + 4 > buf.length || buf[i] !== 0xff || (buf[i + 1] & 0xe0) !== 0xe0) return null;
+
+    const versionBits = (buf[i + 1] >> 3) & 3;
+    const layerBits = (buf[i + 1] >> 1) & 3;
+    const bitrateIndex = buf[i + 2] >> 4;
+    const sampleRateIndex = (buf[i + 2] >> 2) & 3;
+    const padding = (buf[i + 2] >> 1) & 1;
+    if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return null;
+
+    const isV1 = versionBits === 3;
+    const layer = 4 - layerBits;
+    const bitrate = MPEG_BITRATES[`${isV1 ? 'V1' : 'V2'}L${layer}`][bitrateIndex];
+    const sampleRate = MPEG_SAMPLE_RATES[versionBits][sampleRateIndex];
+    const samplesPerFrame = layer === 1 ? 384 : layer === 2 || isV1 ? 1152 : 576;
+    const frameLength = layer === 1
+        ? Math.floor((12 * bitrate * 1000) / sampleRate + padding) * 4
+        : Math.floor(((samplesPerFrame / 8) * bitrate * 1000) / sampleRate) + padding;
+
+    return { bitrate, sampleRate, samplesPerFrame, frameLength, isV1, mono: buf[i + 3] >> 6 === 3 };
+}
+
+function synchsafe(buf: Buffer, offset: number): number {
+    return ((buf[offset] & 0x7f) << 21) | ((buf[offset + 1] & 0x7f) << 14) | ((buf[offset + 2] & 0x7f) << 7) | (buf[offset + 3] & 0x7f);
+}
+
+function removeUnsync(buf: Buffer): Buffer {
+    const out: number[] = [];
+    for (let i = 0; i < buf.length; i++) {
+        out.push(buf[i]);
+        if (buf[i] === 0xff && buf[i + 1] === 0x00) i++;
+    }
+    return Buffer.from(out);
+}
+
+function decodeId3Text(buf: Buffer, encoding: number): string {
+    if (encoding === 0) return buf.toString('latin1');
+    if (encoding === 3) return buf.toString('utf8');
+
+    // UTF-16 (1: dengan BOM, 2: big-endian tanpa BOM)
+    let data = buf;
+    let bigEndian = encoding === 2;
+    if (data[0] === 0xfe && data[1] === 0xff) { bigEndian = true; data = data.subarray(2); }
+    else if (data[0] === 0xff && data[1] === 0xfe) { bigEndian = false; data = data.subarray(2); }
+
+    const even = Buffer.from(data.subarray(0, data.length - (data.length % 2)));
+    if (bigEndian) even.swap16();
+    return even.toString('utf16le');
+}
+
+// Posisi akhir string ber-terminator null sesuai encoding (1 byte / 2 byte)
+function findTerminator(buf: Buffer, start: number, encoding: number): number {
+    if (encoding === 0 || encoding === 3) {
+        const idx = buf.indexOf(0, start);
+        return idx === -1 ? buf.length : idx;
+    }
+    for (let i = start; i + 1 < buf.length; i += 2) {
+        if (buf[i] === 0 && buf[i + 1] === 0) return i;
+    }
+    return buf.length;
+}
+
+function parsePictureFrame(data: Buffer, v22: boolean): EmbeddedPicture & { type: number } | null {
+    const encoding = data[0];
+    let pos = 1;
+    let mimeType: string;
+
+    if (v22) {
+        const format = data.toString('latin1', 1, 4).toUpperCase();
+        mimeType = format === 'PNG' ? 'image/png' : 'image/jpeg';
+        pos = 4;
+    } else {
+        const end = data.indexOf(0, pos);
+        if (end === -1) return null;
+        mimeType = data.toString('latin1', pos, end) || 'image/jpeg';
+        pos = end + 1;
+    }
+
+    const type = data[pos];
+    pos += 1;
+    const descEnd = findTerminator(data, pos, encoding);
+    pos = descEnd + (encoding === 0 || encoding === 3 ? 1 : 2);
+    if (pos >= data.length) return null;
+
+    const image = Buffer.from(data.subarray(pos));
+    if (!mimeType.includes('/')) mimeType = `image/${mimeType.toLowerCase()}`;
+    return { mimeType: sniffImageMime(image, mimeType), data: image, type };
+}
+
+function parseId3v2(tag: Buffer, version: number, flags: number, meta: AudioMetadata): void {
+    let buf = tag;
+    if (version < 4 && flags & 0x80) buf = removeUnsync(buf);
+
+    let pos = 0;
+    if (flags & 0x40) {
+        pos = version === 4 ? synchsafe(buf, 0) : buf.readUInt32BE(0) + 4;
+    }
+
+    const v22 = version === 2;
+    const headerSize = v22 ? 6 : 10;
+    let picture: (EmbeddedPicture & { type: number }) | null = null;
+
+    while (pos + headerSize <= buf.length) {
+        const id = buf.toString('latin1', pos, pos + (v22 ? 3 : 4));
+        if (!/^[A-Z0-9]{3,4}$/.test(id)) break; // padding
+
+        const size = v22
+            ? buf.readUIntBE(pos + 3, 3)
+            : version === 4 ? synchsafe(buf, pos + 4) : buf.readUInt32BE(pos + 4);
+        const frameFlags = v22 ? 0 : buf.readUInt16BE(pos + 8);
+        let data = buf.subarray(pos + headerSize, pos + headerSize + size);
+        pos += headerSize + size;
+
+        if (version === 4) {
+            if (frameFlags & 0x000c) continue;                 // terkompresi / terenkripsi
+            if (frameFlags & 0x0001) data = data.subarray(4);  // data length indicator
+            if (frameFlags & 0x0002) data = removeUnsync(data);
+        } else if (version === 3 && frameFlags & 0x00c0) {
+            continue;
+        }
+        if (data.length === 0) continue;
+
+        if (id === 'APIC' || id === 'PIC') {
+            const pic = parsePictureFrame(data, v22);
+            // Utamakan front cover (type 3)
+            if (pic && (!picture || (pic.type === 3 && picture.type !== 3))) picture = pic;
+            continue;
+        }
+
+        const key = { TIT2: 'title', TT2: 'title', TPE1: 'artist', TP1: 'artist', TALB: 'album', TAL: 'album', TRCK: 'track', TRK: 'track' }[id];
+        if (!key) continue;
+
+        // ID3v2.4 memisahkan banyak nilai dengan null
+        const text = decodeId3Text(data.subarray(1), data[0]).split('\0').map(t => t.trim()).filter(Boolean).join(', ');
+        if (key === 'title') meta.title = clean(text);
+        if (key === 'artist') meta.artist = clean(text);
+        if (key === 'album') meta.album = clean(text);
+        if (key === 'track') meta.trackNumber = parseTrackNumber(text);
+    }
+
+    if (picture) meta.picture = { mimeType: picture.mimeType, data: picture.data };
+}
+
+async function parseMp3(src: ByteSource): Promise<AudioMetadata> {
+    const meta = emptyMetadata('mp3');
+    let audioStart = 0;
+
+    const header = await src.read(0, 10);
+    if (header.toString('latin1', 0, 3) === 'ID3' && header.length === 10) {
+        const version = header[3];
+        const flags = header[5];
+        const size = synchsafe(header, 6);
+        if (version >= 2 && version <= 4) {
+            parseId3v2(await src.read(10, size), version, flags, meta);
+        }
+        audioStart = 10 + size + (flags & 0x10 ? 10 : 0);
+    }
+
+    // ID3v1 di 128 byte terakhir hanya mengisi field yang masih kosong
+    let id3v1Size = 0;
+    if (src.size >= 128) {
+        const tail = await src.read(src.size - 128, 128);
+        if (tail.toString('latin1', 0, 3) === 'TAG') {
+            id3v1Size = 128;
+            meta.title = meta.title ?? clean(tail.toString('latin1', 3, 33));
+            meta.artist = meta.artist ?? clean(tail.toString('latin1', 33, 63));
+            meta.album = meta.album ?? clean(tail.toString('latin1', 63, 93));
+            if (tail[125] === 0 && tail[126] !== 0) meta.trackNumber = meta.trackNumber ?? tail[126];
+        }
+    }
+
+    // Cari frame MPEG pertama yang valid (dikonfirmasi frame berikutnya jika ada)
+    const window = await src.read(audioStart, 64 * 1024);
+    let frameAt = -1;
+    let frame: MpegFrame | null = null;
+    for (let i = 0; i + 4 <= window.length; i++) {
+        const candidate = parseMpegHeader(window, i);
+        if (!candidate) continue;
+        const next = i + candidate.frameLength;
+        if (next + 4 <= window.length && !parseMpegHeader(window, next)) continue;
+        frameAt = i;
+        frame = candidate;
+        break;
+    }
+    if (!frame) return meta;
+
+    meta.sampleRate = frame.sampleRate;
+    const audioBytes = src.size - audioStart - frameAt - id3v1Size;
+
+    // Header VBR: Xing/Info setelah side info, VBRI di offset tetap 32
+    const sideInfo = frame.isV1 ? (frame.mono ? 17 : 32) : (frame.mono ? 9 : 17);
+    const xingAt = frameAt + 4 + sideInfo;
+    let frames: number | null = null;
+    let vbrBytes: number | null = null;
+
+    const xingId = window.toString('latin1', xingAt, xingAt + 4);
+    if ((xingId === 'Xing' || xingId === 'Info') && xingAt + 16 <= window.length) {
+        const xingFlags = window.readUInt32BE(xingAt + 4);
+        let p = xingAt + 8;
+        if (xingFlags & 1) { frames = window.readUInt32BE(p); p += 4; }
+        if (xingFlags & 2) vbrBytes = window.readUInt32BE(p);
+    } else if (window.toString('latin1', frameAt + 36, frameAt + 40) === 'VBRI' && frameAt + 54 <= window.length) {
+        vbrBytes = window.readUInt32BE(frameAt + 46);
+        frames = window.readUInt32BE(frameAt + 50);
+    }
+
+    if (frames) {
+        const duration = (frames * frame.samplesPerFrame) / frame.sampleRate;
+        meta.durationSec = Math.round(duration);
+        meta.bitrate = duration > 0 ? Math.round(((vbrBytes ?? audioBytes) * 8) / duration / 1000) : null;
+    } else {
+        // CBR: durasi dari ukuran data audio
+        meta.bitrate = frame.bitrate;
+        meta.durationSec = Math.round((audioBytes * 8) / (frame.bitrate * 1000));
+    }
+
+    return meta;
+}
+
+// ── MP4 / M4A ─────────────────────────────────────────────────────────────────
+
+const MAX_MOOV_BYTES = 32 * 1024 * 1024;
+
+function* mp4Children(buf: Buffer, start: number, end: number): Generator<{ type: string; start: number; end: number }> {
+    let pos = start;
+    while (pos + 8 <= end) {
+        let size = buf.readUInt32BE(pos);
+        const type = buf.toString('latin1', pos + 4, pos + 8);
+        let headerSize = 8;
+        if (size === 1 && pos + 16 <= end) { size = Number(buf.readBigUInt64BE(pos + 8)); headerSize = 16; }
+        else if (size === 0) size = end - pos;
+        if (size < headerSize || pos + size > end) break;
+
+        yield { type, start: pos + headerSize, end: pos + size };
+        pos += size;
+    }
+}
+
+function mp4Find(buf: Buffer, start: number, end: number, path: string[]): { start: number; end: number } | null {
+    let range = { start, end };
+    for (const type of path) {
+        let found: { start: number; end: number } | null = null;
+        for (const child of mp4Children(buf, range.start, range.end)) {
+            if (child.type === type) { found = child; break; }
+        }
+        if (!found) return null;
+        // `meta` adalah full box: 4 byte version/flags sebelum anak-anaknya
+        range = type === 'meta' ? { start: found.start + 4, end: found.end } : found;
+    }
+    return range;
+}
+
+function parseIlst(moov: Buffer, ilst: { start: number; end: number }, meta: AudioMetadata): void {
+    for (const item of mp4Children(moov, ilst.start, ilst.end)) {
+        let dataAtom: { start: number; end: number } | null = null;
+        for (const child of mp4Children(moov, item.start, item.end)) {
+            if (child.type === 'data') { dataAtom = child; break; }
+        }
+        if (!dataAtom || dataAtom.end - dataAtom.start < 8) continue;
+
+        const dataType = moov.readUInt32BE(dataAtom.start) & 0xffffff;
+        const value = moov.subarray(dataAtom.start + 8, dataAtom.end);
+
+        switch (item.type) {
+            case '©nam': meta.title = clean(value.toString('utf8')); break;
+            case '©ART': meta.artist = clean(value.toString('utf8')); break;
+            case 'aART': meta.artist = meta.artist ?? clean(value.toString('utf8')); break;
+            case '©alb': meta.album = clean(value.toString('utf8')); break;
+            case 'trkn':
+                if (value.length >= 4) meta.trackNumber = value.readUInt16BE(2) || null;
+                break;
+            case 'covr':
+                if (!meta.picture) {
+                    const data = Buffer.from(value);
+                    meta.picture = { mimeType: sniffImageMime(data, dataType === 14 ? 'image/png' : 'image/jpeg'), data };
+                }
+                break;
+        }
+    }
+}
+
+async function parseMp4(src: ByteSource): Promise<AudioMetadata | null> {
+    const meta = emptyMetadata('mp4');
+
+    // Cari atom moov di level teratas (bisa di awal atau di akhir file)
+    let pos = 0;
+    let moov: Buffer | null = null;
+    while (pos + 8 <= src.size) {
+        const header = await src.read(pos, 16);
+        if (header.length < 8) break;
+        let size = header.readUInt32BE(0);
+        const type = header.toString('latin1', 4, 8);
+        if (size === 1 && header.length >= 16) size = Number(header.readBigUInt64BE(8));
+        else if (size === 0) size = src.size - pos;
+        if (size < 8) break;
+
+        if (type === 'moov') {
+            if (size > MAX_MOOV_BYTES) return meta;
+            moov = await src.read(pos, size);
+            break;
+        }
+        pos += size;
+    }
+    if (!moov) return meta;
+
+    const root = mp4Find(moov, 0, moov.length, ['moov']);
+    if (!root) return meta;
+
+    const mvhd = mp4Find(moov, root.start, root.end, ['mvhd']);
+    if (mvhd) {
+        const version = moov[mvhd.start];
+        const timescale = moov.readUInt32BE(mvhd.start + (version === 1 ? 20 : 12));
+        const duration = version === 1
+            ? Number(moov.readBigUInt64BE(mvhd.start + 24))
+            : moov.readUInt32BE(mvhd.start + 16);
+        if (timescale > 0) meta.durationSec = Math.round(duration / timescale);
+    }
+
+    // Sample rate dari mdhd track pertama (timescale audio = sample rate)
+    const mdhd = mp4Find(moov, root.start, root.end, ['trak', 'mdia', 'mdhd']);
+    if (mdhd) {
+        const version = moov[mdhd.start];
+        meta.sampleRate = moov.readUInt32BE(mdhd.start + (version === 1 ? 20 : 12)) || null;
+    }
+
+    const ilst = mp4Find(moov, root.start, root.end, ['udta', 'meta', 'ilst'])
+        ?? mp4Find(moov, root.start, root.end, ['meta', 'ilst']);
+    if (ilst) parseIlst(moov, ilst, meta);
+
+    if (meta.durationSec) meta.bitrate = Math.round((src.size * 8) / meta.durationSec / 1000) || null;
+    return meta;
+}
+
+// ── FLAC ─────────────────────────────────────────────────────────────────────
+
+function parseVorbisComment(block: Buffer, meta: AudioMetadata): void {
+    let pos = 4 + block.readUInt32LE(0);
+    const count = block.readUInt32LE(pos);
+    pos += 4;
+
+    const artists: string[] = [];
+    for (let i = 0; i < count && pos + 4 <= block.length; i++) {
+        const len = block.readUInt32LE(pos);
+        const entry = block.toString('utf8', pos + 4, pos + 4 + len);
+        pos += 4 + len;
+
+        const eq = entry.indexOf('=');
+        if (eq === -1) continue;
+        const key = entry.slice(0, eq).toUpperCase();
+        const value = entry.slice(eq + 1);
+
+        if (key === 'TITLE') meta.title = clean(value);
+        else if (key === 'ARTIST') artists.push(value.trim());
+        else if (key === 'ALBUM') meta.album = clean(value);
+        else if (key === 'TRACKNUMBER') meta.trackNumber = parseTrackNumber(value);
+    }
+    if (artists.length > 0) meta.artist = clean(artists.join(', '));
+}
+
+function parseFlacPicture(block: Buffer): EmbeddedPicture & { type: number } {
+    const type = block.readUInt32BE(0);
+    const mimeLength = block.readUInt32BE(4);
+    const mimeType = block.toString('latin1', 8, 8 + mimeLength);
+    let pos = 8 + mimeLength;
+    pos += 4 + block.readUInt32BE(pos); // description
+    pos += 16;                          // width, height, depth, colors
+    const dataLength = block.readUInt32BE(pos);
+    const data = Buffer.from(block.subarray(pos + 4, pos + 4 + dataLength));
+    return { type, mimeType: sniffImageMime(data, mimeType || 'image/jpeg'), data };
+}
+
+async function parseFlac(src: ByteSource): Promise<AudioMetadata> {
+    const meta = emptyMetadata('flac');
+    let picture: (EmbeddedPicture & { type: number }) | null = null;
+    let totalSamples = 0;
+    let pos = 4;
+
+    for (let isLast = false; !isLast && pos + 4 <= src.size;) {
+        const header = await src.read(pos, 4);
+        isLast = (header[0] & 0x80) !== 0;
+        const type = header[0] & 0x7f;
+        const length = header.readUIntBE(1, 3);
+        pos += 4;
+
+        if (type === 0 || type === 4 || type === 6) {
+            const block = await src.read(pos, length);
+            if (type === 0 && block.length >= 18) {
+                meta.sampleRate = (block[10] << 12) | (block[11] << 4) | (block[12] >> 4);
+                totalSamples = (block[13] & 0x0f) * 2 ** 32 + block.readUInt32BE(14);
+            } else if (type === 4) {
+                parseVorbisComment(block, meta);
+            } else if (type === 6) {
+                const pic = parseFlacPicture(block);
+                if (!picture || (pic.type === 3 && picture.type !== 3)) picture = pic;
+            }
+        }
+        pos += length;
+    }
+
+    if (meta.sampleRate && totalSamples > 0) {
+        const duration = totalSamples / meta.sampleRate;
+        meta.durationSec = Math.round(duration);
+        meta.bitrate = Math.round(((src.size - pos) * 8) / duration / 1000) || null;
+    }
+    if (picture) meta.picture = { mimeType: picture.mimeType, data: picture.data };
+    return meta;
+}
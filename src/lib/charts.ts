@@ -0,0 +1,228 @@
+import { ChartSnapshot, Prisma, PrismaClient } from '@prisma/client';
+import { localDate, zonedMidnight, DEFAULT_TIMEZONE } from './listeningStats';
+import { formatSongSummary, SONG_SUMMARY_INCLUDE } from './songFormat';
+
+/**
+ * Chart lagu dari PlayHistory (play yang qualified), disimpan sebagai snapshot per periode:
+ *   DAILY / WEEKLY (Senin-Minggu) / MONTHLY → top 50 berdasarkan jumlah play dalam periode kalender
+ *   TRENDING → kenaikan play TRENDING_WINDOW terakhir dibanding window sebelumnya, satu snapshot per hari
+ *
+ * Periode berjalan dibuat ulang berkala (worker / saat dibuka dan sudah basi); setelah periode
+ * selesai snapshot dibuat sekali lagi lalu tidak berubah. Pergerakan (UP/DOWN/SAME/NEW) dibandingkan
+ * dengan snapshot periode sebelumnya dari tipe yang sama.
+ */
+
+export const CHART_TYPES = ['DAILY', 'WEEKLY', 'MONTHLY', 'TRENDING'] as const;
+export type ChartType = typeof CHART_TYPES[number];
+export type ChartMovement = 'UP' | 'DOWN' | 'SAME' | 'NEW';
+
+export const CHART_SIZE = 50;
+export const CHART_TIMEZONE = process.env.CHARTS_TIMEZONE || DEFAULT_TIMEZONE;
+// Snapshot periode berjalan dianggap basi setelah ini
+export const CHART_REFRESH_MS = Number(process.env.CHART_REFRESH_INTERVAL_MS) || 60 * 60 * 1000;
+
+// Play dari satu user untuk satu lagu dalam satu window hanya dihitung sampai batas ini (anti repeat)
+const MAX_PLAYS_PER_LISTENER = 3;
+const TRENDING_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+const TRENDING_MIN_PLAYS = 3;
+
+export interface ChartPeriod {
+    start: Date;
+    end: Date;      // eksklusif
+}
+
+interface RankedSong {
+    songId: string;
+    plays: number;
+    listeners: number;
+    score: number;
+}
+
+/**
+ * Periode chart yang memuat waktu `at` (tanggal lokal CHART_TIMEZONE).
+ */
+export function chartPeriod(type: ChartType, at: Date, timeZone = CHART_TIMEZONE): ChartPeriod {
+    const [y, m, d] = localDate(at, timeZone).split('-').map(Number);
+
+    if (type === 'MONTHLY') {
+        return { start: zonedMidnight(y, m, 1, timeZone), end: zonedMidnight(y, m + 1, 1, timeZone) };
+    }
+    if (type === 'WEEKLY') {
+        const sinceMonday = (new Date(Date.UTC(y, m - 1, d)).getUTCDay() + 6) % 7;
+        return { start: zonedMidnight(y, m, d - sinceMonday, timeZone), end: zonedMidnight(y, m, d - sinceMonday + 7, timeZone) };
+    }
+    return { start: zonedMidnight(y, m, d, timeZone), end: zonedMidnight(y, m, d + 1, timeZone) };
+}
+
+export function previousChartPeriod(type: ChartType, period: ChartPeriod): ChartPeriod {
+    return chartPeriod(type, new Date(period.start.getTime() - 1));
+}
+
+export function chartMovement(position: number, previousPosition: number | null): ChartMovement {
+    if (previousPosition === null) return 'NEW';
+    if (position < previousPosition) return 'UP';
+    if (position > previousPosition) return 'DOWN';
+    return 'SAME';
+}
+
+async function countPlays(prisma: PrismaClient, from: Date, to: Date, limit?: number): Promise<RankedSong[]> {
+    return prisma.$queryRaw<RankedSong[]>`
+        SELECT l."songId",
+               SUM(LEAST(l.plays, ${MAX_PLAYS_PER_LISTENER}))::int AS plays,
+               COUNT(*)::int AS listeners,
+               SUM(LEAST(l.plays, ${MAX_PLAYS_PER_LISTENER}))::float8 AS score
+        FROM (
+            SELECT "songId", "userId", COUNT(*) AS plays
+            FROM "PlayHistory"
+            WHERE "playedAt" >= ${from} AND "playedAt" < ${to}
+            GROUP BY "songId", "userId"
+        ) l
+        GROUP BY l."songId"
+        ORDER BY plays DESC, listeners DESC, l."songId"
+        ${limit ? Prisma.sql`LIMIT ${limit}` : Prisma.empty}`;
+}
+
+/**
+ * Trending: score = (play sekarang - play window sebelumnya) / sqrt(play window sebelumnya + 1),
+ * jadi lagu baru yang naik cepat mengalahkan lagu lama yang sudah banyak diputar.
+ */
+async function rankTrending(prisma: PrismaClient, until: Date): Promise<RankedSong[]> {
+    const currentFrom = new Date(until.getTime() - TRENDING_WINDOW_MS);
+    const previousFrom = new Date(currentFrom.getTime() - TRENDING_WINDOW_MS);
+
+    const [current, previous] = await Promise.all([
+        countPlays(prisma, currentFrom, until),
+        countPlays(prisma, previousFrom, currentFrom),
+    ]);
+    const previousPlays = new Map(previous.map(r => [r.songId, r.plays]));
+
+    return current
+        .filter(r => r.plays >= TRENDING_MIN_PLAYS)
+        .map(r => {
+            const before = previousPlays.get(r.songId) ?? 0;
+            return { ...r, score: Math.round((r.plays - before) / Math.sqrt(before + 1) * 1000) / 1000 };
+        })
+        .filter(r => r.score > 0)
+        .sort((a, b) => b.score - a.score || b.plays - a.plays || a.songId.localeCompare(b.songId))
+        .slice(0, CHART_SIZE);
+}
+
+/**
+ * Buat (ulang) snapshot chart untuk periode yang memuat `at`.
+ */
+export async function generateChart(prisma: PrismaClient, type: ChartType, at = new Date()): Promise<ChartSnapshot> {
+    const period = chartPeriod(type, at);
+    const generatedAt = new Date();
+    const until = generatedAt < period.end ? generatedAt : period.end;
+
+    const ranked = type === 'TRENDING'
+        ? await rankTrending(prisma, until)
+        : await countPlays(prisma, period.start, until, CHART_SIZE);
+
+    const previousPeriod = previousChartPeriod(type, period);
+    const previous = await prisma.chartSnapshot.findUnique({
+        where: { type_periodStart: { type, periodStart: previousPeriod.start } },
+        include: { entries: { select: { songId: true, position: true } } },
+    });
+    const previousPositions = new Map(previous?.entries.map(e => [e.songId, e.position]) ?? []);
+
+    return prisma.$transaction(async tx => {
+        // Upsert dulu supaya baris snapshot terkunci: generate yang bersamaan menunggu, tidak bentrok
+        const snapshot = await tx.chartSnapshot.upsert({
+            where: { type_periodStart: { type, periodStart: period.start } },
+            create: { type, periodStart: period.start, periodEnd: period.end, generatedAt },
+            update: { generatedAt },
+        });
+
+        await tx.chartEntry.deleteMany({ where: { snapshotId: snapshot.id } });
+        await tx.chartEntry.createMany({
+            data: ranked.map((r, i) => {
+                const position = i + 1;
+                const previousPosition = previousPositions.get(r.songId) ?? null;
+                return {
+                    snapshotId: snapshot.id,
+                    position,
+                    songId: r.songId,
+                    plays: r.plays,
+                    listeners: r.listeners,
+                    score: r.score,
+                    previousPosition,
+                    movement: chartMovement(position, previousPosition),
+                };
+            }),
+        });
+        return snapshot;
+    });
+}
+
+export function isChartFinal(snapshot: Pick<ChartSnapshot, 'generatedAt' | 'periodEnd'>): boolean {
+    return snapshot.generatedAt >= snapshot.periodEnd;
+}
+
+/**
+ * Perbarui semua chart periode berjalan. Snapshot periode sebelumnya yang dibuat sebelum
+ * periodenya selesai dibuat ulang dulu, supaya play di akhir periode ikut terhitung.
+ */
+export async function refreshCharts(prisma: PrismaClient, now = new Date()): Promise<void> {
+    for (const type of CHART_TYPES) {
+        const previousPeriod = previousChartPeriod(type, chartPeriod(type, now));
+        const previous = await prisma.chartSnapshot.findUnique({
+            where: { type_periodStart: { type, periodStart: previousPeriod.start } },
+        });
+        if (previous && !isChartFinal(previous)) await generateChart(prisma, type, previousPeriod.start);
+
+        await generateChart(prisma, type, now);
+    }
+}
+
+/**
+ * Snapshot untuk periode yang memuat `at`. Periode berjalan dibuat ulang jika belum ada / sudah basi;
+ * periode lampau yang tidak punya snapshot → null.
+ */
+export async function getChart(prisma: PrismaClient, type: ChartType, at = new Date()) {
+    const period = chartPeriod(type, at);
+    let snapshot = await prisma.chartSnapshot.findUnique({
+        where: { type_periodStart: { type, periodStart: period.start } },
+    });
+
+    const isCurrent = Date.now() < period.end.getTime();
+    if (isCurrent && (!snapshot || Date.now() - snapshot.generatedAt.getTime() > CHART_REFRESH_MS)) {
+        snapshot = await generateChart(prisma, type, at);
+    }
+    if (!snapshot) return null;
+
+    return prisma.chartSnapshot.findUnique({
+        where: { id: snapshot.id },
+        include: { entries: { orderBy: { position: 'asc' }, include: { song: { include: SONG_SUMMARY_INCLUDE } } } },
+    });
+}
+
+type ChartWithEntries = NonNullable<Awaited<ReturnType<typeof getChart>>>;
+
+export function formatChartSnapshot(snapshot: ChartSnapshot) {
+    return {
+        id: snapshot.id,
+        type: snapshot.type,
+        periodStart: snapshot.periodStart,
+        periodEnd: snapshot.periodEnd,
+        generatedAt: snapshot.generatedAt,
+        final: isChartFinal(snapshot),
+    };
+}
+
+export function formatChart(chart: ChartWithEntries) {
+    return {
+        ...formatChartSnapshot(chart),
+        timeZone: CHART_TIMEZONE,
+        entries: chart.entries.map(e => ({
+            position: e.position,
+            previousPosition: e.previousPosition,
+            movement: e.movement,
+            change: e.previousPosition === null ? null : e.previousPosition - e.position,
+            plays: e.plays,
+            listeners: e.listeners,
+            ...(chart.type === 'TRENDING' && { score: e.score }),
+            song: formatSongSummary(e.song),
+        })),
+    };
+}
@@ -0,0 +1,81 @@
+import fs from 'fs';
+import { spawn } from 'child_process';
+import { getStorage } from './storage';
+
+/**
+ * Helper ffmpeg untuk pemrosesan audio di worker (transcode HLS, analisis loudness).
+ * Path binary bisa diatur lewat FFMPEG_PATH.
+ */
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+const DOWNLOAD_CHUNK_BYTES = 8 * 1024 * 1024;
+// Sisa stderr yang disimpan untuk pesan error / output analisis
+const STDERR_LIMIT = 64 * 1024;
+
+/**
+ * Cek ffmpeg tersedia. Worker tanpa ffmpeg tetap jalan, hanya tidak mengambil antrian yang butuh ffmpeg.
+ */
+export function isFfmpegAvailable(): Promise<boolean> {
+    return new Promise(resolve => {
+        const proc = spawn(FFMPEG_PATH, ['-version'], { stdio: 'ignore' });
+        proc.on('error', () => resolve(false));
+        proc.on('close', code => resolve(code === 0));
+    });
+}
+
+export interface FfmpegOptions {
+    // Dipakai jika output ditulis ke pipe (mis. PCM mentah dengan output "-")
+    onStdout?: (chunk: Buffer) => void;
+    // Proses di-kill setelah ini. Harus lebih pendek dari STALE_LOCK_MS antrian pemanggil,
+    // supaya lagu tidak diambil worker lain selagi ffmpeg masih jalan.
+    timeoutMs: number;
+}
+
+/**
+ * Jalankan ffmpeg dan return stderr-nya (tempat ffmpeg menulis log & hasil filter analisis).
+ */
+export function runFfmpeg(args: string[], { onStdout, timeoutMs }: FfmpegOptions): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const proc = spawn(FFMPEG_PATH, ['-hide_banner', '-nostats', ...args], {
+            stdio: ['ignore', onStdout ? 'pipe' : 'ignore', 'pipe'],
+        });
+        if (onStdout) proc.stdout!.on('data', onStdout);
+        let stderr = '';
+        proc.stderr!.on('data', chunk => { stderr = (stderr + chunk).slice(-STDERR_LIMIT); });
+
+        // Reject langsung tanpa menunggu "close": pipe bisa tetap terbuka oleh proses anak
+        const timer = setTimeout(() => {
+            proc.kill('SIGKILL');
+            reject(new Error(`ffmpeg dihentikan setelah ${Math.round(timeoutMs / 1000)} detik.`));
+        }, timeoutMs);
+
+        proc.on('error', err => {
+            clearTimeout(timer);
+            reject(err);
+        });
+        proc.on('close', code => {
+            clearTimeout(timer);
+            if (code === 0) resolve(stderr);
+            else reject(new Error(`ffmpeg exit ${code}: ${stderr.trim().slice(-2000)}`));
+        });
+    });
+}
+
+/**
+ * Unduh objek storage ke file lokal per potongan (tanpa menampung seluruh file di memori).
+ */
+export async function downloadToFile(key: string, target: string): Promise<void> {
+    const storage = getStorage();
+    const object = await storage.head(key);
+    if (!object) throw new Error(`File audio tidak ditemukan: ${key}`);
+
+    const handle = await fs.promises.open(target, 'w');
+    try {
+        for (let offset = 0; offset < object.size; offset += DOWNLOAD_CHUNK_BYTES) {
+            const chunk = await storage.read(key, offset, Math.min(DOWNLOAD_CHUNK_BYTES, object.size - offset));
+            await handle.write(chunk);
+        }
+    } finally {
+        await handle.close();
+    }
+}
@@ -0,0 +1,103 @@
+import jwt from 'jsonwebtoken';
+import { getStorage, readObject } from './storage';
+
+/**
+ * Streaming HLS untuk lagu yang sudah ditranscode (src/lib/transcode.ts).
+ *
+ * File HLS disimpan di samping audio asli:
+ *   audio/<id>-judul.mp3
+ *   audio/<id>-judul.hls/master.m3u8
+ *   audio/<id>-judul.hls/128k/index.m3u8, 128k/seg_000.ts, ...
+ *
+ * Playlist tidak diberikan langsung dari storage karena URI segmen di dalamnya
+ * relatif (tidak bisa ikut ditandatangani). API menyajikan playlist lewat
+ * GET /songs/:id/hls/... dengan token, dan menulis ulang URI segmen menjadi
+ * signed URL storage.
+ */
+
+export const HLS_MASTER = 'master.m3u8';
+export const HLS_VARIANT = 'index.m3u8';
+const RENDITION_NAME = /^\d+k$/;
+
+/**
+ * Masa berlaku token playlist & signed URL segmen: sepanjang lagu + 1 jam,
+ * karena player mengambil playlist rendition lain saat bitrate berganti.
+ */
+export function hlsSessionSeconds(durationSec: number): number {
+    return Math.max(durationSec, 0) + 3600;
+}
+
+export function hlsPrefix(audioKey: string): string {
+    return `${audioKey.replace(/\.[^./]+$/, '')}.hls/`;
+}
+
+export class InvalidHlsTokenError extends Error {
+    constructor() {
+        super('Token streaming tidak valid atau sudah kadaluarsa.');
+        this.name = 'InvalidHlsTokenError';
+    }
+}
+
+// Audience terpisah dari token login; requireAuth juga menolak payload ber-`typ`
+const HLS_TOKEN_AUDIENCE = 'hls';
+
+/**
+ * Token akses playlist satu lagu. Dikirim sebagai query (?token=) karena
+ * player HLS tidak bisa menambah header Authorization.
+ */
+export function signHlsToken(songId: string, expiresInSec: number): string {
+    return jwt.sign({ sid: songId, typ: 'hls' }, process.env.JWT_SECRET as string, {
+        expiresIn: expiresInSec,
+        audience: HLS_TOKEN_AUDIENCE,
+    });
+}
+
+export function verifyHlsToken(token: unknown, songId: string): void {
+    try {
+        const payload = jwt.verify(String(token ?? ''), process.env.JWT_SECRET as string, {
+            audience: HLS_TOKEN_AUDIENCE,
+        }) as { sid?: string; typ?: string };
+        if (payload.typ !== 'hls' || payload.sid !== songId) throw new InvalidHlsTokenError();
+    } catch {
+        throw new InvalidHlsTokenError();
+    }
+}
+
+function isUriLine(line: string): boolean {
+    return line.trim() !== '' && !line.startsWith('#');
+}
+
+/**
+ * Master playlist: URI variant (mis. "128k/index.m3u8") diberi token supaya
+ * request berikutnya tetap terotorisasi.
+ */
+export async function buildMasterPlaylist(hlsKey: string, token: string): Promise<string | null> {
+    const master = await readObject(hlsKey);
+    if (!master) return null;
+
+    return master.toString('utf8')
+        .split('\n')
+        .map(line => isUriLine(line) ? `${line.trim()}?token=${encodeURIComponent(token)}` : line)
+        .join('\n');
+}
+
+/**
+ * Media playlist satu rendition: tiap segmen diganti signed URL storage.
+ * Return null jika rendition tidak ada.
+ */
+export async function buildVariantPlaylist(hlsKey: string, rendition: string, expiresInSec: number): Promise<string | null> {
+    if (!RENDITION_NAME.test(rendition)) return null;
+
+    const dir = hlsKey.slice(0, hlsKey.length - HLS_MASTER.length) + `${rendition}/`;
+    const playlist = await readObject(dir + HLS_VARIANT);
+    if (!playlist) return null;
+
+    const storage = getStorage();
+    const lines = await Promise.all(playlist.toString('utf8').split('\n').map(async line => {
+        if (!isUriLine(line)) return line;
+        const segment = line.trim();
+        if (segment.includes('/') || segment.includes('..')) return line;
+        return storage.signedGetUrl(dir + segment, expiresInSec);
+    }));
+    return lines.join('\n');
+}
@@ -0,0 +1,385 @@
+import crypto from 'crypto';
+import { HomeSection, Prisma, PrismaClient } from '@prisma/client';
+import { formatSongSummary, SONG_SUMMARY_INCLUDE, SongSummary } from './songFormat';
+import { localDate, zonedMidnight, DEFAULT_TIMEZONE } from './listeningStats';
+import { similarSongs } from './radio';
+
+/**
+ * Bagian-bagian halaman home yang dipersonalisasi (GET /home).
+ *
+ * Setiap bagian disimpan per user di HomeSection (hanya id lagu / playlist) dengan expiresAt sendiri.
+ * GET /home membuat ulang bagian yang belum ada / kadaluarsa, worker memperbarui bagian kadaluarsa
+ * milik user yang masih aktif mendengarkan. Saat dibaca, id dihidrasi ulang supaya lagu yang
+ * sudah dihapus / playlist yang tidak bisa diakses lagi tidak ikut tampil.
+ */
+
+export const HOME_SECTION_KEYS = ['recently-played', 'jump-back-in', 'daily-mixes', 'because-you-listened', 'new-from-artists'] as const;
+export type HomeSectionKey = typeof HOME_SECTION_KEYS[number];
+
+interface SongListData { songIds: string[] }
+interface PlaylistListData { playlistIds: string[] }
+interface DailyMixesData { mixes: { id: string; title: string; subtitle: string; songIds: string[] }[] }
+interface BecauseData { groups: { seedSongId: string; songIds: string[] }[] }
+type SectionData = SongListData | PlaylistListData | DailyMixesData | BecauseData;
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const SECTION_TTL_MS: Record<Exclude<HomeSectionKey, 'daily-mixes'>, number> = {
+    'recently-played': 5 * MINUTE_MS,
+    'jump-back-in': 15 * MINUTE_MS,
+    'because-you-listened': 6 * 60 * MINUTE_MS,
+    'new-from-artists': 6 * 60 * MINUTE_MS,
+};
+
+const SECTION_SIZE = 20;
+const TASTE_LOOKBACK_DAYS = 90;
+const MAX_DAILY_MIXES = 6;
+const MIX_SIZE = 30;
+const MIX_MIN_FAVORITES = 3;
+const BECAUSE_SEEDS = 3;
+const BECAUSE_SIZE = 12;
+const NEW_RELEASE_DAYS = 30;
+// Worker hanya memperbarui bagian milik user yang mendengarkan dalam periode ini
+const ACTIVE_USER_DAYS = 7;
+
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS);
+
+// PRNG deterministik (mulberry32): urutan daily mix sama sepanjang hari, berganti besoknya
+function seededRandom(seed: string): () => number {
+    let state = crypto.createHash('sha256').update(seed).digest().readUInt32LE(0);
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+    const out = [...items];
+    for (let i = out.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [out[i], out[j]] = [out[j], out[i]];
+    }
+    return out;
+}
+
+// Lagu yang paling sering diputar user dalam `days` hari terakhir, terbanyak dulu
+async function topPlayedSongIds(prisma: PrismaClient, userId: string, days: number, take: number): Promise<string[]> {
+    const rows = await prisma.playHistory.groupBy({
+        by: ['songId'],
+        where: { userId, playedAt: { gte: daysAgo(days) } },
+        _count: { songId: true },
+        orderBy: { _count: { songId: 'desc' } },
+        take,
+    });
+    return rows.map(r => r.songId);
+}
+
+// ── Pembuat bagian ───────────────────────────────────────────────────────────
+
+async function buildRecentlyPlayed(prisma: PrismaClient, userId: string): Promise<SongListData> {
+    const rows = await prisma.playHistory.groupBy({
+        by: ['songId'],
+        where: { userId, playedAt: { gte: daysAgo(TASTE_LOOKBACK_DAYS) } },
+        _max: { playedAt: true },
+        orderBy: { _max: { playedAt: 'desc' } },
+        take: SECTION_SIZE,
+    });
+    return { songIds: rows.map(r => r.songId) };
+}
+
+async function buildJumpBackIn(prisma: PrismaClient, userId: string): Promise<PlaylistListData> {
+    const opens = await prisma.playlistOpen.findMany({
+        where: { userId },
+        orderBy: { openedAt: 'desc' },
+        take: 8,
+    });
+    return { playlistIds: opens.map(o => o.playlistId) };
+}
+
+/**
+ * Kelompokkan lagu favorit user per genre (atau mood pertama jika tanpa genre), lalu tiap kelompok
+ * menjadi satu mix: favorit dalam kelompok + lagu belum pernah diputar dengan genre / mood sama.
+ */
+async function buildDailyMixes(prisma: PrismaClient, userId: string): Promise<DailyMixesData> {
+    const topIds = await topPlayedSongIds(prisma, userId, TASTE_LOOKBACK_DAYS, 300);
+    if (topIds.length === 0) return { mixes: [] };
+
+    const songs = await prisma.song.findMany({
+        where: { id: { in: topIds } },
+        select: { id: true, genre: true, moods: true, artists: { select: { name: true } } },
+    });
+    const rank = new Map(topIds.map((id, i) => [id, i]));
+    songs.sort((a, b) => rank.get(a.id)! - rank.get(b.id)!);
+
+    type Cluster = { genre: string | null; mood: string | null; songIds: string[]; artists: Map<string, number> };
+    const clusters = new Map<string, Cluster>();
+    for (const song of songs) {
+        const genre = song.genre?.trim() || null;
+        const mood = genre ? null : song.moods[0] ?? null;
+        if (!genre && !mood) continue;
+
+        const key = genre ? `genre:${genre.toLowerCase()}` : `mood:${mood!.toLowerCase()}`;
+        const cluster: Cluster = clusters.get(key) ?? { genre, mood, songIds: [], artists: new Map() };
+        cluster.songIds.push(song.id);
+        for (const a of song.artists) cluster.artists.set(a.name, (cluster.artists.get(a.name) ?? 0) + 1);
+        clusters.set(key, cluster);
+    }
+
+    // Kelompok dengan lagu favorit paling banyak dulu
+    const chosen = [...clusters.values()]
+        .filter(c => c.songIds.length >= MIX_MIN_FAVORITES)
+        .sort((a, b) => b.songIds.length - a.songIds.length)
+        .slice(0, MAX_DAILY_MIXES);
+
+    const random = seededRandom(`${userId}:${localDate(new Date(), DEFAULT_TIMEZONE)}`);
+    const mixes: DailyMixesData['mixes'] = [];
+    for (const cluster of chosen) {
+        const discovery = await prisma.song.findMany({
+            where: {
+                id: { notIn: topIds },
+                ...(cluster.genre
+                    ? { genre: { equals: cluster.genre, mode: 'insensitive' } }
+                    : { moods: { has: cluster.mood! } }),
+            },
+            orderBy: [{ playCount: 'desc' }, { createdAt: 'desc' }],
+            take: MIX_SIZE,
+            select: { id: true },
+        });
+
+        const favorites = shuffle(cluster.songIds.slice(0, MIX_SIZE / 2), random);
+        const fresh = shuffle(discovery.map(s => s.id), random).slice(0, MIX_SIZE - favorites.length);
+        // Selang-seling favorit dan lagu baru
+        const songIds: string[] = [];
+        for (let i = 0; songIds.length < MIX_SIZE && (i < favorites.length || i < fresh.length); i++) {
+            if (i < favorites.length) songIds.push(favorites[i]);
+            if (i < fresh.length) songIds.push(fresh[i]);
+        }
+
+        const topArtists = [...cluster.artists.entries()].sort((a, b) => b[1] - a[1]).slice(0, 3).map(([name]) => name);
+        mixes.push({
+            id: `daily-mix-${mixes.length + 1}`,
+            title: `Daily Mix ${mixes.length + 1}`,
+            subtitle: [cluster.genre ?? cluster.mood, ...topArtists].join(' • '),
+            songIds: songIds.slice(0, MIX_SIZE),
+        });
+    }
+    return { mixes };
+}
+
+/**
+ * Seed: lagu paling sering diputar 14 hari terakhir, maksimal satu per artis utama.
+ * Rekomendasi memakai skor radio, tanpa lagu yang diputar user 30 hari terakhir.
+ */
+async function buildBecauseYouListened(prisma: PrismaClient, userId: string): Promise<BecauseData> {
+    const recentTop = await topPlayedSongIds(prisma, userId, 14, 20);
+    if (recentTop.length === 0) return { groups: [] };
+
+    const songs = await prisma.song.findMany({
+        where: { id: { in: recentTop } },
+        select: { id: true, artists: { select: { id: true }, take: 1 } },
+    });
+    const byId = new Map(songs.map(s => [s.id, s]));
+
+    const seeds: string[] = [];
+    const usedArtists = new Set<string>();
+    for (const id of recentTop) {
+        const artistId = byId.get(id)?.artists[0]?.id;
+        if (!byId.has(id) || (artistId && usedArtists.has(artistId))) continue;
+        if (artistId) usedArtists.add(artistId);
+        seeds.push(id);
+        if (seeds.length === BECAUSE_SEEDS) break;
+    }
+
+    const played = await prisma.playHistory.findMany({
+        where: { userId, playedAt: { gte: daysAgo(30) } },
+        distinct: ['songId'],
+        select: { songId: true },
+    });
+    const exclude = new Set(played.map(p => p.songId));
+
+    const groups: BecauseData['groups'] = [];
+    for (const seedSongId of seeds) {
+        const similar = await similarSongs(prisma, [seedSongId], exclude, BECAUSE_SIZE);
+        if (similar.length === 0) continue;
+        // Lagu yang sudah muncul di grup sebelumnya tidak diulang
+        for (const s of similar) exclude.add(s.id);
+        groups.push({ seedSongId, songIds: similar.map(s => s.id) });
+    }
+    return { groups };
+}
+
+async function buildNewFromArtists(prisma: PrismaClient, userId: string): Promise<SongListData> {
+    const [topIds, followed] = await Promise.all([
+        topPlayedSongIds(prisma, userId, TASTE_LOOKBACK_DAYS, 200),
+        prisma.followedArtist.findMany({ where: { userId }, select: { artistId: true } }),
+    ]);
+    const topSongs = await prisma.song.findMany({ where: { id: { in: topIds } }, select: { artists: { select: { id: true } } } });
+
+    const artistPlays = new Map<string, number>();
+    for (const s of topSongs) for (const a of s.artists) artistPlays.set(a.id, (artistPlays.get(a.id) ?? 0) + 1);
+    const artistIds = new Set([
+        ...followed.map(f => f.artistId),
+        ...[...artistPlays.entries()].sort((a, b) => b[1] - a[1]).slice(0, 20).map(([id]) => id),
+    ]);
+    if (artistIds.size === 0) return { songIds: [] };
+
+    const candidates = await prisma.song.findMany({
+        where: { createdAt: { gte: daysAgo(NEW_RELEASE_DAYS) }, artists: { some: { id: { in: [...artistIds] } } } },
+        orderBy: { createdAt: 'desc' },
+        take: SECTION_SIZE * 2,
+        select: { id: true },
+    });
+    const played = await prisma.playHistory.findMany({
+        where: { userId, songId: { in: candidates.map(c => c.id) } },
+        distinct: ['songId'],
+        select: { songId: true },
+    });
+    const playedIds = new Set(played.map(p => p.songId));
+    return { songIds: candidates.map(c => c.id).filter(id => !playedIds.has(id)).slice(0, SECTION_SIZE) };
+}
+
+const BUILDERS: Record<HomeSectionKey, (prisma: PrismaClient, userId: string) => Promise<SectionData>> = {
+    'recently-played': buildRecentlyPlayed,
+    'jump-back-in': buildJumpBackIn,
+    'daily-mixes': buildDailyMixes,
+    'because-you-listened': buildBecauseYouListened,
+    'new-from-artists': buildNewFromArtists,
+};
+
+function sectionExpiry(key: HomeSectionKey, now: Date): Date {
+    if (key === 'daily-mixes') {
+        // Daily mix berganti tiap tengah malam waktu lokal
+        const [y, m, d] = localDate(now, DEFAULT_TIMEZONE).split('-').map(Number);
+        return zonedMidnight(y, m, d + 1, DEFAULT_TIMEZONE);
+    }
+    return new Date(now.getTime() + SECTION_TTL_MS[key]);
+}
+
+export async function refreshHomeSection(prisma: PrismaClient, userId: string, key: HomeSectionKey): Promise<HomeSection> {
+    const data = await BUILDERS[key](prisma, userId) as unknown as Prisma.InputJsonValue;
+    const now = new Date();
+    const expiresAt = sectionExpiry(key, now);
+
+    return prisma.homeSection.upsert({
+        where: { userId_key: { userId, key } },
+        create: { userId, key, data, generatedAt: now, expiresAt },
+        update: { data, generatedAt: now, expiresAt },
+    });
+}
+
+/**
+ * Perbarui bagian kadaluarsa milik user aktif (dipanggil worker). Return jumlah bagian yang diperbarui.
+ */
+export async function refreshExpiredHomeSections(prisma: PrismaClient, limit = 50): Promise<number> {
+    const expired = await prisma.homeSection.findMany({
+        where: {
+            expiresAt: { lt: new Date() },
+            user: { playHistory: { some: { playedAt: { gte: daysAgo(ACTIVE_USER_DAYS) } } } },
+        },
+        orderBy: { expiresAt: 'asc' },
+        take: limit,
+        select: { userId: true, key: true },
+    });
+
+    for (const section of expired) {
+        await refreshHomeSection(prisma, section.userId, section.key as HomeSectionKey)
+            .catch(err => console.error(`[home ${section.userId}/${section.key}]`, err?.message || err));
+    }
+    return expired.length;
+}
+
+// ── Membaca feed ─────────────────────────────────────────────────────────────
+
+/**
+ * Semua bagian home untuk user: bagian yang belum ada / kadaluarsa dibuat ulang dulu,
+ * lalu id dihidrasi menjadi lagu & playlist. Bagian kosong tidak disertakan.
+ */
+export async function getHomeFeed(prisma: PrismaClient, userId: string) {
+    const existing = await prisma.homeSection.findMany({ where: { userId } });
+    const byKey = new Map(existing.map(s => [s.key, s]));
+
+    const now = new Date();
+    const sections = await Promise.all(HOME_SECTION_KEYS.map(async key => {
+        const cached = byKey.get(key);
+        return cached && cached.expiresAt > now ? cached : refreshHomeSection(prisma, userId, key);
+    }));
+    const data = new Map(sections.map(s => [s.key as HomeSectionKey, { section: s, value: s.data as unknown as SectionData }]));
+
+    const recently = data.get('recently-played')!.value as SongListData;
+    const jump = data.get('jump-back-in')!.value as PlaylistListData;
+    const mixes = data.get('daily-mixes')!.value as DailyMixesData;
+    const because = data.get('because-you-listened')!.value as BecauseData;
+    const fresh = data.get('new-from-artists')!.value as SongListData;
+
+    const songIds = new Set([
+        ...recently.songIds,
+        ...mixes.mixes.flatMap(m => m.songIds),
+        ...because.groups.flatMap(g => [g.seedSongId, ...g.songIds]),
+        ...fresh.songIds,
+    ]);
+    const [songs, playlists] = await Promise.all([
+        prisma.song.findMany({ where: { id: { in: [...songIds] } }, include: SONG_SUMMARY_INCLUDE }),
+        prisma.playlist.findMany({
+            where: {
+                id: { in: jump.playlistIds },
+                OR: [{ userId }, { collaborators: { some: { userId } } }, { visibility: 'PUBLIC' }],
+            },
+            select: {
+                id: true, name: true, description: true, coverUrl: true, visibility: true, smartRules: true,
+                user: { select: { id: true, name: true } },
+                _count: { select: { items: true } },
+            },
+        }),
+    ]);
+
+    const songById = new Map<string, SongSummary>(songs.map(s => [s.id, s]));
+    const hydrate = (ids: string[]) => ids.filter(id => songById.has(id)).map(id => formatSongSummary(songById.get(id)!));
+    const playlistById = new Map(playlists.map(p => [p.id, p]));
+    const generatedAt = (key: HomeSectionKey) => data.get(key)!.section.generatedAt;
+
+    const result: Record<string, unknown>[] = [];
+    const pushSongs = (key: HomeSectionKey, title: string, ids: string[], extra: Record<string, unknown> = {}) => {
+        const items = hydrate(ids);
+        if (items.length > 0) result.push({ key, type: 'songs', title, ...extra, songs: items, generatedAt: generatedAt(key) });
+    };
+
+    pushSongs('recently-played', 'Baru saja diputar', recently.songIds);
+
+    const jumpItems = jump.playlistIds.filter(id => playlistById.has(id)).map(id => {
+        const p = playlistById.get(id)!;
+        return {
+            id: p.id,
+            name: p.name,
+            description: p.description,
+            coverUrl: p.coverUrl,
+            visibility: p.visibility,
+            owner: p.user,
+            isSmart: !!p.smartRules,
+            totalSongs: p.smartRules ? null : p._count.items,
+        };
+    });
+    if (jumpItems.length > 0) {
+        result.push({ key: 'jump-back-in', type: 'playlists', title: 'Lanjutkan', playlists: jumpItems, generatedAt: generatedAt('jump-back-in') });
+    }
+
+    const mixItems = mixes.mixes
+        .map(m => ({ id: m.id, title: m.title, subtitle: m.subtitle, songs: hydrate(m.songIds) }))
+        .filter(m => m.songs.length > 0)
+        .map(m => ({ ...m, coverUrl: m.songs[0].coverUrl }));
+    if (mixItems.length > 0) {
+        result.push({ key: 'daily-mixes', type: 'mixes', title: 'Daily Mix untukmu', mixes: mixItems, generatedAt: generatedAt('daily-mixes') });
+    }
+
+    for (const group of because.groups) {
+        const seed = songById.get(group.seedSongId);
+        if (!seed) continue;
+        pushSongs('because-you-listened', `Karena kamu mendengarkan ${seed.title}`, group.songIds, { seed: formatSongSummary(seed) });
+    }
+
+    pushSongs('new-from-artists', 'Rilisan baru dari artis favoritmu', fresh.songIds);
+
+    return { sections: result };
+}
@@ -0,0 +1,372 @@
+import { Readable } from 'stream';
+import { Prisma, PrismaClient, IngestJob } from '@prisma/client';
+import { getStorage } from './storage';
+import { syncImportsForJob } from './spotifyImports';
+import { cleanMetadataWithAI, enrichArtistMetadata } from './songMetadata';
+import { audioMetadataFields, compareMetadata, inspectStoredAudio, uploadEmbeddedCover } from './audioInspection';
+import { openDownload, DownloadStream, MediaSource, MEDIA_SOURCES, PreviewMetadata } from './providers';
+
+/**
+ * Antrian ingest lagu (YouTube / Spotify → storage → DB). Sumber audio diambil lewat
+ * provider downloader (src/lib/providers).
+ *
+ * Request HTTP hanya membuat baris IngestJob (status QUEUED) lalu langsung return.
+ * Worker (src/worker.ts) mengambil job satu per satu dan menjalankan tahapan:
+ *
+ *   QUEUED → DOWNLOADING → UPLOADING → SAVING → DONE
+ *
+ * Jika gagal, job dijadwalkan ulang (QUEUED + runAfter dengan backoff) sampai
+ * `maxAttempts`, setelah itu FAILED. Job bisa dibatalkan (CANCELLED) sebelum tahap
+ * SAVING; worker berhenti di pergantian tahap berikutnya dan menghapus file yang
+ * sudah terupload.
+ */
+
+export const INGEST_SOURCES = MEDIA_SOURCES;
+export type IngestSource = MediaSource;
+
+export const JOB_STATUSES = ['QUEUED', 'DOWNLOADING', 'UPLOADING', 'SAVING', 'DONE', 'FAILED', 'CANCELLED'] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
+// Status saat worker sedang memegang job
+export const RUNNING_STATUSES: JobStatus[] = ['DOWNLOADING', 'UPLOADING', 'SAVING'];
+// Tahap SAVING tidak bisa dibatalkan: lagu sedang ditulis ke DB
+export const CANCELLABLE_STATUSES: JobStatus[] = ['QUEUED', 'DOWNLOADING', 'UPLOADING'];
+export const RETRYABLE_STATUSES: JobStatus[] = ['FAILED', 'CANCELLED'];
+
+export interface IngestParams {
+    title?: string;
+    artistNames?: string[];
+    artistId?: string | string[];
+    albumId?: string;
+    trackNumber?: number;
+    genre?: string;
+}
+
+// Backoff retry: 30 detik, 1 menit, 2 menit, ...
+const RETRY_BASE_DELAY_MS = 30_000;
+// Job "berjalan" tanpa kabar selama ini dianggap ditinggal worker yang mati
+const STALE_LOCK_MS = 15 * 60_000;
+// lockedAt diperbarui sesering ini selama job dipegang worker
+const LOCK_RENEW_MS = 60_000;
+
+export class JobCancelledError extends Error {
+    constructor() {
+        super('Job dibatalkan.');
+        this.name = 'JobCancelledError';
+    }
+}
+
+/**
+ * Ambil field IngestParams dari body request; field kosong tidak disimpan.
+ */
+export function parseIngestParams(body: Record<string, any>): IngestParams {
+    const params: IngestParams = {};
+    if (body.title) params.title = String(body.title);
+    if (Array.isArray(body.artistNames) && body.artistNames.length > 0) params.artistNames = body.artistNames.map(String);
+    if (body.artistId) params.artistId = Array.isArray(body.artistId) ? body.artistId.map(String) : String(body.artistId);
+    if (body.albumId) params.albumId = String(body.albumId);
+    if (body.genre) params.genre = String(body.genre);
+    return params;
+}
+
+export async function enqueueIngestJob(
+    prisma: PrismaClient,
+    source: IngestSource,
+    sourceUrl: string,
+    params: IngestParams,
+    createdById?: string,
+): Promise<IngestJob> {
+    return prisma.ingestJob.create({
+        data: {
+            source,
+            sourceUrl,
+            params: params as Prisma.InputJsonObject,
+            createdById: createdById ?? null,
+        },
+    });
+}
+
+/**
+ * Ambil satu job QUEUED yang sudah waktunya jalan dan kunci untuk worker ini.
+ * FOR UPDATE SKIP LOCKED → beberapa worker bisa jalan bersamaan tanpa rebutan job.
+ */
+export async function claimNextJob(prisma: PrismaClient, workerId: string): Promise<IngestJob | null> {
+    const rows = await prisma.$queryRaw<{ id: string }[]>`
+        UPDATE "IngestJob"
+        SET "status" = 'DOWNLOADING',
+            "attempts" = "attempts" + 1,
+            "lockedAt" = now(),
+            "lockedBy" = ${workerId},
+            "startedAt" = now(),
+            "error" = NULL,
+            "updatedAt" = now()
+        WHERE "id" = (
+            SELECT "id" FROM "IngestJob"
+            WHERE "status" = 'QUEUED' AND "runAfter" <= now()
+            ORDER BY "runAfter" ASC, "createdAt" ASC
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING "id"`;
+
+    if (rows.length === 0) return null;
+    return prisma.ingestJob.findUnique({ where: { id: rows[0].id } });
+}
+
+/**
+ * Kembalikan job yang ditinggal worker mati (lock kadaluarsa) ke antrian,
+ * atau FAILED jika jatah percobaannya sudah habis.
+ */
+export async function requeueStaleJobs(prisma: PrismaClient): Promise<number> {
+    const staleBefore = new Date(Date.now() - STALE_LOCK_MS);
+    const stale = await prisma.ingestJob.findMany({
+        where: { status: { in: RUNNING_STATUSES }, lockedAt: { lt: staleBefore } },
+    });
+
+    for (const job of stale) {
+        await failAttempt(prisma, job, 'Worker berhenti di tengah proses.');
+    }
+    return stale.length;
+}
+
+/**
+ * Pindah ke tahap berikutnya. Gagal (JobCancelledError) jika job sudah tidak di tahap `from`
+ * atau tidak lagi dipegang worker ini: dibatalkan lewat API saat sedang berjalan, lalu
+ * mungkin di-retry dan di-claim worker lain.
+ */
+async function advance(prisma: PrismaClient, job: IngestJob, from: JobStatus, to: JobStatus, data: Prisma.IngestJobUpdateManyMutationInput = {}) {
+    const { count } = await prisma.ingestJob.updateMany({
+        where: { id: job.id, status: from, lockedBy: job.lockedBy },
+        data: { ...data, status: to, lockedAt: new Date() },
+    });
+    if (count === 0) throw new JobCancelledError();
+}
+
+/**
+ * Perbarui lockedAt berkala selama job dipegang worker ini, supaya tahap yang lama
+ * (download / upload file besar) tidak dianggap macet oleh requeueStaleJobs dan dijalankan dua kali.
+ * Return fungsi untuk menghentikannya.
+ */
+function keepJobLocked(prisma: PrismaClient, job: IngestJob): () => void {
+    const timer = setInterval(() => {
+        prisma.ingestJob
+            .updateMany({
+                where: { id: job.id, status: { in: RUNNING_STATUSES }, lockedBy: job.lockedBy },
+                data: { lockedAt: new Date() },
+            })
+            .catch(err => console.error(`[ingest ${job.id}] Gagal memperpanjang lock:`, err?.message));
+    }, LOCK_RENEW_MS);
+    timer.unref();
+    return () => clearInterval(timer);
+}
+
+async function deleteUploadedAudio(audioKey: string | null): Promise<void> {
+    if (!audioKey) return;
+    await getStorage().delete(audioKey)
+        .catch(err => console.error(`[ingest] Gagal hapus file ${audioKey}:`, err.message));
+}
+
+// Hanya berlaku selama job masih dipegang worker yang sama (lockedBy), supaya worker lama
+// tidak mengantrikan ulang / menggagalkan percobaan worker lain
+async function failAttempt(prisma: PrismaClient, job: IngestJob, message: string): Promise<void> {
+    const retry = job.attempts < job.maxAttempts;
+    await prisma.ingestJob.updateMany({
+        where: { id: job.id, status: { in: RUNNING_STATUSES }, lockedBy: job.lockedBy },
+        data: retry
+            ? {
+                status: 'QUEUED',
+                error: message,
+                lockedAt: null,
+                lockedBy: null,
+                runAfter: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)),
+            }
+            : {
+                status: 'FAILED',
+                error: message,
+                lockedAt: null,
+                lockedBy: null,
+                finishedAt: new Date(),
+            },
+    });
+}
+
+/**
+ * Metadata final lagu: judul/artis dari params (hasil preview admin) diprioritaskan,
+ * judul mentah (YouTube) dibersihkan lewat AI.
+ */
+async function resolveMetadata(metadata: PreviewMetadata, params: IngestParams): Promise<{ title: string; artistNames: string[] }> {
+    let title = params.title || (metadata.needsCleanup ? '' : metadata.title);
+    let artistNames = params.artistNames?.length ? params.artistNames : (metadata.needsCleanup ? [] : metadata.artists);
+
+    if (!title || artistNames.length === 0) {
+        const cleanMetadata = await cleanMetadataWithAI(metadata.rawTitle);
+        title = title || cleanMetadata.title;
+        if (artistNames.length === 0) artistNames = cleanMetadata.artists;
+    }
+
+    return { title, artistNames };
+}
+
+/**
+ * Upload audio ke storage. Jika ukuran file diketahui, file dialirkan langsung (stream)
+ * tanpa ditampung utuh di memori. Return ukuran file yang diupload.
+ */
+async function uploadAudio(download: DownloadStream, objectKey: string): Promise<number | null> {
+    let body: Readable | Buffer = download.body;
+    if (!download.contentLength) {
+        const chunks: Buffer[] = [];
+        for await (const chunk of download.body) chunks.push(Buffer.from(chunk));
+        body = Buffer.concat(chunks);
+    }
+
+    await getStorage().put(objectKey, body, {
+        contentType: download.contentType,
+        contentLength: download.contentLength,
+    });
+    return Buffer.isBuffer(body) ? body.length : download.contentLength;
+}
+
+/**
+ * Jalankan satu job yang sudah di-claim (status DOWNLOADING) sampai selesai.
+ * Tidak pernah melempar error: hasil akhirnya selalu tercatat di baris job.
+ */
+export async function runIngestJob(prisma: PrismaClient, job: IngestJob): Promise<void> {
+    const params = (job.params ?? {}) as IngestParams;
+    let audioKey: string | null = null;
+    let download: DownloadStream | null = null;
+    const releaseLock = keepJobLocked(prisma, job);
+
+    try {
+        // 1. Download
+        download = await openDownload(job.source as MediaSource, job.sourceUrl);
+
+        // 2. Upload ke storage (langsung, supaya stream download tidak menganggur selama cleanup AI)
+        const uniqueId = Date.now().toString(36) + '-' + Math.random().toString(36).substring(2, 7);
+        const safeTitle = (params.title || download.metadata.title).replace(/[^a-zA-Z0-9.-]/g, '_').substring(0, 50);
+        const objectKey = `audio/${uniqueId}-${safeTitle}.mp3`;
+
+        await advance(prisma, job, 'DOWNLOADING', 'UPLOADING', { audioKey: objectKey });
+        audioKey = objectKey;
+        const audioSize = await uploadAudio(download, audioKey);
+        console.log(`[ingest ${job.id}] Upload ke storage:`, audioKey);
+
+        // 3. Simpan ke DB
+        await advance(prisma, job, 'UPLOADING', 'SAVING');
+        const { title, artistNames } = await resolveMetadata(download.metadata, params);
+
+        // Durasi & cover dari file lebih akurat daripada metadata provider
+        const fileMetadata = await inspectStoredAudio(audioKey);
+        const flags = compareMetadata(fileMetadata, { title, artistNames, durationSec: download.metadata.durationSec });
+        if (flags.length > 0) console.log(`[ingest ${job.id}] Metadata file berbeda:`, flags.join(', '));
+
+        let coverUrl = download.metadata.thumbnail;
+        if (!coverUrl && fileMetadata?.picture) coverUrl = await uploadEmbeddedCover(fileMetadata.picture, title);
+
+        const artistIds = params.artistId ? (Array.isArray(params.artistId) ? params.artistId : [params.artistId]) : [];
+        const artists = artistIds.length > 0
+            ? artistIds.map(id => ({
+                where: { id },
+                create: { id, name: 'Unknown Artist' }
+            }))
+            : await Promise.all(artistNames.map(async (name) => {
+                const spotify = await enrichArtistMetadata(name);
+                return {
+                    where: { name },
+                    create: {
+                        name,
+                        avatarUrl: spotify.avatarUrl,
+                        bio: spotify.genres.length > 0 ? `Genres: ${spotify.genres.join(', ')}` : null
+                    }
+                };
+            }));
+
+        const durationSec = fileMetadata?.durationSec ?? download.metadata.durationSec ?? 0;
+
+        // Lagu & status DONE dalam satu transaksi: jika job sudah bukan milik worker ini,
+        // lagu batal dibuat (tidak ada lagu ganda untuk satu job) dan file upload dihapus di catch
+        const song = await prisma.$transaction(async (tx) => {
+            const song = await tx.song.create({
+                data: {
+                    title,
+                    durationSec,
+                    audioKey: objectKey,
+                    audioSize,
+                    coverUrl,
+                    albumId: params.albumId || null,
+                    trackNumber: params.trackNumber ?? fileMetadata?.trackNumber ?? null,
+                    genre: params.genre || null,
+                    ...audioMetadataFields(fileMetadata, flags),
+                    // Baru saja diupload dengan ukuran ini; scan storage berikutnya memeriksa ulang
+                    storageStatus: 'OK',
+                    storageCheckedAt: new Date(),
+                    hlsStatus: 'PENDING',
+                    loudnessStatus: 'PENDING',
+                    waveformStatus: 'PENDING',
+                    artists: { connectOrCreate: artists },
+                },
+            });
+
+            const { count } = await tx.ingestJob.updateMany({
+                where: { id: job.id, status: 'SAVING', lockedBy: job.lockedBy },
+                data: { status: 'DONE', songId: song.id, lockedAt: null, lockedBy: null, finishedAt: new Date() },
+            });
+            if (count === 0) throw new JobCancelledError();
+            return song;
+        });
+
+        // File sudah dipakai lagu, jangan dihapus walaupun langkah berikutnya gagal
+        audioKey = null;
+        console.log(`[ingest ${job.id}] Selesai, song ${song.id}`);
+
+        await placeInImports(prisma, job.id);
+    } catch (err: any) {
+        download?.body.destroy();
+        await deleteUploadedAudio(audioKey);
+
+        if (err instanceof JobCancelledError) {
+            console.log(`[ingest ${job.id}] Dibatalkan.`);
+            return;
+        }
+
+        console.error(`[ingest ${job.id}] Attempt ${job.attempts} gagal:`, err?.message);
+        await failAttempt(prisma, job, err?.message || String(err));
+    } finally {
+        releaseLock();
+    }
+}
+
+/**
+ * Masukkan lagu hasil ingest ke album / playlist bulk import yang menunggunya (src/lib/spotifyImports.ts).
+ * Gagal di sini tidak menggagalkan job karena lagunya sudah tersimpan, tapi dicatat di `error` job
+ * supaya terlihat admin; POST /songs/spotify-import/:id/sync bisa dipakai untuk mengulang.
+ */
+async function placeInImports(prisma: PrismaClient, jobId: string): Promise<void> {
+    try {
+        await syncImportsForJob(prisma, jobId);
+    } catch (err: any) {
+        const message = err?.message || String(err);
+        console.error(`[ingest ${jobId}] Gagal memasukkan lagu ke album/playlist import:`, message);
+        await prisma.ingestJob.update({
+            where: { id: jobId },
+            data: { error: `Lagu tersimpan, tapi gagal dimasukkan ke album/playlist import: ${message}`.slice(0, 2000) },
+        });
+    }
+}
+
+export function formatJob(job: IngestJob & { song?: { id: string; title: string } | null }) {
+    return {
+        id: job.id,
+        source: job.source,
+        sourceUrl: job.sourceUrl,
+        params: job.params,
+        status: job.status,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        error: job.error,
+        song: job.song ?? (job.songId ? { id: job.songId } : null),
+        runAfter: job.runAfter,
+        createdAt: job.createdAt,
+        startedAt: job.startedAt,
+        finishedAt: job.finishedAt,
+    };
+}
@@ -0,0 +1,16 @@
+import { PrismaClient } from '@prisma/client';
+
+/**
+ * Dari daftar songId, kembalikan yang sudah di-like oleh user.
+ * Dipakai untuk flag `isLiked` di response lagu.
+ */
+export async function getLikedSongIds(prisma: PrismaClient, userId: string, songIds: string[]): Promise<Set<string>> {
+    if (songIds.length === 0) return new Set();
+
+    const liked = await prisma.likedSong.findMany({
+        where: { userId, songId: { in: songIds } },
+        select: { songId: true },
+    });
+
+    return new Set(liked.map(l => l.songId));
+}
@@ -0,0 +1,304 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { formatSongSummary, SONG_SUMMARY_INCLUDE } from './songFormat';
+
+/**
+ * Statistik mendengarkan per user dari PlayHistory (play yang qualified, lihat src/lib/playSessions.ts).
+ *
+ * Menit mendengarkan memakai PlaySession.listenedSec; riwayat lama tanpa sesi dihitung satu durasi lagu penuh.
+ * Jam, hari, tanggal (streak) dihitung di zona waktu user (?tz=, default STATS_TIMEZONE / Asia/Jakarta).
+ */
+
+export const DEFAULT_TIMEZONE = process.env.STATS_TIMEZONE || 'Asia/Jakarta';
+export const STATS_RANGES = ['7d', '30d', '90d', '365d', 'all'] as const;
+export type StatsRange = typeof STATS_RANGES[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StatsPeriod {
+    from: Date;
+    to: Date;           // eksklusif
+    timeZone: string;
+}
+
+export class StatsQueryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StatsQueryError';
+    }
+}
+
+export function isValidTimeZone(tz: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: tz });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Tanggal lokal "YYYY-MM-DD" dari sebuah waktu di zona tertentu
+export function localDate(date: Date, timeZone: string): string {
+    return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+}
+
+// Selisih jam dinding zona `timeZone` terhadap UTC pada waktu `date`, dalam ms
+function zoneOffsetMs(date: Date, timeZone: string): number {
+    const parts = Object.fromEntries(
+        new Intl.DateTimeFormat('en-US', {
+            timeZone, hourCycle: 'h23',
+            year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+        }).formatToParts(date).map(p => [p.type, p.value]),
+    );
+    const wall = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+    return wall - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Waktu UTC untuk jam 00:00 tanggal lokal (year, month 1-12, day) di zona `timeZone`.
+ */
+export function zonedMidnight(year: number, month: number, day: number, timeZone: string): Date {
+    const guess = Date.UTC(year, month - 1, day);
+    const first = guess - zoneOffsetMs(new Date(guess), timeZone);
+    // Ulangi sekali untuk kasus pergantian DST di antara tebakan dan hasil
+    return new Date(guess - zoneOffsetMs(new Date(first), timeZone));
+}
+
+function parseLocalDate(value: string, timeZone: string): Date | null {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) return null;
+    const date = zonedMidnight(+match[1], +match[2], +match[3], timeZone);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Baca periode dari query: ?range=7d|30d|90d|365d|all (default 30d)
+ * atau ?from=YYYY-MM-DD&to=YYYY-MM-DD (tanggal lokal, `to` ikut dihitung), plus ?tz=.
+ */
+export function parseStatsPeriod(query: Record<string, any>, now = new Date()): StatsPeriod {
+    const timeZone = typeof query.tz === 'string' && query.tz ? query.tz : DEFAULT_TIMEZONE;
+    if (!isValidTimeZone(timeZone)) throw new StatsQueryError('tz bukan zona waktu IANA yang valid.');
+
+    if (query.from !== undefined || query.to !== undefined) {
+        const from = typeof query.from === 'string' ? parseLocalDate(query.from, timeZone) : null;
+        const toDay = typeof query.to === 'string' ? parseLocalDate(query.to, timeZone) : null;
+        if (!from || !toDay) throw new StatsQueryError('from dan to wajib berformat YYYY-MM-DD.');
+
+        const to = new Date(toDay.getTime() + DAY_MS);
+        if (from >= to) throw new StatsQueryError('from harus sebelum to.');
+        return { from, to, timeZone };
+    }
+
+    const range = (query.range ?? '30d') as StatsRange;
+    if (!STATS_RANGES.includes(range)) throw new StatsQueryError(`range harus salah satu dari: ${STATS_RANGES.join(', ')}.`);
+
+    const to = new Date(now.getTime() + 1);
+    if (range === 'all') return { from: new Date(0), to, timeZone };
+    return { from: new Date(now.getTime() - parseInt(range, 10) * DAY_MS), to, timeZone };
+}
+
+/**
+ * Streak terpanjang dari daftar tanggal lokal unik yang sudah urut (YYYY-MM-DD),
+ * dan streak yang masih berjalan (terakhir mendengarkan hari ini atau kemarin).
+ */
+export function computeStreaks(days: string[], today: string) {
+    const dayNumber = (d: string) => Math.round(Date.parse(`${d}T00:00:00Z`) / DAY_MS);
+
+    let longest = { days: 0, start: null as string | null, end: null as string | null };
+    let runStart = 0;
+    for (let i = 0; i < days.length; i++) {
+        if (i > 0 && dayNumber(days[i]) - dayNumber(days[i - 1]) !== 1) runStart = i;
+        const length = i - runStart + 1;
+        if (length > longest.days) longest = { days: length, start: days[runStart], end: days[i] };
+    }
+
+    let current = 0;
+    const last = days.length > 0 ? dayNumber(days[days.length - 1]) : null;
+    if (last !== null && dayNumber(today) - last <= 1) {
+        current = 1;
+        for (let i = days.length - 1; i > 0 && dayNumber(days[i]) - dayNumber(days[i - 1]) === 1; i--) current++;
+    }
+
+    return { longest, current };
+}
+
+const toMinutes = (sec: number) => Math.round(sec / 60);
+
+/**
+ * Semua statistik untuk satu user dan periode. `limit` membatasi setiap daftar top.
+ */
+export async function computeListeningStats(prisma: PrismaClient, userId: string, period: StatsPeriod, limit = 10) {
+    const { from, to, timeZone } = period;
+
+    // Play dalam periode + detik didengar + waktu lokal
+    const plays = Prisma.sql`
+        SELECT h."songId",
+               h."playedAt",
+               COALESCE(ps."listenedSec", s."durationSec")::float8 AS sec,
+               (h."playedAt" AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone} AS local_at
+        FROM "PlayHistory" h
+        JOIN "Song" s ON s."id" = h."songId"
+        LEFT JOIN "PlaySession" ps ON ps."id" = h."sessionId"
+        WHERE h."userId" = ${userId} AND h."playedAt" >= ${from} AND h."playedAt" < ${to}`;
+
+    const [totalsRows, songRows, artistRows, genreRows, moodRows, hourRows, weekdayRows, dayRows, newArtistRows] = await Promise.all([
+        prisma.$queryRaw<{ plays: number; sec: number; songs: number; artists: number }[]>`
+            WITH p AS (${plays})
+            SELECT COUNT(*)::int AS plays,
+                   COALESCE(SUM(p.sec), 0)::float8 AS sec,
+                   COUNT(DISTINCT p."songId")::int AS songs,
+                   (SELECT COUNT(DISTINCT ats."A")::int FROM p JOIN "_ArtistToSong" ats ON ats."B" = p."songId") AS artists
+            FROM p`,
+        prisma.$queryRaw<{ songId: string; plays: number; sec: number }[]>`
+            WITH p AS (${plays})
+            SELECT p."songId", COUNT(*)::int AS plays, SUM(p.sec)::float8 AS sec
+            FROM p GROUP BY p."songId"
+            ORDER BY plays DESC, sec DESC, p."songId" LIMIT ${limit}`,
+        prisma.$queryRaw<{ id: string; name: string; avatarUrl: string | null; plays: number; sec: number }[]>`
+            WITH p AS (${plays})
+            SELECT a."id", a."name", a."avatarUrl", COUNT(*)::int AS plays, SUM(p.sec)::float8 AS sec
+            FROM p
+            JOIN "_ArtistToSong" ats ON ats."B" = p."songId"
+            JOIN "Artist" a ON a."id" = ats."A"
+            GROUP BY a."id"
+            ORDER BY plays DESC, sec DESC, a."id" LIMIT ${limit}`,
+        prisma.$queryRaw<{ genre: string; plays: number }[]>`
+            WITH p AS (${plays})
+            SELECT s."genre", COUNT(*)::int AS plays
+            FROM p JOIN "Song" s ON s."id" = p."songId"
+            WHERE s."genre" IS NOT NULL AND s."genre" <> ''
+            GROUP BY s."genre"
+            ORDER BY plays DESC, s."genre" LIMIT ${limit}`,
+        prisma.$queryRaw<{ mood: string; plays: number }[]>`
+            WITH p AS (${plays})
+            SELECT m.mood, COUNT(*)::int AS plays
+            FROM p JOIN "Song" s ON s."id" = p."songId", unnest(s."moods") AS m(mood)
+            GROUP BY m.mood
+            ORDER BY plays DESC, m.mood LIMIT ${limit}`,
+        prisma.$queryRaw<{ hour: number; plays: number }[]>`
+            WITH p AS (${plays})
+            SELECT EXTRACT(HOUR FROM p.local_at)::int AS hour, COUNT(*)::int AS plays
+            FROM p GROUP BY 1`,
+        prisma.$queryRaw<{ weekday: number; plays: number }[]>`
+            WITH p AS (${plays})
+            SELECT EXTRACT(ISODOW FROM p.local_at)::int AS weekday, COUNT(*)::int AS plays
+            FROM p GROUP BY 1`,
+        prisma.$queryRaw<{ day: string }[]>`
+            WITH p AS (${plays})
+            SELECT DISTINCT to_char(p.local_at, 'YYYY-MM-DD') AS day
+            FROM p ORDER BY day`,
+        // Artis yang pertama kali diputar user (sepanjang riwayat) di dalam periode
+        prisma.$queryRaw<{ id: string; name: string; avatarUrl: string | null; firstPlayedAt: Date; plays: number; total: number }[]>`
+            SELECT a."id", a."name", a."avatarUrl", f."firstPlayedAt", f.plays, COUNT(*) OVER ()::int AS total
+            FROM (
+                SELECT ats."A" AS "artistId",
+                       MIN(h."playedAt") AS "firstPlayedAt",
+                       COUNT(*) FILTER (WHERE h."playedAt" >= ${from})::int AS plays
+                FROM "PlayHistory" h
+                JOIN "_ArtistToSong" ats ON ats."B" = h."songId"
+                WHERE h."userId" = ${userId} AND h."playedAt" < ${to}
+                GROUP BY ats."A"
+                HAVING MIN(h."playedAt") >= ${from}
+            ) f
+            JOIN "Artist" a ON a."id" = f."artistId"
+            ORDER BY f.plays DESC, f."firstPlayedAt" ASC
+            LIMIT ${limit}`,
+    ]);
+
+    const songs = await prisma.song.findMany({
+        where: { id: { in: songRows.map(r => r.songId) } },
+        include: SONG_SUMMARY_INCLUDE,
+    });
+    const songById = new Map(songs.map(s => [s.id, s]));
+
+    const byHour = Array.from({ length: 24 }, () => 0);
+    for (const row of hourRows) byHour[row.hour] = row.plays;
+    // Senin dulu (ISO), index 0 = Senin ... 6 = Minggu
+    const byWeekday = Array.from({ length: 7 }, () => 0);
+    for (const row of weekdayRows) byWeekday[row.weekday - 1] = row.plays;
+
+    const days = dayRows.map(r => r.day);
+    const totals = totalsRows[0];
+
+    return {
+        period: { from, to, timeZone },
+        totals: {
+            plays: totals.plays,
+            minutesListened: toMinutes(totals.sec),
+            uniqueSongs: totals.songs,
+            uniqueArtists: totals.artists,
+            daysActive: days.length,
+        },
+        topSongs: songRows
+            .filter(r => songById.has(r.songId))
+            .map(r => ({ song: formatSongSummary(songById.get(r.songId)!), plays: r.plays, minutes: toMinutes(r.sec) })),
+        topArtists: artistRows.map(r => ({
+            artist: { id: r.id, name: r.name, avatarUrl: r.avatarUrl },
+            plays: r.plays,
+            minutes: toMinutes(r.sec),
+        })),
+        topGenres: genreRows,
+        topMoods: moodRows,
+        byHour,
+        byWeekday,
+        streaks: computeStreaks(days, localDate(new Date(), timeZone)),
+        newArtists: {
+            count: newArtistRows[0]?.total ?? 0,
+            items: newArtistRows.map(r => ({
+                artist: { id: r.id, name: r.name, avatarUrl: r.avatarUrl },
+                firstPlayedAt: r.firstPlayedAt,
+                plays: r.plays,
+            })),
+        },
+    };
+}
+
+export type ListeningStats = Awaited<ReturnType<typeof computeListeningStats>>;
+
+function peakIndex(values: number[]): number | null {
+    const max = Math.max(...values);
+    return max > 0 ? values.indexOf(max) : null;
+}
+
+/**
+ * Ringkasan akhir tahun ("Wrapped"): statistik satu tahun kalender lokal,
+ * disusun sebagai kartu yang bisa dirender & dibagikan PWA. Kartu tanpa data tidak disertakan.
+ */
+export async function buildWrapped(
+    prisma: PrismaClient,
+    user: { id: string; name: string; avatarUrl: string | null },
+    year: number,
+    timeZone: string,
+) {
+    const period = { from: zonedMidnight(year, 1, 1, timeZone), to: zonedMidnight(year + 1, 1, 1, timeZone), timeZone };
+    const stats = await computeListeningStats(prisma, user.id, period, 5);
+
+    const cards: Record<string, unknown>[] = [];
+    if (stats.totals.plays > 0) {
+        cards.push({ type: 'minutes', minutes: stats.totals.minutesListened, plays: stats.totals.plays, daysActive: stats.totals.daysActive });
+    }
+    if (stats.topSongs.length > 0) {
+        cards.push({ type: 'top-song', ...stats.topSongs[0] });
+        cards.push({ type: 'top-songs', items: stats.topSongs });
+    }
+    if (stats.topArtists.length > 0) cards.push({ type: 'top-artists', items: stats.topArtists });
+    if (stats.topGenres.length > 0) cards.push({ type: 'top-genres', items: stats.topGenres });
+    if (stats.topMoods.length > 0) cards.push({ type: 'moods', items: stats.topMoods.slice(0, 3) });
+
+    const peakHour = peakIndex(stats.byHour);
+    if (peakHour !== null) {
+        cards.push({ type: 'listening-clock', peakHour, peakWeekday: peakIndex(stats.byWeekday)! + 1, byHour: stats.byHour, byWeekday: stats.byWeekday });
+    }
+    if (stats.streaks.longest.days > 1) cards.push({ type: 'streak', ...stats.streaks.longest });
+    if (stats.newArtists.count > 0) cards.push({ type: 'discoveries', count: stats.newArtists.count, items: stats.newArtists.items });
+
+    return {
+        year,
+        timeZone,
+        // Tahun yang belum selesai masih bisa berubah
+        final: Date.now() >= period.to.getTime(),
+        generatedAt: new Date(),
+        user: { name: user.name, avatarUrl: user.avatarUrl },
+        summary: stats.totals,
+        cards,
+    };
+}
@@ -0,0 +1,164 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PrismaClient, Song } from '@prisma/client';
+import { downloadToFile, runFfmpeg } from './ffmpeg';
+import { holdQueueLock } from './songQueues';
+
+/**
+ * Analisis loudness lagu (EBU R128) dengan filter loudnorm ffmpeg, dijalankan worker.
+ * Hasilnya dipakai player untuk normalisasi volume antar lagu (gaya ReplayGain 2.0).
+ *
+ * Song.loudnessStatus:
+ *   null → belum dijadwalkan (lagu lama; lihat POST /songs/loudness/backfill)
+ *   PENDING → RUNNING → DONE
+ *                     ↘ PENDING lagi (retry) / FAILED setelah MAX_ATTEMPTS
+ */
+
+export const LOUDNESS_STATUSES = ['PENDING', 'RUNNING', 'DONE', 'FAILED'] as const;
+export type LoudnessStatus = typeof LOUDNESS_STATUSES[number];
+
+// Target ReplayGain 2.0: trackGainDb = REFERENCE_LUFS - integrated loudness
+export const REFERENCE_LUFS = -18;
+
+const MAX_ATTEMPTS = 3;
+// Analisis RUNNING selama ini dianggap ditinggal worker yang mati
+const STALE_LOCK_MS = 15 * 60_000;
+const FFMPEG_TIMEOUT_MS = 10 * 60_000;
+
+export interface LoudnessResult {
+    integratedLufs: number;
+    truePeakDb: number;
+    rangeLu: number;
+}
+
+export class SilentAudioError extends Error {
+    constructor() {
+        super('Audio senyap, loudness tidak bisa diukur.');
+        this.name = 'SilentAudioError';
+    }
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Ambil blok JSON hasil loudnorm (print_format=json) dari stderr ffmpeg.
+ */
+export function parseLoudnormOutput(stderr: string): LoudnessResult {
+    const start = stderr.lastIndexOf('{');
+    const end = stderr.lastIndexOf('}');
+    if (start < 0 || end < start) throw new Error('Output loudnorm tidak ditemukan.');
+
+    const json = JSON.parse(stderr.slice(start, end + 1));
+    const integratedLufs = parseFloat(json.input_i);
+    const truePeakDb = parseFloat(json.input_tp);
+    const rangeLu = parseFloat(json.input_lra);
+
+    // Audio senyap → "-inf"
+    if (!Number.isFinite(integratedLufs) || !Number.isFinite(truePeakDb)) throw new SilentAudioError();
+    return {
+        integratedLufs: round2(integratedLufs),
+        truePeakDb: round2(truePeakDb),
+        rangeLu: Number.isFinite(rangeLu) ? round2(rangeLu) : 0,
+    };
+}
+
+export async function analyzeLoudness(file: string): Promise<LoudnessResult> {
+    const stderr = await runFfmpeg([
+        '-loglevel', 'info',
+        '-i', file,
+        '-map', '0:a:0',
+        '-af', 'loudnorm=print_format=json',
+        '-f', 'null', '-',
+    ], { timeoutMs: FFMPEG_TIMEOUT_MS });
+    return parseLoudnormOutput(stderr);
+}
+
+/**
+ * Nilai loudness untuk response API, null jika lagu belum dianalisis.
+ * trackPeak dalam skala linear (1.0 = 0 dBTP) seperti tag REPLAYGAIN_TRACK_PEAK.
+ */
+export function formatLoudness(song: Pick<Song, 'loudnessLufs' | 'truePeakDb' | 'loudnessRangeLu' | 'trackGainDb'>) {
+    if (song.loudnessLufs === null || song.trackGainDb === null || song.truePeakDb === null) return null;
+    return {
+        integratedLufs: song.loudnessLufs,
+        truePeakDb: song.truePeakDb,
+        rangeLu: song.loudnessRangeLu,
+        trackGainDb: song.trackGainDb,
+        trackPeak: Math.round(Math.pow(10, song.truePeakDb / 20) * 1e6) / 1e6,
+        referenceLufs: REFERENCE_LUFS,
+    };
+}
+
+export async function claimNextLoudnessAnalysis(prisma: PrismaClient): Promise<Song | null> {
+    // Kembalikan analisis yang macet ke antrian
+    await prisma.song.updateMany({
+        where: { loudnessStatus: 'RUNNING', loudnessLockedAt: { lt: new Date(Date.now() - STALE_LOCK_MS) } },
+        data: { loudnessStatus: 'PENDING', loudnessLockedAt: null },
+    });
+
+    const rows = await prisma.$queryRaw<{ id: string }[]>`
+        UPDATE "Song"
+        SET "loudnessStatus" = 'RUNNING',
+            "loudnessAttempts" = "loudnessAttempts" + 1,
+            "loudnessLockedAt" = now()
+        WHERE "id" = (
+            SELECT "id" FROM "Song"
+            WHERE "loudnessStatus" = 'PENDING'
+            ORDER BY "createdAt" DESC
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING "id"`;
+
+    if (rows.length === 0) return null;
+    return prisma.song.findUnique({ where: { id: rows[0].id } });
+}
+
+/**
+ * Jalankan satu analisis yang sudah di-claim. Tidak pernah melempar error:
+ * hasilnya selalu tercatat di kolom loudness* lagu, selama lock masih dipegang worker ini.
+ */
+export async function runLoudnessAnalysis(prisma: PrismaClient, song: Song): Promise<void> {
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'loudness-'));
+    const lock = holdQueueLock(prisma, 'loudness', song);
+
+    try {
+        const input = path.join(workDir, 'source');
+        await downloadToFile(song.audioKey, input);
+        const result = await analyzeLoudness(input);
+
+        await lock.release();
+        const { count } = await prisma.song.updateMany({
+            where: lock.where(),
+            data: {
+                loudnessStatus: 'DONE',
+                loudnessLufs: result.integratedLufs,
+                truePeakDb: result.truePeakDb,
+                loudnessRangeLu: result.rangeLu,
+                trackGainDb: round2(REFERENCE_LUFS - result.integratedLufs),
+                loudnessError: null,
+                loudnessLockedAt: null,
+            },
+        });
+        if (count === 0) console.warn(`[loudness ${song.id}] Lock sudah diambil worker lain, hasil tidak dicatat.`);
+        else console.log(`[loudness ${song.id}] ${result.integratedLufs} LUFS, peak ${result.truePeakDb} dBTP`);
+    } catch (err: any) {
+        const message = err?.message || String(err);
+        console.error(`[loudness ${song.id}] Attempt ${song.loudnessAttempts} gagal:`, message);
+
+        // Audio senyap tidak akan berubah hasilnya kalau diulang
+        const retry = !(err instanceof SilentAudioError) && song.loudnessAttempts < MAX_ATTEMPTS;
+        await lock.release();
+        await prisma.song.updateMany({
+            where: lock.where(),
+            data: {
+                loudnessStatus: retry ? 'PENDING' : 'FAILED',
+                loudnessError: message.slice(0, 2000),
+                loudnessLockedAt: null,
+            },
+        });
+    } finally {
+        await fs.promises.rm(workDir, { recursive: true, force: true });
+    }
+}
@@ -0,0 +1,135 @@
+/**
+ * Cursor pagination (keyset) untuk semua endpoint list.
+ *
+ * Cursor adalah string opaque (base64url dari nilai kolom urutan baris terakhir),
+ * jadi halaman berikutnya tetap stabil walaupun ada baris baru yang masuk
+ * di depan, berbeda dengan offset.
+ *
+ * Pemakaian:
+ *   const keys: SortKey[] = [{ field: 'createdAt', dir: 'desc' }, { field: 'id', dir: 'desc' }];
+ *   const { take, cursor } = parsePageQuery(req.query);
+ *   const rows = await prisma.x.findMany({ where: { ...filter, ...cursorWhere(keys, cursor) }, orderBy: sortOrderBy(keys), take: take + 1 });
+ *   const page = toPage(rows, keys, take);   // { items, nextCursor }
+ *
+ * Kunci terakhir harus unik (biasanya `id`) supaya urutan total.
+ */
+
+export interface SortKey {
+    field: string;
+    dir: 'asc' | 'desc';
+    nullsLast?: boolean;   // hanya untuk kolom nullable
+}
+
+export interface PageQuery {
+    take: number;
+    cursor?: string;
+    skip: number;
+}
+
+/**
+ * Baca ?limit=&cursor= (dan ?offset= untuk kompatibilitas lama) dari query.
+ */
+export function parsePageQuery(query: Record<string, any>, defaultLimit = 20, maxLimit = 100): PageQuery {
+    const take = Math.min(Math.max(parseInt(query.limit || String(defaultLimit), 10) || defaultLimit, 1), maxLimit);
+    const cursor = typeof query.cursor === 'string' && query.cursor ? query.cursor : undefined;
+    const skip = cursor ? 0 : Math.max(parseInt(query.offset || '0', 10) || 0, 0);
+    return { take, cursor, skip };
+}
+
+// Date di-tag supaya bisa dikembalikan menjadi Date saat decode
+export function encodeCursor(values: unknown[]): string {
+    const tagged = values.map(v => (v instanceof Date ? { $d: v.toISOString() } : v));
+    return Buffer.from(JSON.stringify(tagged)).toString('base64url');
+}
+
+export type CursorValue = string | number | Date | null;
+
+// Nilai cursor masuk langsung ke Prisma `where`, jadi hanya nilai skalar yang diterima:
+// object lain (mis. {"not": ...}) akan dibaca Prisma sebagai operator filter
+function decodeCursorValue(v: unknown): CursorValue | undefined {
+    if (v === null || typeof v === 'string') return v;
+    if (typeof v === 'number') return Number.isFinite(v) ? v : undefined;
+    if (v && typeof v === 'object' && !Array.isArray(v)) {
+        const keys = Object.keys(v);
+        const iso = (v as { $d?: unknown }).$d;
+        if (keys.length !== 1 || typeof iso !== 'string') return undefined;
+        const date = new Date(iso);
+        return Number.isNaN(date.getTime()) ? undefined : date;
+    }
+    return undefined;
+}
+
+/**
+ * Return null jika cursor rusak / dimanipulasi (termasuk nilai yang bukan string, angka,
+ * tanggal valid, atau null).
+ */
+export function decodeCursor(cursor: string): CursorValue[] | null {
+    try {
+        const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        if (!Array.isArray(parsed)) return null;
+
+        const values = parsed.map(decodeCursorValue);
+        return values.every((v): v is CursorValue => v !== undefined) ? values : null;
+    } catch {
+        return null;
+    }
+}
+
+export function sortOrderBy(keys: SortKey[]): Record<string, any>[] {
+    return keys.map(k => ({ [k.field]: k.nullsLast ? { sort: k.dir, nulls: 'last' } : k.dir }));
+}
+
+// Kondisi "baris ini berada setelah nilai v" untuk satu kunci, null = tidak mungkin
+function afterCondition(key: SortKey, v: unknown): Record<string, any> | null {
+    const op = key.dir === 'asc' ? 'gt' : 'lt';
+    if (v === null) return null; // nulls last: tidak ada nilai non-null setelah null
+    const cmp = { [key.field]: { [op]: v } };
+    return key.nullsLast ? { OR: [cmp, { [key.field]: null }] } : cmp;
+}
+
+function keysetCondition(keys: SortKey[], values: unknown[], i: number): Record<string, any> | null {
+    const key = keys[i];
+    const after = afterCondition(key, values[i]);
+    if (i === keys.length - 1) return after;
+
+    const rest = keysetCondition(keys, values, i + 1);
+    const tie = rest ? { AND: [{ [key.field]: values[i] }, rest] } : null;
+    const branches = [after, tie].filter(Boolean) as Record<string, any>[];
+    if (branches.length === 0) return null;
+    return branches.length === 1 ? branches[0] : { OR: branches };
+}
+
+/**
+ * Prisma `where` tambahan untuk mengambil baris setelah cursor.
+ * Cursor kosong → {}. Cursor rusak → lempar InvalidCursorError.
+ */
+export function cursorWhere(keys: SortKey[], cursor?: string): Record<string, any> {
+    if (!cursor) return {};
+
+    const values = decodeCursor(cursor);
+    if (!values || values.length !== keys.length) throw new InvalidCursorError();
+
+    // Tidak ada baris setelah cursor → kondisi yang selalu salah
+    return keysetCondition(keys, values, 0) ?? { id: { in: [] } };
+}
+
+/**
+ * Potong hasil `take + 1` baris menjadi satu halaman + nextCursor.
+ */
+export function toPage<T>(rows: T[], keys: SortKey[], take: number): { items: T[]; nextCursor: string | null } {
+    const hasMore = rows.length > take;
+    const items = hasMore ? rows.slice(0, take) : rows;
+    const last = items[items.length - 1] as Record<string, any> | undefined;
+
+    return {
+        items,
+        nextCursor: hasMore && last ? encodeCursor(keys.map(k => last[k.field])) : null,
+    };
+}
+
+export class InvalidCursorError extends Error {
+    constructor() {
+        super('Cursor tidak valid.');
+        this.name = 'InvalidCursorError';
+    }
+}
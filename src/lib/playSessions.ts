@@ -0,0 +1,174 @@
+import { PlaySession, Prisma, PrismaClient } from '@prisma/client';
+
+/**
+ * Sesi putar: POST /plays (mulai) → heartbeat berkala dengan posisi → end dengan alasan.
+ *
+ * Waktu dengar (listenedSec) dihitung server dari selisih posisi antar heartbeat,
+ * dibatasi waktu nyata yang berlalu, sehingga seek maju / heartbeat palsu tidak menambah waktu dengar.
+ * Total waktu dengar juga tidak pernah melebihi umur sesi (+ satu kali toleransi), jadi heartbeat
+ * beruntun tidak bisa menumpuk toleransi jaringan.
+ * Sesi menjadi "qualified" setelah listenedSec >= qualifyThresholdSec(durasi); saat itu juga
+ * PlayHistory dicatat dan Song.playCount bertambah (sekali per sesi).
+ * Sesi yang berhenti mengirim heartbeat ditutup worker dengan alasan ABANDONED.
+ */
+
+export const PLAY_END_REASONS = ['COMPLETED', 'SKIPPED', 'ERROR'] as const;
+export type PlayEndReason = typeof PLAY_END_REASONS[number] | 'ABANDONED';
+
+// Alasan yang boleh dikirim client (ABANDONED hanya dari worker)
+export function isPlayEndReason(value: unknown): value is typeof PLAY_END_REASONS[number] {
+    return typeof value === 'string' && (PLAY_END_REASONS as readonly string[]).includes(value);
+}
+
+export const HEARTBEAT_INTERVAL_SEC = 15;
+const QUALIFY_MAX_SEC = 30;
+// Toleransi jeda jaringan saat membandingkan posisi dengan waktu nyata
+const CLOCK_SLACK_SEC = 5;
+// Sesi tanpa heartbeat selama ini dianggap ditinggal
+const ABANDON_AFTER_MS = 30 * 60_000;
+
+export class PlaySessionError extends Error {
+    status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.name = 'PlaySessionError';
+        this.status = status;
+    }
+}
+
+/**
+ * Batas play dihitung: 30 detik atau setengah durasi lagu, mana yang lebih pendek.
+ */
+export function qualifyThresholdSec(durationSec: number): number {
+    if (!durationSec || durationSec <= 0) return QUALIFY_MAX_SEC;
+    return Math.min(QUALIFY_MAX_SEC, durationSec / 2);
+}
+
+/**
+ * Waktu dengar yang dikreditkan antara dua laporan posisi.
+ * Maju: selisih posisi. Mundur (seek ke belakang): posisi baru, karena titik mulai setelah seek tidak diketahui.
+ * Keduanya tidak boleh melebihi waktu nyata yang berlalu.
+ */
+export function creditedSeconds(previousPos: number, currentPos: number, elapsedSec: number): number {
+    const maxCredit = Math.max(elapsedSec, 0) + CLOCK_SLACK_SEC;
+    const moved = currentPos >= previousPos ? currentPos - previousPos : currentPos;
+    return Math.max(0, Math.min(moved, maxCredit));
+}
+
+/**
+ * Total waktu dengar setelah satu heartbeat: listenedSec lama + creditedSeconds,
+ * dibatasi waktu sejak sesi dimulai + CLOCK_SLACK_SEC (toleransi hanya dihitung sekali per sesi).
+ */
+export function nextListenedSec(
+    session: Pick<PlaySession, 'listenedSec' | 'positionSec' | 'startedAt' | 'lastHeartbeatAt'>,
+    positionSec: number,
+    now: Date,
+): number {
+    const elapsed = (now.getTime() - session.lastHeartbeatAt.getTime()) / 1000;
+    const sinceStart = (now.getTime() - session.startedAt.getTime()) / 1000;
+    const listened = session.listenedSec + creditedSeconds(session.positionSec, positionSec, elapsed);
+    return Math.max(session.listenedSec, Math.min(listened, Math.max(sinceStart, 0) + CLOCK_SLACK_SEC));
+}
+
+export async function startPlaySession(
+    prisma: PrismaClient,
+    userId: string,
+    songId: string,
+    source: string | null,
+): Promise<{ session: PlaySession; qualifyAfterSec: number }> {
+    const song = await prisma.song.findUnique({ where: { id: songId }, select: { durationSec: true } });
+    if (!song) throw new PlaySessionError(404, 'Lagu tidak ditemukan.');
+
+    const session = await prisma.playSession.create({
+        data: { userId, songId, source: source?.slice(0, 100) || null },
+    });
+    return { session, qualifyAfterSec: qualifyThresholdSec(song.durationSec) };
+}
+
+/**
+ * Catat posisi terbaru sebuah sesi (heartbeat), dan tutup sesi jika `endReason` diisi.
+ * Baris sesi dikunci supaya heartbeat yang bersamaan tidak dikreditkan dua kali.
+ */
+export async function recordPlayProgress(
+    prisma: PrismaClient,
+    userId: string,
+    sessionId: string,
+    positionSec: number,
+    endReason?: PlayEndReason,
+): Promise<PlaySession> {
+    return prisma.$transaction(async tx => {
+        await tx.$queryRaw`SELECT "id" FROM "PlaySession" WHERE "id" = ${sessionId} FOR UPDATE`;
+        const session = await tx.playSession.findUnique({
+            where: { id: sessionId },
+            include: { song: { select: { durationSec: true } } },
+        });
+
+        if (!session || session.userId !== userId) throw new PlaySessionError(404, 'Sesi putar tidak ditemukan.');
+        if (session.endedAt) throw new PlaySessionError(409, 'Sesi putar sudah berakhir.');
+
+        const now = new Date();
+        const position = session.song.durationSec > 0 ? Math.min(positionSec, session.song.durationSec) : positionSec;
+        const listenedSec = nextListenedSec(session, position, now);
+        const qualifies = !session.qualifiedAt && listenedSec >= qualifyThresholdSec(session.song.durationSec);
+
+        const data: Prisma.PlaySessionUpdateInput = {
+            positionSec: position,
+            listenedSec,
+            lastHeartbeatAt: now,
+            ...(qualifies && { qualifiedAt: now }),
+            ...(endReason && { endedAt: now, endReason }),
+        };
+
+        if (qualifies) {
+            await tx.song.update({ where: { id: session.songId }, data: { playCount: { increment: 1 } } });
+            await tx.playHistory.create({
+                data: { userId, songId: session.songId, sessionId: session.id, playedAt: session.startedAt },
+            });
+        }
+
+        return tx.playSession.update({ where: { id: session.id }, data });
+    });
+}
+
+/**
+ * Tutup sesi yang berhenti mengirim heartbeat. Waktu dengar tetap seperti heartbeat terakhir.
+ */
+export async function closeAbandonedSessions(prisma: PrismaClient): Promise<number> {
+    const cutoff = new Date(Date.now() - ABANDON_AFTER_MS);
+    const { count } = await prisma.playSession.updateMany({
+        where: { endedAt: null, lastHeartbeatAt: { lt: cutoff } },
+        data: { endedAt: new Date(), endReason: 'ABANDONED' },
+    });
+    return count;
+}
+
+/**
+ * Hitung ulang Song.playCount dari PlayHistory (play yang sudah qualified).
+ * Return jumlah lagu yang nilainya berubah.
+ */
+export async function recountPlayCounts(prisma: PrismaClient): Promise<number> {
+    return prisma.$executeRaw`
+        UPDATE "Song" AS s
+        SET "playCount" = COALESCE(h.plays, 0)
+        FROM "Song" AS s2
+        LEFT JOIN (
+            SELECT "songId", COUNT(*)::int AS plays FROM "PlayHistory" GROUP BY "songId"
+        ) AS h ON h."songId" = s2."id"
+        WHERE s."id" = s2."id" AND s."playCount" <> COALESCE(h.plays, 0)`;
+}
+
+export function formatPlaySession(session: PlaySession) {
+    return {
+        id: session.id,
+        songId: session.songId,
+        source: session.source,
+        startedAt: session.startedAt,
+        positionSec: session.positionSec,
+        listenedSec: Math.round(session.listenedSec * 10) / 10,
+        qualified: session.qualifiedAt !== null,
+        qualifiedAt: session.qualifiedAt,
+        endedAt: session.endedAt,
+        endReason: session.endReason,
+    };
+}
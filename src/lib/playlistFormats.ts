@@ -0,0 +1,260 @@
+/**
+ * Import / export playlist dalam format M3U8, XSPF, dan JSON.
+ *
+ * Export membawa judul, artis, album, dan durasi tiap lagu. Import hanya
+ * mem-parse file menjadi daftar entri; pencocokan ke tabel Song dilakukan
+ * di route memakai src/lib/songMatching.ts.
+ */
+
+export type PlaylistFormat = 'm3u8' | 'xspf' | 'json';
+
+export const PLAYLIST_FORMATS: PlaylistFormat[] = ['m3u8', 'xspf', 'json'];
+
+export const PLAYLIST_CONTENT_TYPES: Record<PlaylistFormat, string> = {
+    m3u8: 'audio/x-mpegurl; charset=utf-8',
+    xspf: 'application/xspf+xml; charset=utf-8',
+    json: 'application/json; charset=utf-8',
+};
+
+export interface ExportTrack {
+    id: string;
+    title: string;
+    artists: string[];
+    album: string | null;
+    durationSec: number;
+    location: string;
+}
+
+export interface ExportPlaylist {
+    name: string;
+    description: string | null;
+    owner: string;
+    tracks: ExportTrack[];
+}
+
+export interface ImportEntry {
+    title: string;
+    artists: string[];
+    album?: string;
+    durationSec?: number;
+}
+
+// ── Export ────────────────────────────────────────────────────────────────────
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+function toM3U8(playlist: ExportPlaylist): string {
+    const lines = ['#EXTM3U', `#PLAYLIST:${playlist.name}`];
+    for (const track of playlist.tracks) {
+        // Baris baru di metadata akan merusak format M3U (satu entri per baris)
+        const artists = track.artists.join(', ').replace(/[\r\n]+/g, ' ');
+        const title = track.title.replace(/[\r\n]+/g, ' ');
+        lines.push(`#EXTINF:${track.durationSec},${artists} - ${title}`);
+        if (track.album) lines.push(`#EXTALB:${track.album.replace(/[\r\n]+/g, ' ')}`);
+        lines.push(track.location);
+    }
+    return lines.join('\n') + '\n';
+}
+
+function toXSPF(playlist: ExportPlaylist): string {
+    const tracks = playlist.tracks.map((track) => {
+        const fields = [
+            `      <location>${escapeXml(track.location)}</location>`,
+            `      <identifier>${escapeXml(track.id)}</identifier>`,
+            `      <title>${escapeXml(track.title)}</title>`,
+            `      <creator>${escapeXml(track.artists.join(', '))}</creator>`,
+            track.album ? `      <album>${escapeXml(track.album)}</album>` : null,
+            `      <duration>${track.durationSec * 1000}</duration>`,
+        ].filter(Boolean);
+        return `    <track>\n${fields.join('\n')}\n    </track>`;
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+        `  <title>${escapeXml(playlist.name)}</title>`,
+        `  <creator>${escapeXml(playlist.owner)}</creator>`,
+        ...(playlist.description ? [`  <annotation>${escapeXml(playlist.description)}</annotation>`] : []),
+        '  <trackList>',
+        ...tracks,
+        '  </trackList>',
+        '</playlist>',
+        '',
+    ].join('\n');
+}
+
+function toJSON(playlist: ExportPlaylist): string {
+    return JSON.stringify({
+        version: 1,
+        name: playlist.name,
+        description: playlist.description,
+        owner: playlist.owner,
+        tracks: playlist.tracks.map(t => ({
+            id: t.id,
+            title: t.title,
+            artists: t.artists,
+            album: t.album,
+            durationSec: t.durationSec,
+            location: t.location,
+        })),
+    }, null, 2);
+}
+
+export function serializePlaylist(playlist: ExportPlaylist, format: PlaylistFormat): string {
+    if (format === 'm3u8') return toM3U8(playlist);
+    if (format === 'xspf') return toXSPF(playlist);
+    return toJSON(playlist);
+}
+
+// ── Import ────────────────────────────────────────────────────────────────────
+
+function unescapeXml(value: string): string {
+    return value
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_m, code) => String.fromCodePoint(Number(code)))
+        .replace(/&#x([0-9a-f]+);/gi, (_m, code) => String.fromCodePoint(parseInt(code, 16)))
+        .replace(/&amp;/g, '&');
+}
+
+function safeDecode(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+}
+
+function splitArtists(value: string): string[] {
+    return value.split(/,|;/).map(a => a.trim()).filter(Boolean);
+}
+
+/**
+ * Tebak format dari isi file jika client tidak menyebutkannya.
+ */
+export function detectPlaylistFormat(content: string): PlaylistFormat | null {
+    const head = content.trimStart().slice(0, 200);
+    if (head.startsWith('#EXTM3U') || head.startsWith('#EXTINF')) return 'm3u8';
+    if (head.startsWith('<?xml') || head.startsWith('<playlist')) return 'xspf';
+    if (head.startsWith('{') || head.startsWith('[')) return 'json';
+    return null;
+}
+
+/**
+ * #EXTINF:<durasi>,<Artis> - <Judul>
+ * #EXTALB:<Album>          (opsional)
+ * <lokasi file / URL>
+ *
+ * Baris lokasi tanpa #EXTINF dipakai sebagai judul (nama file tanpa ekstensi).
+ */
+function parseM3U8(content: string): ImportEntry[] {
+    const entries: ImportEntry[] = [];
+    let pending: ImportEntry | null = null;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line) continue;
+
+        if (line.startsWith('#EXTINF:')) {
+            const info = line.slice('#EXTINF:'.length);
+            const commaIndex = info.indexOf(',');
+            const duration = Number(commaIndex === -1 ? info : info.slice(0, commaIndex));
+            const display = commaIndex === -1 ? '' : info.slice(commaIndex + 1).trim();
+            const dashIndex = display.indexOf(' - ');
+
+            pending = {
+                title: dashIndex === -1 ? display : display.slice(dashIndex + 3).trim(),
+                artists: dashIndex === -1 ? [] : splitArtists(display.slice(0, dashIndex)),
+                durationSec: Number.isFinite(duration) && duration > 0 ? Math.round(duration) : undefined,
+            };
+            continue;
+        }
+
+        if (line.startsWith('#EXTALB:')) {
+            if (pending) pending.album = line.slice('#EXTALB:'.length).trim();
+            continue;
+        }
+
+        if (line.startsWith('#')) continue;
+
+        // Baris lokasi menutup satu entri
+        if (pending && pending.title) {
+            entries.push(pending);
+        } else {
+            const fileName = safeDecode(line.split(/[\\/]/).pop() || line).replace(/\.[a-z0-9]+$/i, '');
+            const dashIndex = fileName.indexOf(' - ');
+            entries.push({
+                title: dashIndex === -1 ? fileName : fileName.slice(dashIndex + 3).trim(),
+                artists: dashIndex === -1 ? [] : splitArtists(fileName.slice(0, dashIndex)),
+            });
+        }
+        pending = null;
+    }
+
+    return entries;
+}
+
+function xmlField(block: string, tag: string): string | undefined {
+    const match = block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+    return match ? unescapeXml(match[1].trim()) : undefined;
+}
+
+function parseXSPF(content: string): ImportEntry[] {
+    const entries: ImportEntry[] = [];
+    const trackBlocks = content.match(/<track(?:\s[^>]*)?>[\s\S]*?<\/track>/gi) || [];
+
+    for (const block of trackBlocks) {
+        const title = xmlField(block, 'title');
+        if (!title) continue;
+
+        const duration = Number(xmlField(block, 'duration'));
+        entries.push({
+            title,
+            artists: splitArtists(xmlField(block, 'creator') || ''),
+            album: xmlField(block, 'album'),
+            durationSec: Number.isFinite(duration) && duration > 0 ? Math.round(duration / 1000) : undefined,
+        });
+    }
+
+    return entries;
+}
+
+/**
+ * Menerima hasil export JSON kita sendiri ({ tracks: [...] }) maupun array polos.
+ * `artists` boleh array atau string "A, B"; `artist` juga diterima.
+ */
+function parseJSON(content: string): ImportEntry[] {
+    const data = JSON.parse(content);
+    const tracks: any[] = Array.isArray(data) ? data : Array.isArray(data?.tracks) ? data.tracks : [];
+
+    return tracks
+        .filter(t => t && typeof t.title === 'string' && t.title.trim())
+        .map(t => {
+            const rawArtists = t.artists ?? t.artist ?? [];
+            return {
+                title: t.title.trim(),
+                artists: Array.isArray(rawArtists) ? rawArtists.map(String) : splitArtists(String(rawArtists)),
+                album: typeof t.album === 'string' ? t.album : t.album?.title,
+                durationSec: Number.isFinite(Number(t.durationSec)) ? Number(t.durationSec) : undefined,
+            };
+        });
+}
+
+/**
+ * Parse isi file playlist. Lempar error jika JSON rusak.
+ */
+export function parsePlaylist(content: string, format: PlaylistFormat): ImportEntry[] {
+    if (format === 'm3u8') return parseM3U8(content);
+    if (format === 'xspf') return parseXSPF(content);
+    return parseJSON(content);
+}
@@ -0,0 +1,69 @@
+import { Prisma } from '@prisma/client';
+
+// Posisi dimulai dari 1 dan harus selalu rapat (1..N). Semua perubahan item
+// berjalan di dalam satu transaksi yang mengunci baris Playlist terlebih dahulu,
+// sehingga edit yang bersamaan tidak menghasilkan posisi ganda atau bolong.
+
+/**
+ * Kunci baris playlist (SELECT ... FOR UPDATE) sampai transaksi selesai.
+ */
+export async function lockPlaylist(tx: Prisma.TransactionClient, playlistId: string): Promise<void> {
+    await tx.$queryRaw`SELECT "id" FROM "Playlist" WHERE "id" = ${playlistId} FOR UPDATE`;
+}
+
+/**
+ * Tutup celah posisi: urutkan ulang item menjadi 1..N sesuai urutan saat ini.
+ */
+export async function compactPositions(tx: Prisma.TransactionClient, playlistId: string): Promise<void> {
+    await tx.$executeRaw`
+        UPDATE "PlaylistItem" AS p
+        SET "position" = r.rn
+        FROM (
+            SELECT "id", ROW_NUMBER() OVER (ORDER BY "position" ASC, "addedAt" ASC) AS rn
+            FROM "PlaylistItem"
+            WHERE "playlistId" = ${playlistId}
+        ) AS r
+        WHERE p."id" = r."id" AND p."position" <> r.rn`;
+}
+
+/**
+ * Sisipkan banyak lagu mulai dari posisi `position` (default: di akhir),
+ * menggeser item setelahnya. Lagu yang sudah ada di playlist dilewati.
+ * Harus dipanggil di dalam transaksi setelah lockPlaylist().
+ */
+export async function insertPlaylistSongs(
+    tx: Prisma.TransactionClient,
+    playlistId: string,
+    songIds: string[],
+    addedById: string,
+    position?: number,
+): Promise<{ added: string[]; skipped: string[]; insertAt: number }> {
+    const existing = await tx.playlistItem.findMany({
+        where: { playlistId, songId: { in: songIds } },
+        select: { songId: true },
+    });
+    const existingIds = new Set(existing.map(i => i.songId));
+    const toAdd = songIds.filter(songId => !existingIds.has(songId));
+
+    const total = await tx.playlistItem.count({ where: { playlistId } });
+    const insertAt = Math.min(position ?? total + 1, total + 1);
+
+    if (toAdd.length > 0) {
+        // Geser item di posisi >= insertAt untuk memberi ruang
+        await tx.playlistItem.updateMany({
+            where: { playlistId, position: { gte: insertAt } },
+            data: { position: { increment: toAdd.length } },
+        });
+
+        await tx.playlistItem.createMany({
+            data: toAdd.map((songId, i) => ({
+                playlistId,
+                songId,
+                position: insertAt + i,
+                addedById,
+            })),
+        });
+    }
+
+    return { added: toAdd, skipped: [...existingIds], insertAt };
+}
@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { formatDuration } from '../songFormat';
+import { CollectionInfo, DownloadProvider, DownloadStream, MediaSource, PreviewMetadata, SearchResult } from './types';
+
+/**
+ * Provider lokal tanpa jaringan untuk development & test (DOWNLOAD_PROVIDERS=fake).
+ * Hasilnya deterministik: URL yang sama selalu menghasilkan metadata yang sama,
+ * dan download berupa MP3 hening berdurasi FAKE_DURATION_SEC.
+ *
+ * Format URL: fake://<youtube|spotify>/<id>, tetapi URL apa pun diterima.
+ * Album / playlist (mis. https://open.spotify.com/album/<id>) berisi FAKE_COLLECTION_SIZE track;
+ * URL yang mengandung "playlist" dianggap playlist.
+ */
+
+const FAKE_DURATION_SEC = 5;
+const FAKE_COLLECTION_SIZE = 5;
+
+// Satu frame MPEG-1 Layer III, 128 kbps, 44.1 kHz, tanpa padding: 417 byte, 1152 sample
+const MP3_FRAME_HEADER = Buffer.from([0xff, 0xfb, 0x90, 0x00]);
+const MP3_FRAME_BYTES = 417;
+const MP3_SAMPLES_PER_FRAME = 1152;
+
+export function silentMp3(durationSec: number): Buffer {
+    const frames = Math.ceil((durationSec * 44100) / MP3_SAMPLES_PER_FRAME);
+    const frame = Buffer.alloc(MP3_FRAME_BYTES);
+    MP3_FRAME_HEADER.copy(frame);
+    return Buffer.concat(Array.from({ length: frames }, () => frame));
+}
+
+function fakeId(url: string): string {
+    const last = url.split('/').filter(Boolean).pop() || url;
+    return /^[a-zA-Z0-9_-]{1,40}$/.test(last) ? last : crypto.createHash('sha1').update(url).digest('hex').slice(0, 11);
+}
+
+function fakeMetadata(source: MediaSource, url: string): PreviewMetadata {
+    const id = fakeId(url);
+    const title = `Fake Song ${id}`;
+    const artist = 'Fake Artist';
+    return {
+        rawTitle: `${artist} - ${title}`,
+        title,
+        artists: [artist],
+        thumbnail: null,
+        durationSec: FAKE_DURATION_SEC,
+        needsCleanup: false,
+    };
+}
+
+export function createFakeProvider(): DownloadProvider {
+    return {
+        name: 'fake',
+        sources: ['YOUTUBE', 'SPOTIFY'],
+
+        async search(source: MediaSource, query: string, limit: number): Promise<SearchResult[]> {
+            const slug = query.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 30) || 'song';
+            return Array.from({ length: Math.min(limit, 5) }, (_, i) => {
+                const url = `fake://${source.toLowerCase()}/${slug}-${i + 1}`;
+                const metadata = fakeMetadata(source, url);
+                return {
+                    id: fakeId(url),
+                    url,
+                    title: metadata.title,
+                    author: metadata.artists.join(', '),
+                    thumbnail: null,
+                    duration: formatDuration(FAKE_DURATION_SEC),
+                };
+            });
+        },
+
+        async preview(source: MediaSource, url: string): Promise<PreviewMetadata> {
+            return fakeMetadata(source, url);
+        },
+
+        async expand(source: MediaSource, url: string): Promise<CollectionInfo> {
+            const id = fakeId(url);
+            const kind = url.includes('playlist') ? 'PLAYLIST' : 'ALBUM';
+            return {
+                kind,
+                title: `Fake ${kind === 'ALBUM' ? 'Album' : 'Playlist'} ${id}`,
+                artists: kind === 'ALBUM' ? ['Fake Artist'] : [],
+                coverUrl: null,
+                releaseYear: kind === 'ALBUM' ? 2024 : null,
+                tracks: Array.from({ length: FAKE_COLLECTION_SIZE }, (_, i) => {
+                    const trackUrl = `fake://${source.toLowerCase()}/${id}-${i + 1}`;
+                    const metadata = fakeMetadata(source, trackUrl);
+                    return {
+                        url: trackUrl,
+                        title: metadata.title,
+                        artists: metadata.artists,
+                        durationSec: metadata.durationSec,
+                        trackNumber: i + 1,
+                    };
+                }),
+            };
+        },
+
+        async download(source: MediaSource, url: string): Promise<DownloadStream> {
+            const audio = silentMp3(FAKE_DURATION_SEC);
+            return {
+                metadata: fakeMetadata(source, url),
+                body: Readable.from(audio),
+                contentLength: audio.length,
+                contentType: 'audio/mpeg',
+            };
+        },
+    };
+}
@@ -0,0 +1,113 @@
+import { Readable } from 'stream';
+import { DownloadProvider, DownloadStream, MediaSource, PreviewMetadata, SearchResult } from './types';
+
+// api.ferdev.my.id: search Spotify + link download MP3 untuk YouTube & Spotify
+const FERDEV_BASE_URL = 'https://api.ferdev.my.id';
+const DOWNLOAD_HEADERS = {
+    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+    'Accept': 'audio/mpeg, audio/*;q=0.9, */*;q=0.8',
+};
+
+async function fetchWithRetry(url: string, init?: RequestInit, tries = 3): Promise<globalThis.Response> {
+    let lastError: unknown;
+    for (let i = 0; i < tries; i++) {
+        try {
+            const res = await fetch(url, init);
+            if (res.ok) return res;
+            lastError = new Error(`HTTP ${res.status}`);
+        } catch (e) {
+            lastError = e;
+        }
+        if (i < tries - 1) await new Promise(r => setTimeout(r, 2000));
+    }
+    throw lastError;
+}
+
+export function createFerdevProvider(apiKey: string): DownloadProvider {
+    const call = async (path: string, params: Record<string, string>) => {
+        const query = new URLSearchParams({ ...params, apikey: apiKey });
+        const res = await fetchWithRetry(`${FERDEV_BASE_URL}${path}?${query}`);
+        return await res.json() as any;
+    };
+
+    // Metadata + link download dari endpoint downloader
+    const resolve = async (source: MediaSource, url: string): Promise<{ metadata: PreviewMetadata; downloadUrl: string | null }> => {
+        if (source === 'YOUTUBE') {
+            const apiData = await call('/downloader/ytmp3', { link: url });
+            if (!apiData.success || !apiData.data) throw new Error('Gagal mendapatkan data dari YouTube.');
+
+            const { title, thumbnail, duration, dlink } = apiData.data;
+            return {
+                metadata: {
+                    rawTitle: title,
+                    title,
+                    artists: [],
+                    thumbnail: thumbnail || null,
+                    durationSec: Math.floor(Number(duration)) || null,
+                    needsCleanup: true,
+                },
+                downloadUrl: dlink || null,
+            };
+        }
+
+        const apiData = await call('/downloader/spotify', { link: url });
+        if (!apiData.success || !apiData.data) throw new Error('Gagal mendapatkan data dari Spotify.');
+
+        const { title, artist } = apiData.data;
+        return {
+            metadata: {
+                rawTitle: `${artist} - ${title}`,
+                title,
+                artists: String(artist || '').split(',').map(a => a.trim()).filter(Boolean),
+                thumbnail: apiData.data.album?.images?.[0]?.url || apiData.data.thumbnail || null,
+                durationSec: null, // Ferdev tidak mengembalikan durasi untuk Spotify
+                needsCleanup: false,
+            },
+            downloadUrl: apiData.download || apiData.data.download || apiData.data.url || null,
+        };
+    };
+
+    return {
+        name: 'ferdev',
+        sources: ['YOUTUBE', 'SPOTIFY'],
+
+        async search(source: MediaSource, query: string, limit: number): Promise<SearchResult[]> {
+            if (source !== 'SPOTIFY') throw new Error('Ferdev hanya mendukung search Spotify.');
+
+            const apiData = await call('/search/spotify', { query });
+            const rawTracks = apiData.result || apiData.data;
+            if (!Array.isArray(rawTracks)) throw new Error('Gagal mendapatkan data dari Spotify.');
+
+            return rawTracks.slice(0, limit).map((track: any) => {
+                const trackId = track.id || (track.url ? track.url.split('/').pop() : Math.random().toString());
+                return {
+                    id: trackId,
+                    url: track.url,
+                    title: track.title || track.name || 'Unknown Title',
+                    author: track.artists || track.artist?.name || 'Unknown Artist',
+                    thumbnail: track.thumbnail || null,
+                    duration: track.duration_at || '0:00',
+                };
+            });
+        },
+
+        async preview(source: MediaSource, url: string): Promise<PreviewMetadata> {
+            return (await resolve(source, url)).metadata;
+        },
+
+        async download(source: MediaSource, url: string): Promise<DownloadStream> {
+            const { metadata, downloadUrl } = await resolve(source, url);
+            if (!downloadUrl) throw new Error('Link download tidak ditemukan pada response API.');
+
+            const audioRes = await fetchWithRetry(downloadUrl, { headers: DOWNLOAD_HEADERS });
+            if (!audioRes.body) throw new Error('Response download kosong.');
+
+            return {
+                metadata,
+                body: Readable.fromWeb(audioRes.body as any),
+                contentLength: Number(audioRes.headers.get('content-length')) || null,
+                contentType: 'audio/mpeg',
+            };
+        },
+    };
+}
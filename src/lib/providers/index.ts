@@ -0,0 +1,111 @@
+import { createFakeProvider } from './fake';
+import { createFerdevProvider } from './ferdev';
+import { createYtSearchProvider } from './ytSearch';
+import { createSpotifyApiProvider } from './spotifyApi';
+import {
+    CollectionInfo,
+    DownloadProvider,
+    DownloadStream,
+    MediaSource,
+    PreviewMetadata,
+    ProviderCapability,
+    ProviderError,
+    SearchResult,
+} from './types';
+
+export * from './types';
+
+/**
+ * Registry provider downloader.
+ *
+ * Provider aktif & urutannya diatur lewat env DOWNLOAD_PROVIDERS (dipisah koma),
+ * default "ytsearch,ferdev,spotifyapi". Untuk tiap operasi, provider dicoba berurutan;
+ * yang tidak mendukung source/kemampuan itu dilewati, yang gagal diganti
+ * provider berikutnya (fallback).
+ *
+ *   DOWNLOAD_PROVIDERS=fake               ← development / test tanpa jaringan
+ *   DOWNLOAD_PROVIDERS=ytsearch,ferdev,fake
+ *
+ * Factory boleh return null jika provider belum dikonfigurasi (mis. ferdev tanpa FERDEV_API_KEY);
+ * provider itu dilewati.
+ */
+
+const DEFAULT_PROVIDERS = 'ytsearch,ferdev,spotifyapi';
+
+type ProviderFactory = () => DownloadProvider | null;
+
+const factories = new Map<string, ProviderFactory>([
+    ['ferdev', () => process.env.FERDEV_API_KEY ? createFerdevProvider(process.env.FERDEV_API_KEY) : null],
+    ['ytsearch', () => createYtSearchProvider()],
+    ['spotifyapi', () => createSpotifyApiProvider()],
+    ['fake', () => createFakeProvider()],
+]);
+
+let activeProviders: DownloadProvider[] | null = null;
+
+/**
+ * Daftarkan provider tambahan (mis. dari kode lain atau test).
+ * Harus dipanggil sebelum operasi provider pertama.
+ */
+export function registerProvider(name: string, factory: ProviderFactory): void {
+    factories.set(name, factory);
+    activeProviders = null;
+}
+
+export function getProviders(): DownloadProvider[] {
+    if (activeProviders) return activeProviders;
+
+    const names = (process.env.DOWNLOAD_PROVIDERS || DEFAULT_PROVIDERS)
+        .split(',')
+        .map(n => n.trim().toLowerCase())
+        .filter(Boolean);
+
+    activeProviders = names.flatMap(name => {
+        const factory = factories.get(name);
+        if (!factory) throw new Error(`Provider downloader tidak dikenal: ${name}`);
+
+        const provider = factory();
+        if (!provider) console.warn(`[provider:${name}] Belum dikonfigurasi, dilewati.`);
+        return provider ? [provider] : [];
+    });
+    return activeProviders;
+}
+
+async function withFallback<T>(
+    capability: ProviderCapability,
+    source: MediaSource,
+    run: (provider: DownloadProvider) => Promise<T>,
+): Promise<T> {
+    const candidates = getProviders().filter(p => p[capability] && p.sources.includes(source));
+    if (candidates.length === 0) {
+        throw new ProviderError(`Tidak ada provider untuk ${capability} ${source}.`);
+    }
+
+    const failures: { provider: string; error: string }[] = [];
+    for (const provider of candidates) {
+        try {
+            return await run(provider);
+        } catch (err: any) {
+            console.error(`[provider:${provider.name}] ${capability} ${source} gagal:`, err?.message);
+            failures.push({ provider: provider.name, error: err?.message || String(err) });
+        }
+    }
+
+    throw new ProviderError(`Semua provider gagal untuk ${capability} ${source}.`, failures);
+}
+
+export function searchTracks(source: MediaSource, query: string, limit = 10): Promise<SearchResult[]> {
+    return withFallback('search', source, p => p.search!(source, query, limit));
+}
+
+export function previewTrack(source: MediaSource, url: string): Promise<PreviewMetadata> {
+    return withFallback('preview', source, p => p.preview!(source, url));
+}
+
+export function openDownload(source: MediaSource, url: string): Promise<DownloadStream> {
+    return withFallback('download', source, p => p.download!(source, url));
+}
+
+export function expandCollection(source: MediaSource, url: string): Promise<CollectionInfo> {
+    return withFallback('expand', source, p => p.expand!(source, url));
+}
@@ -0,0 +1,96 @@
+import { getSpotifyToken } from '../songMetadata';
+import { CollectionInfo, CollectionTrack, DownloadProvider, MediaSource } from './types';
+
+/**
+ * Spotify Web API (client credentials: SPOTIFY_CLIENT_ID / SPOTIFY_CLIENT_SECRET).
+ * Hanya untuk memecah URL album / playlist menjadi daftar track; audionya tetap
+ * diunduh lewat provider lain (mis. ferdev) per track.
+ */
+
+const SPOTIFY_API = 'https://api.spotify.com/v1';
+
+// open.spotify.com/album/<id>, open.spotify.com/intl-id/playlist/<id>, spotify:album:<id>
+const COLLECTION_URL = /(?:open\.spotify\.com\/(?:intl-[a-z-]+\/)?|spotify:)(album|playlist)[/:]([a-zA-Z0-9]+)/;
+
+export function parseSpotifyCollectionUrl(url: string): { kind: 'ALBUM' | 'PLAYLIST'; id: string } | null {
+    const match = url.match(COLLECTION_URL);
+    if (!match) return null;
+    return { kind: match[1] === 'album' ? 'ALBUM' : 'PLAYLIST', id: match[2] };
+}
+
+async function spotifyGet(url: string, token: string): Promise<any> {
+    const res = await fetch(url.startsWith('http') ? url : `${SPOTIFY_API}${url}`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+    });
+    if (!res.ok) throw new Error(`Spotify API HTTP ${res.status}`);
+    return res.json();
+}
+
+// Ikuti `next` sampai semua halaman terkumpul
+async function collectPages(first: any, token: string): Promise<any[]> {
+    const items: any[] = [...(first.items || [])];
+    let next = first.next;
+    while (next) {
+        const page = await spotifyGet(next, token);
+        items.push(...(page.items || []));
+        next = page.next;
+    }
+    return items;
+}
+
+function toTrack(track: any, trackNumber: number): CollectionTrack {
+    return {
+        url: track.external_urls?.spotify || `https://open.spotify.com/track/${track.id}`,
+        title: track.name,
+        artists: (track.artists || []).map((a: any) => a.name),
+        durationSec: track.duration_ms ? Math.round(track.duration_ms / 1000) : null,
+        trackNumber,
+    };
+}
+
+export function createSpotifyApiProvider(): DownloadProvider {
+    return {
+        name: 'spotifyapi',
+        sources: ['SPOTIFY'],
+
+        async expand(_source: MediaSource, url: string): Promise<CollectionInfo> {
+            const parsed = parseSpotifyCollectionUrl(url);
+            if (!parsed) throw new Error('Bukan URL album / playlist Spotify.');
+
+            const token = await getSpotifyToken();
+            if (!token) throw new Error('Token Spotify tidak tersedia.');
+
+            if (parsed.kind === 'ALBUM') {
+                const album = await spotifyGet(`/albums/${parsed.id}`, token);
+                const tracks = await collectPages(album.tracks, token);
+                const year = parseInt(String(album.release_date || '').slice(0, 4), 10);
+
+                return {
+                    kind: 'ALBUM',
+                    title: album.name,
+                    artists: (album.artists || []).map((a: any) => a.name),
+                    coverUrl: album.images?.[0]?.url || null,
+                    releaseYear: Number.isNaN(year) ? null : year,
+                    // Album multi-disc: nomor track dibuat berurutan lintas disc
+                    tracks: tracks.map((t, i) => toTrack(t, i + 1)),
+                };
+            }
+
+            const playlist = await spotifyGet(`/playlists/${parsed.id}`, token);
+            const entries = await collectPages(playlist.tracks, token);
+            // Lewati episode podcast & file lokal
+            const tracks = entries
+                .map(e => e.track)
+                .filter(t => t && t.type === 'track' && !t.is_local);
+
+            return {
+                kind: 'PLAYLIST',
+                title: playlist.name,
+                artists: [],
+                coverUrl: playlist.images?.[0]?.url || null,
+                releaseYear: null,
+                tracks: tracks.map((t, i) => toTrack(t, i + 1)),
+            };
+        },
+    };
+}
@@ -0,0 +1,75 @@
+import { Readable } from 'stream';
+
+export const MEDIA_SOURCES = ['YOUTUBE', 'SPOTIFY'] as const;
+export type MediaSource = typeof MEDIA_SOURCES[number];
+
+export interface SearchResult {
+    id: string;
+    url: string;
+    title: string;
+    author: string;
+    thumbnail: string | null;
+    duration: string;          // "m:ss", untuk ditampilkan apa adanya
+}
+
+export interface PreviewMetadata {
+    rawTitle: string;
+    title: string;
+    artists: string[];
+    thumbnail: string | null;
+    durationSec: number | null;
+    needsCleanup: boolean;     // true jika title/artists masih mentah (mis. judul video YouTube)
+}
+
+export interface CollectionTrack {
+    url: string;
+    title: string;
+    artists: string[];
+    durationSec: number | null;
+    trackNumber: number;       // urutan di album/playlist, mulai dari 1
+}
+
+export interface CollectionInfo {
+    kind: 'ALBUM' | 'PLAYLIST';
+    title: string;
+    artists: string[];         // artis album; kosong untuk playlist
+    coverUrl: string | null;
+    releaseYear: number | null;
+    tracks: CollectionTrack[];
+}
+
+export interface DownloadStream {
+    metadata: PreviewMetadata;
+    body: Readable;
+    contentLength: number | null;
+    contentType: string;
+}
+
+/**
+ * Kontrak provider downloader. Semua kemampuan opsional: provider yang tidak
+ * mendukung suatu kemampuan / source dilewati oleh registry (src/lib/providers/index.ts).
+ */
+export interface DownloadProvider {
+    name: string;
+    sources: MediaSource[];
+    search?(source: MediaSource, query: string, limit: number): Promise<SearchResult[]>;
+    preview?(source: MediaSource, url: string): Promise<PreviewMetadata>;
+    download?(source: MediaSource, url: string): Promise<DownloadStream>;
+    expand?(source: MediaSource, url: string): Promise<CollectionInfo>;   // album / playlist → daftar track
+}
+
+export type ProviderCapability = 'search' | 'preview' | 'download' | 'expand';
+
+/**
+ * Semua provider untuk kemampuan ini gagal (atau tidak ada yang terdaftar).
+ * `failures` berisi pesan error tiap provider yang sudah dicoba.
+ */
+export class ProviderError extends Error {
+    failures: { provider: string; error: string }[];
+
+    constructor(message: string, failures: { provider: string; error: string }[] = []) {
+        super(message);
+        this.name = 'ProviderError';
+        this.failures = failures;
+    }
+}
@@ -0,0 +1,24 @@
+import yts from 'yt-search';
+import { DownloadProvider, MediaSource, SearchResult } from './types';
+
+/**
+ * Search YouTube lewat scraping (yt-search), tanpa API key. Hanya search.
+ */
+export function createYtSearchProvider(): DownloadProvider {
+    return {
+        name: 'ytsearch',
+        sources: ['YOUTUBE'],
+
+        async search(_source: MediaSource, query: string, limit: number): Promise<SearchResult[]> {
+            const results = await yts(query);
+            return results.videos.slice(0, limit).map(v => ({
+                id: v.videoId,
+                url: v.url,
+                title: v.title,
+                author: v.author.name,
+                thumbnail: v.thumbnail || null,
+                duration: v.timestamp,
+            }));
+        },
+    };
+}
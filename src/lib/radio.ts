@@ -0,0 +1,292 @@
+import { Prisma, PrismaClient, RadioStation } from '@prisma/client';
+import { formatSongSummary, SONG_SUMMARY_INCLUDE, SongSummary } from './songFormat';
+import { evaluateSmartRules, SmartRules } from './smartPlaylists';
+
+/**
+ * Radio: antrian lagu mirip tanpa akhir dari seed lagu / artis / playlist.
+ *
+ * Skor kandidat = gabungan berbobot dari
+ *   co-listening → berapa user memutar kandidat dalam CO_LISTEN_WINDOW dari lagu seed (PlayHistory)
+ *   artis sama, genre sama, kemiripan moods (Jaccard), dan sedikit popularitas.
+ * Lagu seed, lagu yang sudah diberikan stasiun, dan yang baru diputar user tidak diulang.
+ * Pemilihan diversifikasi: skor dikali DIVERSITY_PENALTY untuk tiap lagu artis yang sama
+ * di batch / beberapa lagu terakhir. Jika katalog habis, riwayat stasiun dipangkas supaya radio tetap jalan.
+ */
+
+export const RADIO_SEED_TYPES = ['SONG', 'ARTIST', 'PLAYLIST'] as const;
+export type RadioSeedType = typeof RADIO_SEED_TYPES[number];
+
+const MAX_SEED_SONGS = 25;
+const CANDIDATE_LIMIT = 400;
+// Jika kandidat mirip kurang dari ini, ditambah lagu populer supaya radio tidak berhenti
+const MIN_CANDIDATES = 50;
+const CO_LISTEN_WINDOW = '1 hour';
+const CO_LISTEN_LOOKBACK_DAYS = 180;
+// Lagu yang diputar user dalam beberapa jam terakhir tidak dimasukkan
+const RECENT_PLAY_HOURS = 6;
+const DIVERSITY_PENALTY = 0.5;
+const DIVERSITY_LOOKBACK = 10;
+// servedSongIds disimpan maksimal sebanyak ini (yang terbaru)
+const MAX_SERVED_HISTORY = 500;
+// Saat kandidat habis, hanya sekian lagu terakhir yang tetap dihindari
+const REPEAT_GAP = 30;
+// Stasiun yang tidak dipakai selama ini dihapus worker
+const STATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const WEIGHTS = { coListen: 0.45, artist: 0.2, genre: 0.15, moods: 0.15, popularity: 0.05 };
+
+export class RadioSeedError extends Error {
+    status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.name = 'RadioSeedError';
+        this.status = status;
+    }
+}
+
+interface Seed {
+    title: string;
+    songIds: string[];
+}
+
+async function resolveSeed(prisma: PrismaClient, userId: string, seedType: RadioSeedType, seedId: string): Promise<Seed> {
+    if (seedType === 'SONG') {
+        const song = await prisma.song.findUnique({ where: { id: seedId }, select: { id: true, title: true } });
+        if (!song) throw new RadioSeedError(404, 'Lagu tidak ditemukan.');
+        return { title: song.title, songIds: [song.id] };
+    }
+
+    if (seedType === 'ARTIST') {
+        const artist = await prisma.artist.findUnique({
+            where: { id: seedId },
+            select: {
+                name: true,
+                songs: { orderBy: [{ playCount: 'desc' }, { createdAt: 'desc' }], take: MAX_SEED_SONGS, select: { id: true } },
+            },
+        });
+        if (!artist) throw new RadioSeedError(404, 'Artis tidak ditemukan.');
+        if (artist.songs.length === 0) throw new RadioSeedError(422, 'Artis belum punya lagu.');
+        return { title: artist.name, songIds: artist.songs.map(s => s.id) };
+    }
+
+    const playlist = await prisma.playlist.findUnique({
+        where: { id: seedId },
+        select: {
+            name: true,
+            userId: true,
+            visibility: true,
+            smartRules: true,
+            collaborators: { where: { userId }, select: { userId: true } },
+            items: { orderBy: { position: 'asc' }, take: MAX_SEED_SONGS, select: { songId: true } },
+        },
+    });
+    const canView = playlist
+        && (playlist.userId === userId || playlist.collaborators.length > 0 || playlist.visibility === 'PUBLIC');
+    if (!playlist || !canView) throw new RadioSeedError(404, 'Playlist tidak ditemukan.');
+
+    const songIds = playlist.smartRules
+        ? (await evaluateSmartRules(prisma, playlist.smartRules as SmartRules, playlist.userId, {})).slice(0, MAX_SEED_SONGS).map(s => s.id)
+        : playlist.items.map(i => i.songId);
+    if (songIds.length === 0) throw new RadioSeedError(422, 'Playlist masih kosong.');
+    return { title: playlist.name, songIds };
+}
+
+export async function createRadioStation(
+    prisma: PrismaClient,
+    userId: string,
+    seedType: RadioSeedType,
+    seedId: string,
+): Promise<RadioStation> {
+    const seed = await resolveSeed(prisma, userId, seedType, seedId);
+    return prisma.radioStation.create({
+        data: { userId, seedType, seedId, title: seed.title, seedSongIds: seed.songIds },
+    });
+}
+
+// Jumlah user yang memutar kandidat di sekitar waktu memutar salah satu lagu seed
+async function coListenCounts(prisma: PrismaClient, seedIds: string[]): Promise<Map<string, number>> {
+    const since = new Date(Date.now() - CO_LISTEN_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const rows = await prisma.$queryRaw<{ songId: string; users: number }[]>`
+        SELECT h2."songId", COUNT(DISTINCT h1."userId")::int AS users
+        FROM "PlayHistory" h1
+        JOIN "PlayHistory" h2
+          ON h2."userId" = h1."userId"
+         AND h2."playedAt" BETWEEN h1."playedAt" - ${CO_LISTEN_WINDOW}::interval AND h1."playedAt" + ${CO_LISTEN_WINDOW}::interval
+        WHERE h1."songId" IN (${Prisma.join(seedIds)})
+          AND h1."playedAt" >= ${since}
+          AND h2."songId" NOT IN (${Prisma.join(seedIds)})
+        GROUP BY h2."songId"
+        ORDER BY users DESC
+        LIMIT ${CANDIDATE_LIMIT}`;
+    return new Map(rows.map(r => [r.songId, r.users]));
+}
+
+function jaccard(a: Set<string>, b: string[]): number {
+    if (a.size === 0 || b.length === 0) return 0;
+    const inter = b.filter(x => a.has(x)).length;
+    return inter / (a.size + b.length - inter);
+}
+
+interface ScoredSong {
+    song: SongSummary;
+    score: number;
+}
+
+/**
+ * Skor semua kandidat untuk seed, di luar `excludeIds`.
+ */
+async function scoreCandidates(prisma: PrismaClient, seedIds: string[], excludeIds: Set<string>): Promise<ScoredSong[]> {
+    const seeds = await prisma.song.findMany({
+        where: { id: { in: seedIds } },
+        select: { genre: true, moods: true, artists: { select: { id: true } } },
+    });
+    const seedArtists = new Set(seeds.flatMap(s => s.artists.map(a => a.id)));
+    const seedGenres = new Set(seeds.map(s => s.genre?.toLowerCase()).filter((g): g is string => !!g));
+    const seedMoods = new Set(seeds.flatMap(s => s.moods));
+
+    const coListen = await coListenCounts(prisma, seedIds);
+    const exclude = [...excludeIds, ...seedIds];
+
+    const similar: Prisma.SongWhereInput[] = [];
+    if (seedArtists.size > 0) similar.push({ artists: { some: { id: { in: [...seedArtists] } } } });
+    if (seedGenres.size > 0) similar.push(...[...seedGenres].map(g => ({ genre: { equals: g, mode: 'insensitive' as const } })));
+    if (seedMoods.size > 0) similar.push({ moods: { hasSome: [...seedMoods] } });
+
+    // Kandidat co-listening diambil terpisah supaya tidak tergeser lagu populer yang hanya mirip metadata
+    const [coCandidates, metaCandidates] = await Promise.all([
+        prisma.song.findMany({
+            where: { id: { in: [...coListen.keys()], notIn: exclude } },
+            include: SONG_SUMMARY_INCLUDE,
+        }),
+        similar.length > 0
+            ? prisma.song.findMany({
+                where: { id: { notIn: [...exclude, ...coListen.keys()] }, OR: similar },
+                include: SONG_SUMMARY_INCLUDE,
+                orderBy: { playCount: 'desc' },
+                take: CANDIDATE_LIMIT,
+            })
+            : [],
+    ]);
+    const candidates = [...coCandidates, ...metaCandidates];
+    if (candidates.length < MIN_CANDIDATES) {
+        candidates.push(...await prisma.song.findMany({
+            where: { id: { notIn: [...exclude, ...candidates.map(c => c.id)] } },
+            include: SONG_SUMMARY_INCLUDE,
+            orderBy: [{ playCount: 'desc' }, { createdAt: 'desc' }],
+            take: MIN_CANDIDATES - candidates.length,
+        }));
+    }
+
+    const maxCo = Math.max(1, ...coListen.values());
+    const maxPlays = Math.max(1, ...candidates.map(c => c.playCount));
+
+    return candidates.map(song => {
+        const score =
+            WEIGHTS.coListen * ((coListen.get(song.id) ?? 0) / maxCo)
+            + WEIGHTS.artist * (song.artists.some(a => seedArtists.has(a.id)) ? 1 : 0)
+            + WEIGHTS.genre * (song.genre && seedGenres.has(song.genre.toLowerCase()) ? 1 : 0)
+            + WEIGHTS.moods * jaccard(seedMoods, song.moods)
+            + WEIGHTS.popularity * (Math.log1p(song.playCount) / Math.log1p(maxPlays));
+        // Sedikit acak supaya stasiun dengan seed yang sama tidak selalu identik
+        return { song, score: score * (0.9 + Math.random() * 0.2) };
+    });
+}
+
+/**
+ * Pilih `limit` lagu dengan skor tertinggi, menurunkan skor lagu dari artis yang sudah muncul
+ * di `recentArtistIds` atau di batch ini.
+ */
+export function diversify(scored: ScoredSong[], limit: number, recentArtistIds: string[] = []): SongSummary[] {
+    const artistCount = new Map<string, number>();
+    for (const id of recentArtistIds) artistCount.set(id, (artistCount.get(id) ?? 0) + 1);
+
+    const pool = [...scored];
+    const picked: SongSummary[] = [];
+    while (picked.length < limit && pool.length > 0) {
+        let best = 0;
+        let bestScore = -Infinity;
+        for (let i = 0; i < pool.length; i++) {
+            const seen = pool[i].song.artists.reduce((n, a) => n + (artistCount.get(a.id) ?? 0), 0);
+            const adjusted = pool[i].score * Math.pow(DIVERSITY_PENALTY, seen);
+            if (adjusted > bestScore) {
+                best = i;
+                bestScore = adjusted;
+            }
+        }
+        const [chosen] = pool.splice(best, 1);
+        picked.push(chosen.song);
+        for (const a of chosen.song.artists) artistCount.set(a.id, (artistCount.get(a.id) ?? 0) + 1);
+    }
+    return picked;
+}
+
+/**
+ * Lagu mirip untuk sekumpulan seed, tanpa stasiun (dipakai bagian "because you listened" di /home).
+ */
+export async function similarSongs(prisma: PrismaClient, seedIds: string[], excludeIds: Set<string>, limit: number): Promise<SongSummary[]> {
+    return diversify(await scoreCandidates(prisma, seedIds, excludeIds), limit);
+}
+
+/**
+ * Batch lagu berikutnya dari stasiun. Lagu yang diberikan dicatat di servedSongIds, jadi setiap
+ * panggilan melanjutkan antrian.
+ */
+export async function nextRadioTracks(prisma: PrismaClient, station: RadioStation, limit: number) {
+    const recentPlays = await prisma.playHistory.findMany({
+        where: { userId: station.userId, playedAt: { gte: new Date(Date.now() - RECENT_PLAY_HOURS * 60 * 60 * 1000) } },
+        select: { songId: true },
+    });
+    const exclude = new Set([...station.servedSongIds, ...recentPlays.map(p => p.songId)]);
+
+    let served = station.servedSongIds;
+    let scored = await scoreCandidates(prisma, station.seedSongIds, exclude);
+    if (scored.length < limit) {
+        // Kandidat habis: boleh mengulang lagu lama, kecuali REPEAT_GAP lagu terakhir
+        served = served.slice(-REPEAT_GAP);
+        scored = await scoreCandidates(prisma, station.seedSongIds, new Set(served));
+    }
+
+    const recent = served.slice(-DIVERSITY_LOOKBACK);
+    const recentSongs = recent.length > 0
+        ? await prisma.song.findMany({ where: { id: { in: recent } }, select: { artists: { select: { id: true } } } })
+        : [];
+    const tracks = diversify(scored, limit, recentSongs.flatMap(s => s.artists.map(a => a.id)));
+    const trackIds = tracks.map(t => t.id);
+
+    // Kunci baris stasiun saat menyimpan supaya batch dari request yang bersamaan tidak saling menimpa
+    const updated = await prisma.$transaction(async tx => {
+        await tx.$queryRaw`SELECT "id" FROM "RadioStation" WHERE "id" = ${station.id} FOR UPDATE`;
+        const current = await tx.radioStation.findUniqueOrThrow({ where: { id: station.id } });
+        const base = served === station.servedSongIds ? current.servedSongIds : served;
+
+        return tx.radioStation.update({
+            where: { id: station.id },
+            data: { servedSongIds: [...base.filter(id => !trackIds.includes(id)), ...trackIds].slice(-MAX_SERVED_HISTORY) },
+        });
+    });
+    return { station: updated, tracks };
+}
+
+export async function deleteStaleStations(prisma: PrismaClient): Promise<number> {
+    const { count } = await prisma.radioStation.deleteMany({
+        where: { updatedAt: { lt: new Date(Date.now() - STATION_TTL_MS) } },
+    });
+    return count;
+}
+
+export function formatRadioStation(station: RadioStation) {
+    return {
+        id: station.id,
+        seedType: station.seedType,
+        seedId: station.seedId,
+        title: station.title,
+        served: station.servedSongIds.length,
+        createdAt: station.createdAt,
+        updatedAt: station.updatedAt,
+    };
+}
+
+export function formatRadioTracks(tracks: SongSummary[]) {
+    return tracks.map(formatSongSummary);
+}
@@ -0,0 +1,124 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { buildSongWhere, buildSongOrderBy, SongFilter, SongSort } from './songFilters';
+
+/**
+ * Aturan smart playlist, disimpan apa adanya di kolom `Playlist.smartRules`.
+ * Semua aturan digabung dengan AND.
+ *
+ * Contoh:
+ * { "genre": "Pop", "moods": ["Relax"], "minPlays": 3, "addedInLastDays": 30, "sort": "plays", "limit": 50 }
+ */
+export interface SmartRules {
+    genre?: string | string[];
+    moods?: string[];
+    artistIds?: string[];
+    minPlays?: number;         // diputar minimal N kali oleh pemilik playlist
+    addedInLastDays?: number;  // lagu ditambahkan ke katalog dalam N hari terakhir
+    sort?: SongSort;
+    limit?: number;
+}
+
+export const SMART_DEFAULT_LIMIT = 100;
+export const SMART_MAX_LIMIT = 500;
+
+const SMART_SORTS: SongSort[] = ['latest', 'plays', 'title'];
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+function isPositiveInt(value: unknown): value is number {
+    return Number.isInteger(value) && (value as number) > 0;
+}
+
+/**
+ * Validasi input aturan dari client. Return pesan error (bahasa Indonesia)
+ * atau aturan yang sudah bersih dari field asing.
+ */
+export function parseSmartRules(input: unknown): { rules: SmartRules } | { error: string } {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        return { error: 'smartRules harus berupa object.' };
+    }
+
+    const raw = input as Record<string, unknown>;
+    const rules: SmartRules = {};
+
+    if (raw.genre !== undefined) {
+        if (typeof raw.genre !== 'string' && !isStringArray(raw.genre)) return { error: 'genre harus string atau array string.' };
+        rules.genre = raw.genre;
+    }
+    if (raw.moods !== undefined) {
+        if (!isStringArray(raw.moods)) return { error: 'moods harus array string.' };
+        rules.moods = raw.moods;
+    }
+    if (raw.artistIds !== undefined) {
+        if (!isStringArray(raw.artistIds)) return { error: 'artistIds harus array string.' };
+        rules.artistIds = raw.artistIds;
+    }
+    if (raw.minPlays !== undefined) {
+        if (!isPositiveInt(raw.minPlays)) return { error: 'minPlays harus bilangan bulat > 0.' };
+        rules.minPlays = raw.minPlays;
+    }
+    if (raw.addedInLastDays !== undefined) {
+        if (!isPositiveInt(raw.addedInLastDays)) return { error: 'addedInLastDays harus bilangan bulat > 0.' };
+        rules.addedInLastDays = raw.addedInLastDays;
+    }
+    if (raw.sort !== undefined) {
+        if (!SMART_SORTS.includes(raw.sort as SongSort)) return { error: 'sort harus latest, plays, atau title.' };
+        rules.sort = raw.sort as SongSort;
+    }
+    if (raw.limit !== undefined) {
+        if (!isPositiveInt(raw.limit) || raw.limit > SMART_MAX_LIMIT) {
+            return { error: `limit harus bilangan bulat 1-${SMART_MAX_LIMIT}.` };
+        }
+        rules.limit = raw.limit;
+    }
+
+    return { rules };
+}
+
+/**
+ * Ubah aturan menjadi SongFilter. `minPlays` butuh query PlayHistory milik owner
+ * terlebih dahulu untuk mendapatkan daftar lagu yang memenuhi.
+ */
+export async function smartRulesToFilter(prisma: PrismaClient, rules: SmartRules, ownerId: string): Promise<SongFilter> {
+    const filter: SongFilter = {
+        genre: rules.genre,
+        moods: rules.moods,
+        artistIds: rules.artistIds,
+    };
+
+    if (rules.addedInLastDays) {
+        filter.createdAfter = new Date(Date.now() - rules.addedInLastDays * 24 * 60 * 60 * 1000);
+    }
+
+    if (rules.minPlays) {
+        const played = await prisma.playHistory.groupBy({
+            by: ['songId'],
+            where: { userId: ownerId },
+            having: { songId: { _count: { gte: rules.minPlays } } },
+        });
+        filter.songIds = played.map(p => p.songId);
+    }
+
+    return filter;
+}
+
+/**
+ * Jalankan aturan dan ambil lagu-lagunya dengan `include` yang diberikan.
+ */
+export async function evaluateSmartRules<T extends Prisma.SongInclude>(
+    prisma: PrismaClient,
+    rules: SmartRules,
+    ownerId: string,
+    include: T,
+) {
+    const filter = await smartRulesToFilter(prisma, rules, ownerId);
+
+    return prisma.song.findMany({
+        where: buildSongWhere(filter),
+        orderBy: [buildSongOrderBy(rules.sort), { id: 'asc' }],
+        take: rules.limit ?? SMART_DEFAULT_LIMIT,
+        include,
+    });
+}
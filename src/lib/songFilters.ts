@@ -0,0 +1,91 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Filter lagu yang dipakai bersama oleh GET /songs dan smart playlist.
+ * Semua field opsional; field kosong tidak menambah kondisi apa pun.
+ */
+export interface SongFilter {
+    genre?: string | string[];
+    mood?: string;
+    moods?: string[];          // cocok jika lagu punya salah satu mood ini
+    artist?: string;
+    artistIds?: string[];      // cocok jika salah satu artis lagu ada di daftar ini
+    q?: string;
+    songIds?: string[];
+    createdAfter?: Date;
+}
+
+export type SongSort = 'latest' | 'plays' | 'title';
+
+/**
+ * Bangun Prisma `where` untuk tabel Song dari filter di atas.
+ * Tiap filter jadi kondisi tersendiri di `AND`, jadi mis. `mood` + `moods` atau
+ * `artist` + `artistIds` yang memakai kolom sama tetap berlaku keduanya.
+ */
+export function buildSongWhere(filter: SongFilter): Prisma.SongWhereInput {
+    const { genre, mood, moods, artist, artistIds, q, songIds, createdAfter } = filter;
+    const conditions: Prisma.SongWhereInput[] = [];
+
+    if (genre) conditions.push({ genre: Array.isArray(genre) ? { in: genre } : genre });
+    if (mood) conditions.push({ moods: { has: mood } });
+    if (moods && moods.length > 0) conditions.push({ moods: { hasSome: moods } });
+    if (artist) conditions.push({ artists: { some: { id: artist } } });
+    if (artistIds && artistIds.length > 0) conditions.push({ artists: { some: { id: { in: artistIds } } } });
+    if (songIds) conditions.push({ id: { in: songIds } });
+    if (createdAfter) conditions.push({ createdAt: { gte: createdAfter } });
+    if (q) {
+        conditions.push({
+            OR: [
+                { title: { contains: q, mode: 'insensitive' } },
+                { artists: { some: { name: { contains: q, mode: 'insensitive' } } } },
+            ],
+        });
+    }
+
+    return conditions.length > 0 ? { AND: conditions } : {};
+}
+
+/**
+ * Urutan standar lagu. Default: terbaru dulu.
+ */
+export function buildSongOrderBy(sort?: string): Prisma.SongOrderByWithRelationInput {
+    if (sort === 'plays') return { playCount: 'desc' };
+    if (sort === 'title') return { title: 'asc' };
+    return { createdAt: 'desc' };
+}
+
+/**
+ * Versi SQL mentah dari buildSongWhere (alias tabel Song: `s`), untuk query
+ * yang tidak bisa dibuat lewat Prisma Client, mis. urutan acak ber-seed.
+ * Hanya mendukung filter yang dipakai GET /songs.
+ */
+export function buildSongWhereSql(filter: Pick<SongFilter, 'genre' | 'mood' | 'artist' | 'q'>): Prisma.Sql {
+    const { genre, mood, artist, q } = filter;
+    const conditions: Prisma.Sql[] = [];
+
+    if (genre) {
+        conditions.push(Array.isArray(genre)
+            ? Prisma.sql`s."genre" IN (${Prisma.join(genre)})`
+            : Prisma.sql`s."genre" = ${genre}`);
+    }
+    if (mood) conditions.push(Prisma.sql`${mood} = ANY(s."moods")`);
+    if (artist) {
+        conditions.push(Prisma.sql`EXISTS (
+            SELECT 1 FROM "_ArtistToSong" x WHERE x."B" = s."id" AND x."A" = ${artist}
+        )`);
+    }
+    if (q) {
+        // Samakan dengan `contains` Prisma: % dan _ di input dianggap karakter biasa
+        const pattern = `%${q.replace(/[\\%_]/g, '\\$&')}%`;
+        conditions.push(Prisma.sql`(
+            s."title" ILIKE ${pattern}
+            OR EXISTS (
+                SELECT 1 FROM "_ArtistToSong" x
+                JOIN "Artist" a ON a."id" = x."A"
+                WHERE x."B" = s."id" AND a."name" ILIKE ${pattern}
+            )
+        )`);
+    }
+
+    return conditions.length > 0 ? Prisma.join(conditions, ' AND ') : Prisma.sql`TRUE`;
+}
@@ -0,0 +1,34 @@
+import { Prisma } from '@prisma/client';
+
+// Helper: format durasi  243 → "4:03"
+export function formatDuration(sec: number): string {
+    const m = Math.floor(sec / 60);
+    const s = sec % 60;
+    return `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Include standar untuk daftar lagu (list, library, album, dll).
+ */
+export const SONG_SUMMARY_INCLUDE = {
+    artists: { select: { id: true, name: true, avatarUrl: true } },
+    album: { select: { id: true, title: true, coverUrl: true } },
+} satisfies Prisma.SongInclude;
+
+export type SongSummary = Prisma.SongGetPayload<{ include: typeof SONG_SUMMARY_INCLUDE }>;
+
+/**
+ * Bentuk lagu yang sama dengan item GET /songs.
+ */
+export function formatSongSummary(s: SongSummary) {
+    return {
+        id: s.id,
+        title: s.title,
+        durationSec: s.durationSec,
+        duration: formatDuration(s.durationSec),
+        coverUrl: s.coverUrl || s.album?.coverUrl || null,
+        genre: s.genre,
+        artists: s.artists,
+        album: s.album,
+    };
+}
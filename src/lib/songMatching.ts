@@ -0,0 +1,120 @@
+import { PrismaClient } from '@prisma/client';
+
+/**
+ * Normalisasi judul & artis untuk mencocokkan lagu dari sumber luar
+ * (hasil search Spotify/YouTube, file playlist import) dengan katalog.
+ */
+
+export function normalizeKey(value: string): string {
+    return value
+        .toLowerCase()
+        .replace(/\(.*?\)/g, ' ')
+        .replace(/\[.*?\]/g, ' ')
+        .replace(/feat\.?|ft\.?/g, ' ')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+export function normalizeArtists(value: string): string {
+    const raw = value
+        .replace(/\(.*?\)/g, ' ')
+        .replace(/\[.*?\]/g, ' ')
+        .replace(/feat\.?|ft\.?/gi, ' ')
+        .replace(/[^a-zA-Z0-9&xX, ]+/g, ' ');
+
+    const parts = raw
+        .split(/,|&| x | X | and /g)
+        .map((p) => normalizeKey(p))
+        .filter(Boolean)
+        .sort();
+
+    return parts.join(' ');
+}
+
+// normalizeKey versi SQL (regexp_replace Postgres), urutan langkahnya harus sama
+const TITLE_KEY_PATTERNS = ['\\(.*?\\)', '\\[.*?\\]', 'feat\\.?|ft\\.?', '[^a-z0-9]+'];
+
+/**
+ * Id lagu katalog yang judulnya (setelah normalizeKey) sama dengan salah satu `titles`.
+ * Dipakai sebelum buildSongIndex supaya import tidak perlu memuat seluruh tabel Song;
+ * pencocokan artis tetap lewat findSongCandidates pada kandidat ini.
+ */
+export async function findSongIdsByTitle(prisma: PrismaClient, titles: string[]): Promise<string[]> {
+    const keys = [...new Set(titles.map(t => normalizeKey(t || '')).filter(Boolean))];
+    if (keys.length === 0) return [];
+
+    const [parens, brackets, feat, separators] = TITLE_KEY_PATTERNS;
+    const rows = await prisma.$queryRaw<{ id: string }[]>`
+        SELECT "id" FROM "Song"
+        WHERE btrim(regexp_replace(regexp_replace(regexp_replace(regexp_replace(
+                  lower("title"),
+                  ${parens}, ' ', 'g'),
+                  ${brackets}, ' ', 'g'),
+                  ${feat}, ' ', 'g'),
+                  ${separators}, ' ', 'g')) = ANY(${keys})`;
+    return rows.map(r => r.id);
+}
+
+export interface CatalogSong {
+    id: string;
+    title: string;
+    artists: { name: string }[];
+}
+
+export interface SongIndex {
+    byKey: Map<string, string[]>;
+    byTitle: Map<string, { id: string; tokens: Set<string> }[]>;
+}
+
+/**
+ * Index katalog: kunci persis `judul|artis` dan daftar lagu per judul
+ * (untuk pencocokan longgar berdasarkan token nama artis).
+ */
+export function buildSongIndex(songs: CatalogSong[]): SongIndex {
+    const byKey = new Map<string, string[]>();
+    const byTitle = new Map<string, { id: string; tokens: Set<string> }[]>();
+
+    for (const song of songs) {
+        const title = normalizeKey(song.title || '');
+        const artists = normalizeArtists(song.artists?.map(a => a.name).join(' ') || '');
+        const key = `${title}|${artists}`;
+
+        if (!byKey.has(key)) byKey.set(key, []);
+        byKey.get(key)!.push(song.id);
+
+        if (!byTitle.has(title)) byTitle.set(title, []);
+        byTitle.get(title)!.push({ id: song.id, tokens: new Set(artists.split(' ').filter(Boolean)) });
+    }
+
+    return { byKey, byTitle };
+}
+
+/**
+ * Cari kandidat lagu untuk satu entri. Urutan prioritas:
+ * 1. judul + artis persis sama
+ * 2. judul sama dan minimal satu token nama artis sama
+ * 3. judul sama, jika entri tidak membawa artis sama sekali (hanya bila `allowTitleOnly`)
+ */
+export function findSongCandidates(
+    index: SongIndex,
+    title: string,
+    artists: string | string[],
+    allowTitleOnly = false,
+): string[] {
+    const normTitle = normalizeKey(title || '');
+    const rawArtists = Array.isArray(artists) ? artists.join(' ') : String(artists || '');
+    const normArtists = normalizeArtists(rawArtists);
+
+    const exact = index.byKey.get(`${normTitle}|${normArtists}`);
+    if (exact && exact.length > 0) return exact;
+
+    const sameTitle = index.byTitle.get(normTitle);
+    if (!sameTitle) return [];
+
+    const incomingTokens = normArtists.split(' ').filter(Boolean);
+    if (incomingTokens.length === 0) return allowTitleOnly ? sameTitle.map(s => s.id) : [];
+
+    return sameTitle
+        .filter(s => incomingTokens.some(t => s.tokens.has(t)))
+        .map(s => s.id);
+}
@@ -0,0 +1,189 @@
+/**
+ * Menggunakan AI (OpenRouter) untuk membersihkan judul YouTube menjadi Judul & Artis yang rapi.
+ */
+export async function cleanMetadataWithAI(rawTitle: string): Promise<{ title: string; artists: string[] }> {
+    const apiKey = process.env.OPENROUTER_API_KEY;
+    if (!apiKey) {
+        console.warn('[AI] OPENROUTER_API_KEY tidak ditemukan, menggunakan parser standar.');
+        const artists = parseArtists(rawTitle);
+        return {
+            title: rawTitle.split('-').pop()?.trim() || rawTitle,
+            artists: artists.length > 0 ? artists : [rawTitle.split('-')[0].trim()]
+        };
+    }
+
+    try {
+        console.log('[AI] Step 1: Initial cleanup for:', rawTitle);
+        const step1Response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
+            method: "POST",
+            headers: {
+                "Authorization": `Bearer ${apiKey}`,
+                "Content-Type": "application/json",
+                "HTTP-Referer": "http://localhost:3000",
+                "X-Title": "Spotify-Clone Metadata Cleaner"
+            },
+            body: JSON.stringify({
+                model: "z-ai/glm-4.5-air:free",
+                messages: [
+                    {
+                        role: "system",
+                        content: "You are a professional music librarian. Task: Extract clean song title and list all artist names from a YouTube title. Rules: 1. REMOVE all noise like 'Official Video', 'Music Video', 'LYRICS', 'Lirik', '4K', 'HD', '(...)', '[...]'. 2. DO NOT include the artist name in the 'title' field. 3. Response MUST be ONLY JSON: { \"title\": \"Clean Title\", \"artists\": [\"Artist 1\", \"Artist 2\"] }"
+                    },
+                    { role: "user", content: `YouTube Title: "${rawTitle}"` }
+                ]
+            })
+        });
+
+        if (!step1Response.ok) {
+            const errBody = await step1Response.text();
+            throw new Error(`Step 1 Error: ${step1Response.status} - ${errBody}`);
+        }
+
+        const step1Data = await step1Response.json() as any;
+        const step1Content = step1Data.choices?.[0]?.message?.content;
+        console.log('[AI] Step 1 Output:', step1Content);
+
+        const jsonMatch1 = step1Content?.match(/\{[\s\S]*\}/);
+        if (!jsonMatch1) throw new Error('Gagal memproses JSON Step 1.');
+        const initialResult = JSON.parse(jsonMatch1[0]);
+
+        // Step 2: Refinement / Double Check
+        console.log('[AI] Step 2: Refinement for:', initialResult.title);
+        const step2Response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
+            method: "POST",
+            headers: {
+                "Authorization": `Bearer ${apiKey}`,
+                "Content-Type": "application/json",
+                "HTTP-Referer": "http://localhost:3000",
+                "X-Title": "Spotify-Clone Metadata Cleaner"
+            },
+            body: JSON.stringify({
+                model: "z-ai/glm-4.5-air:free",
+                messages: [
+                    {
+                        role: "system",
+                        content: "You are a verification AI. Review this metadata. Is the 'title' still containing artist names, redundant words, or brackets? If yes, clean it further. Response MUST be ONLY JSON: { \"title\": \"Final Clean Title\", \"artists\": [\"Final Artists\"] }"
+                    },
+                    {
+                        role: "user",
+                        content: `Input: ${JSON.stringify(initialResult)}\nOriginal YouTube Title: "${rawTitle}"`
+                    }
+                ]
+            })
+        });
+
+        const step2Data = await step2Response.json() as any;
+        const step2Content = step2Data.choices?.[0]?.message?.content;
+        console.log('[AI] Step 2 Output:', step2Content);
+
+        const jsonMatch2 = step2Content?.match(/\{[\s\S]*\}/);
+        if (jsonMatch2) {
+            const finalResult = JSON.parse(jsonMatch2[0]);
+            return {
+                title: finalResult.title || initialResult.title,
+                artists: Array.isArray(finalResult.artists) ? finalResult.artists : (Array.isArray(initialResult.artists) ? initialResult.artists : [rawTitle.split('-')[0].trim()])
+            };
+        }
+
+        return {
+            title: initialResult.title || rawTitle.split('-').pop()?.trim() || rawTitle,
+            artists: Array.isArray(initialResult.artists) ? initialResult.artists : [rawTitle.split('-')[0].trim()]
+        };
+    } catch (err: any) {
+        console.error('[AI Cleanup Error]', err.message);
+        const artists = parseArtists(rawTitle);
+        const fallbackTitle = rawTitle.split('-').pop()?.trim() || rawTitle;
+        // Basic local cleanup for fallback
+        const cleanTitle = fallbackTitle.replace(/\(Official.*?\)|\[Official.*?\]|\(Lyrics.*?\)|\[Lyrics.*?\]|Official Music Video|Official Video|Music Video|LYRICS/gi, '').trim();
+        return {
+            title: cleanTitle,
+            artists: artists.length > 0 ? artists : [rawTitle.split('-')[0].trim()]
+        };
+    }
+}
+
+export function parseArtists(title: string): string[] {
+    // Basic parser for "Artist - Title" or "Artist1 & Artist2 - Title"
+    // Also handles "Artist1, Artist2 - Title"
+    const dashIndex = title.indexOf('-');
+    if (dashIndex === -1) return [];
+
+    let artistPart = title.substring(0, dashIndex).trim();
+
+    // Remove common prefixes like "Official Video", "(Official Music Video)", etc if they are somehow at start?
+    // Unlikely for artist part, but let's just split by separators
+    const separators = [/ & /g, / , /g, /,/g, / and /g, / x /g, / X /g, / FEAT /gi, / FT /gi];
+    let artists = [artistPart];
+
+    for (const sep of separators) {
+        artists = artists.flatMap(a => a.split(sep));
+    }
+
+    return artists.map(a => a.trim()).filter(a => a.length > 0);
+}
+
+/**
+ * Menggunakan Spotify API untuk memperkaya data artis (foto & genre).
+ */
+let spotifyAccessToken: string | null = null;
+let spotifyTokenExpiry = 0;
+
+export async function getSpotifyToken(): Promise<string | null> {
+    const clientId = process.env.SPOTIFY_CLIENT_ID;
+    const clientSecret = process.env.SPOTIFY_CLIENT_SECRET;
+
+    if (!clientId || !clientSecret) {
+        console.warn('[Spotify] SPOTIFY_CLIENT_ID/SECRET tidak ditemukan.');
+        return null;
+    }
+
+    if (spotifyAccessToken && Date.now() < spotifyTokenExpiry) {
+        return spotifyAccessToken;
+    }
+
+    try {
+        const auth = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
+        const res = await fetch('https://accounts.spotify.com/api/token', {
+            method: 'POST',
+            headers: {
+                'Authorization': `Basic ${auth}`,
+                'Content-Type': 'application/x-www-form-urlencoded',
+            },
+            body: 'grant_type=client_credentials'
+        });
+
+        const data = await res.json() as any;
+        if (data.access_token) {
+            spotifyAccessToken = data.access_token;
+            spotifyTokenExpiry = Date.now() + (data.expires_in * 1000) - 60000;
+            return spotifyAccessToken;
+        }
+    } catch (err: any) {
+        console.error('[Spotify Auth Error]', err.message);
+    }
+    return null;
+}
+
+export async function enrichArtistMetadata(name: string): Promise<{ avatarUrl: string | null; genres: string[] }> {
+    const token = await getSpotifyToken();
+    if (!token) return { avatarUrl: null, genres: [] };
+
+    try {
+        const res = await fetch(`https://api.spotify.com/v1/search?q=${encodeURIComponent(name)}&type=artist&limit=1`, {
+            headers: { 'Authorization': `Bearer ${token}` }
+        });
+
+        const data = await res.json() as any;
+        const artist = data.artists?.items?.[0];
+
+        if (artist) {
+            return {
+                avatarUrl: artist.images?.[0]?.url || null,
+                genres: artist.genres || []
+            };
+        }
+    } catch (err: any) {
+        console.error(`[Spotify Enrich Error] ${name}:`, err.message);
+    }
+    return { avatarUrl: null, genres: [] };
+}
@@ -0,0 +1,109 @@
+import { Prisma, PrismaClient, Song } from '@prisma/client';
+
+/**
+ * Antrian pemrosesan per lagu yang dijalankan worker (kolom <queue>Status/Attempts/Error di Song):
+ *   hls      → transcode HLS (src/lib/transcode.ts)
+ *   loudness → analisis loudness (src/lib/loudness.ts)
+ *   waveform → peak waveform (src/lib/waveform.ts)
+ *
+ * Status null berarti lagu belum pernah dijadwalkan (lagu lama sebelum fitur ada).
+ *
+ * Lagu RUNNING dengan <queue>LockedAt yang lebih tua dari STALE_LOCK_MS antrian dianggap ditinggal
+ * dan diambil ulang. Selama memproses, worker memperpanjang lock (holdQueueLock) dan hanya menulis
+ * hasil selama lock masih miliknya.
+ */
+
+export const SONG_QUEUES = ['hls', 'loudness', 'waveform'] as const;
+export type SongQueue = typeof SONG_QUEUES[number];
+
+const QUEUE_FIELDS = {
+    hls: { status: 'hlsStatus', attempts: 'hlsAttempts', error: 'hlsError', lockedAt: 'hlsLockedAt' },
+    loudness: { status: 'loudnessStatus', attempts: 'loudnessAttempts', error: 'loudnessError', lockedAt: 'loudnessLockedAt' },
+    waveform: { status: 'waveformStatus', attempts: 'waveformAttempts', error: 'waveformError', lockedAt: 'waveformLockedAt' },
+} as const;
+
+// Jauh di bawah STALE_LOCK_MS semua antrian (15-30 menit)
+const LOCK_RENEW_MS = 60_000;
+
+export interface BackfillOptions {
+    songIds?: string[];
+    includeFailed?: boolean;
+}
+
+/**
+ * Lagu yang diantrikan ulang oleh backfill:
+ *   songIds diisi → lagu tersebut, kecuali yang sedang RUNNING (status null ikut, karena
+ *                   `{ not: 'RUNNING' }` di SQL tidak cocok dengan NULL)
+ *   tanpa songIds → semua yang belum pernah dijadwalkan (+ FAILED jika includeFailed)
+ */
+export function backfillWhere(queue: SongQueue, { songIds, includeFailed }: BackfillOptions): Prisma.SongWhereInput {
+    const { status } = QUEUE_FIELDS[queue];
+
+    if (songIds) {
+        return { id: { in: songIds }, OR: [{ [status]: null }, { [status]: { not: 'RUNNING' } }] };
+    }
+    return { OR: [{ [status]: null }, ...(includeFailed ? [{ [status]: 'FAILED' }] : [])] };
+}
+
+/**
+ * Set status PENDING (attempt & error direset) untuk lagu yang cocok dengan backfillWhere.
+ * Return jumlah lagu yang diantrikan.
+ */
+export async function queueSongBackfill(prisma: PrismaClient, queue: SongQueue, options: BackfillOptions): Promise<number> {
+    const { status, attempts, error } = QUEUE_FIELDS[queue];
+    const { count } = await prisma.song.updateMany({
+        where: backfillWhere(queue, options),
+        data: { [status]: 'PENDING', [attempts]: 0, [error]: null },
+    });
+    return count;
+}
+
+export interface QueueLock {
+    // Filter lagu yang masih dipegang worker ini; pakai untuk update hasil (updateMany)
+    where(): Prisma.SongWhereInput;
+    // Hentikan perpanjangan lock. Return false jika lock sudah diambil worker lain.
+    release(): Promise<boolean>;
+}
+
+/**
+ * Pegang lock lagu yang baru di-claim: <queue>LockedAt diperbarui tiap LOCK_RENEW_MS selama
+ * masih RUNNING dengan nilai lock yang sama. Jika lock hilang (diambil ulang karena dianggap macet),
+ * perpanjangan berhenti dan where() tidak lagi cocok, jadi hasil worker ini tidak menimpa
+ * hasil worker lain.
+ */
+export function holdQueueLock(prisma: PrismaClient, queue: SongQueue, song: Song): QueueLock {
+    const { status, lockedAt } = QUEUE_FIELDS[queue];
+    let current = song[lockedAt];
+    let owned = current !== null;
+    let pending: Promise<void> = Promise.resolve();
+
+    const where = (): Prisma.SongWhereInput => ({ id: song.id, [status]: 'RUNNING', [lockedAt]: current });
+
+    const renew = () => {
+        pending = pending.then(async () => {
+            if (!owned) return;
+            const next = new Date();
+            try {
+                const { count } = await prisma.song.updateMany({ where: where(), data: { [lockedAt]: next } });
+                if (count === 1) current = next;
+                else owned = false;
+            } catch (err: any) {
+                // Gagal sementara (mis. koneksi DB): coba lagi di interval berikutnya
+                console.error(`[${queue} ${song.id}] Gagal memperpanjang lock:`, err?.message || err);
+            }
+        });
+        return pending;
+    };
+
+    const timer = setInterval(renew, LOCK_RENEW_MS);
+    timer.unref();
+
+    return {
+        where,
+        async release() {
+            clearInterval(timer);
+            await renew();
+            return owned;
+        },
+    };
+}
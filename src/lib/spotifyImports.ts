@@ -0,0 +1,152 @@
+import { Prisma, PrismaClient, SpotifyImportTrack } from '@prisma/client';
+import { insertPlaylistSongs, lockPlaylist } from './playlistItems';
+
+/**
+ * Bulk import album / playlist Spotify (POST /songs/spotify-import).
+ *
+ * Import menyimpan daftar track sesuai urutan aslinya (SpotifyImportTrack). Tiap track menunjuk
+ * lagu yang sudah ada di katalog, atau job ingest yang akan menghasilkannya: job baru dari import
+ * ini maupun job dari import lain yang masih berjalan. Setiap job selesai, syncSpotifyImport
+ * memasukkan lagu yang sudah tersedia ke album & playlist import:
+ *   - album: lagu yang belum punya album diberi albumId + trackNumber
+ *   - playlist: lagu disisipkan setelah track sebelumnya yang sudah ada di playlist, jadi urutannya
+ *     mengikuti urutan track, bukan urutan job selesai
+ *
+ * Track yang sudah dimasukkan (placedAt) tidak disentuh lagi, jadi lagu yang dihapus user dari
+ * playlist tidak muncul kembali. Sync aman diulang kapan saja.
+ */
+
+export interface ImportTrackInput {
+    trackNumber: number;
+    songId?: string | null;
+    jobId?: string | null;
+}
+
+/**
+ * Buat import beserta track-nya (urutan `tracks` = urutan asli), lalu langsung masukkan
+ * lagu yang sudah ada. Dipanggil di dalam transaksi yang sama dengan pembuatan playlist & job.
+ */
+export async function createSpotifyImport(
+    tx: Prisma.TransactionClient,
+    data: { albumId: string | null; playlistId: string | null; createdById: string | null },
+    tracks: ImportTrackInput[],
+): Promise<string> {
+    const created = await tx.spotifyImport.create({ data, select: { id: true } });
+    await tx.spotifyImportTrack.createMany({
+        data: tracks.map((t, i) => ({
+            importId: created.id,
+            position: i + 1,
+            trackNumber: t.trackNumber,
+            songId: t.songId ?? null,
+            jobId: t.jobId ?? null,
+        })),
+    });
+    await syncSpotifyImport(tx, created.id);
+    return created.id;
+}
+
+/**
+ * Sisipkan lagu track yang belum ada di playlist, per rangkaian track berurutan:
+ * setelah track sebelumnya yang ada di playlist, atau sebelum track berikutnya, atau di akhir.
+ */
+async function placeInPlaylist(
+    tx: Prisma.TransactionClient,
+    playlistId: string,
+    tracks: SpotifyImportTrack[],
+    addedById: string,
+): Promise<void> {
+    const items = await tx.playlistItem.findMany({
+        where: { playlistId, songId: { in: tracks.map(t => t.songId!) } },
+        select: { songId: true, position: true },
+    });
+    const positions = new Map(items.map(i => [i.songId, i.position]));
+    const missing = (t: SpotifyImportTrack) => !t.placedAt && !positions.has(t.songId!);
+
+    let i = 0;
+    while (i < tracks.length) {
+        if (!missing(tracks[i])) {
+            i++;
+            continue;
+        }
+        let end = i;
+        while (end < tracks.length && missing(tracks[end])) end++;
+
+        const before = tracks.slice(0, i).reverse().find(t => positions.has(t.songId!));
+        const after = tracks.slice(end).find(t => positions.has(t.songId!));
+        const position = before ? positions.get(before.songId!)! + 1 : after ? positions.get(after.songId!) : undefined;
+
+        const run = [...new Set(tracks.slice(i, end).map(t => t.songId!))];
+        const { added, insertAt } = await insertPlaylistSongs(tx, playlistId, run, addedById, position);
+        for (const [songId, p] of positions) {
+            if (p >= insertAt) positions.set(songId, p + added.length);
+        }
+        added.forEach((songId, n) => positions.set(songId, insertAt + n));
+        i = end;
+    }
+}
+
+/**
+ * Masukkan lagu import yang sudah tersedia ke album / playlist-nya. Return jumlah track yang dimasukkan.
+ * Harus dipanggil di dalam transaksi; baris import dikunci supaya sync bersamaan tidak bentrok.
+ */
+export async function syncSpotifyImport(tx: Prisma.TransactionClient, importId: string): Promise<number> {
+    await tx.$queryRaw`SELECT "id" FROM "SpotifyImport" WHERE "id" = ${importId} FOR UPDATE`;
+    const spotifyImport = await tx.spotifyImport.findUnique({
+        where: { id: importId },
+        include: { playlist: { select: { userId: true } } },
+    });
+    if (!spotifyImport) return 0;
+
+    // Lagu dari job yang sudah selesai, termasuk yang selesai sebelum import ini dibuat
+    await tx.$executeRaw`
+        UPDATE "SpotifyImportTrack" AS t
+        SET "songId" = j."songId"
+        FROM "IngestJob" AS j
+        WHERE t."importId" = ${importId} AND t."songId" IS NULL AND t."jobId" = j."id"
+          AND j."status" = 'DONE' AND j."songId" IS NOT NULL`;
+
+    const tracks = await tx.spotifyImportTrack.findMany({
+        where: { importId, songId: { not: null } },
+        orderBy: { position: 'asc' },
+    });
+    const pending = tracks.filter(t => !t.placedAt);
+    if (pending.length === 0) return 0;
+
+    if (spotifyImport.albumId) {
+        await tx.$executeRaw`
+            UPDATE "Song" AS s
+            SET "albumId" = ${spotifyImport.albumId}, "trackNumber" = t."trackNumber"
+            FROM "SpotifyImportTrack" AS t
+            WHERE t."importId" = ${importId} AND t."placedAt" IS NULL
+              AND t."songId" = s."id" AND s."albumId" IS NULL`;
+    }
+
+    if (spotifyImport.playlistId && spotifyImport.playlist) {
+        await lockPlaylist(tx, spotifyImport.playlistId);
+        const addedById = spotifyImport.createdById ?? spotifyImport.playlist.userId;
+        await placeInPlaylist(tx, spotifyImport.playlistId, tracks, addedById);
+    }
+
+    await tx.spotifyImportTrack.updateMany({
+        where: { importId, position: { in: pending.map(t => t.position) } },
+        data: { placedAt: new Date() },
+    });
+    return pending.length;
+}
+
+/**
+ * Sync semua import yang menunggu hasil job ini (dipanggil worker setelah job DONE).
+ */
+export async function syncImportsForJob(prisma: PrismaClient, jobId: string): Promise<number> {
+    const rows = await prisma.spotifyImportTrack.findMany({
+        where: { jobId },
+        distinct: ['importId'],
+        select: { importId: true },
+    });
+
+    let placed = 0;
+    for (const { importId } of rows) {
+        placed += await prisma.$transaction(tx => syncSpotifyImport(tx, importId));
+    }
+    return placed;
+}
@@ -0,0 +1,92 @@
+import { ByteSource } from '../audioMetadata';
+import { createLocalDriver, LocalStorageDriver } from './local';
+import { createS3Driver } from './s3';
+import { StorageDriver } from './types';
+
+export * from './types';
+
+/**
+ * Storage aktif dipilih lewat env STORAGE_DRIVER:
+ *
+ *   STORAGE_DRIVER=r2     ← Cloudflare R2 (R2_ENDPOINT, R2_ACCESS_KEY_ID, R2_SECRET_ACCESS_KEY,
+ *                           R2_BUCKET_NAME, R2_PUBLIC_URL)
+ *   STORAGE_DRIVER=local  ← disk lokal (STORAGE_LOCAL_DIR, default .local-storage), signed URL
+ *                           dilayani Express sendiri di /files; tidak butuh jaringan.
+ *                           STORAGE_LOCAL_SECRET (kunci HMAC signed URL) wajib diisi
+ *
+ * Tanpa STORAGE_DRIVER: r2 jika R2_BUCKET_NAME diisi, selain itu local.
+ * Driver dibuat saat pertama dipakai; server & worker memanggil getStorage() saat start
+ * supaya konfigurasi yang salah langsung gagal.
+ */
+
+let activeDriver: StorageDriver | null = null;
+
+function createDriver(): StorageDriver {
+    const name = (process.env.STORAGE_DRIVER || (process.env.R2_BUCKET_NAME ? 'r2' : 'local')).toLowerCase();
+
+    if (name === 'r2' || name === 's3') {
+        return createS3Driver({
+            endpoint: process.env.R2_ENDPOINT,
+            accessKeyId: process.env.R2_ACCESS_KEY_ID as string,
+            secretAccessKey: process.env.R2_SECRET_ACCESS_KEY as string,
+            bucket: process.env.R2_BUCKET_NAME as string,
+            // Fallback ke pola pub-<endpoint> yang dulu dipakai upload-url
+            publicBaseUrl: process.env.R2_PUBLIC_URL || process.env.R2_ENDPOINT?.replace('https://', 'https://pub-') || '',
+        });
+    }
+
+    if (name === 'local') {
+        if (!process.env.STORAGE_LOCAL_SECRET) {
+            throw new Error('STORAGE_LOCAL_SECRET wajib diisi untuk STORAGE_DRIVER=local.');
+        }
+        return createLocalDriver({
+            root: process.env.STORAGE_LOCAL_DIR || '.local-storage',
+            baseUrl: process.env.STORAGE_LOCAL_BASE_URL || `http://localhost:${process.env.PORT || 3001}`,
+            secret: process.env.STORAGE_LOCAL_SECRET,
+        });
+    }
+
+    throw new Error(`Storage driver tidak dikenal: ${name}`);
+}
+
+export function getStorage(): StorageDriver {
+    if (!activeDriver) activeDriver = createDriver();
+    return activeDriver;
+}
+
+/**
+ * Ganti driver aktif (mis. dari test). Null → dibuat ulang dari env.
+ */
+export function setStorage(driver: StorageDriver | null): void {
+    activeDriver = driver;
+}
+
+export function getLocalStorage(): LocalStorageDriver | null {
+    const driver = getStorage();
+    return driver.name === 'local' ? driver as LocalStorageDriver : null;
+}
+
+/**
+ * Baca objek per rentang byte, untuk parser metadata audio yang hanya butuh
+ * header/tag tanpa mengunduh seluruh file.
+ */
+export async function storageByteSource(key: string, knownSize?: number): Promise<ByteSource> {
+    const storage = getStorage();
+    const size = knownSize ?? (await storage.head(key))?.size;
+    if (size === undefined) throw new Error(`Objek tidak ditemukan: ${key}`);
+
+    return {
+        size,
+        read: (offset, length) => storage.read(key, offset, Math.min(length, size - offset)),
+    };
+}
+
+/**
+ * Baca seluruh objek kecil (mis. playlist HLS). Null jika tidak ada.
+ */
+export async function readObject(key: string): Promise<Buffer | null> {
+    const storage = getStorage();
+    const object = await storage.head(key);
+    if (!object) return null;
+    return storage.read(key, 0, object.size);
+}
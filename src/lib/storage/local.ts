@@ -0,0 +1,187 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { PutOptions, StorageDriver, StoredObject } from './types';
+
+/**
+ * Driver storage di disk lokal untuk development / test tanpa Cloudflare (STORAGE_DRIVER=local).
+ *
+ * File disimpan di <root>/<key>, content type di <root>/.meta/<key>.json.
+ * Signed URL mengarah ke Express sendiri (src/routes/files.ts):
+ *   GET|PUT <baseUrl>/files/<key>?exp=<unix detik>&sig=<hmac>   (PUT juga membawa &ct=<content type>)
+ * Folder covers/ bisa dibaca tanpa signature, sama seperti bucket publik.
+ */
+
+export interface LocalDriverConfig {
+    root: string;
+    baseUrl: string;        // URL publik API, mis. http://localhost:3001
+    secret: string;         // kunci HMAC untuk signed URL
+}
+
+export interface LocalStorageDriver extends StorageDriver {
+    name: 'local';
+    filePath(key: string): string;
+    verifySignature(method: 'GET' | 'PUT', key: string, query: Record<string, any>): boolean;
+}
+
+const META_DIR = '.meta';
+export const PUBLIC_PREFIXES = ['covers/'];
+
+export class InvalidKeyError extends Error {
+    constructor() {
+        super('Object key tidak valid.');
+        this.name = 'InvalidKeyError';
+    }
+}
+
+/**
+ * Validasi key dari luar (URL /files/...). Express sudah men-decode %2F, jadi
+ * "covers/..%2Faudio/x.mp3" sampai di sini sebagai "covers/../audio/x.mp3": key seperti itu
+ * harus ditolak sebelum dicek terhadap PUBLIC_PREFIXES maupun diubah menjadi path.
+ */
+export function assertValidKey(key: string): void {
+    const segments = key.split('/');
+    if (
+        !key
+        || key.includes('\\')
+        || key.includes('\0')
+        || segments.some(s => s === '' || s === '.' || s === '..')
+        || segments[0] === META_DIR
+    ) {
+        throw new InvalidKeyError();
+    }
+}
+
+export function createLocalDriver(config: LocalDriverConfig): LocalStorageDriver {
+    const root = path.resolve(config.root);
+    const baseUrl = config.baseUrl.replace(/\/$/, '');
+
+    // Tolak key yang keluar dari root (../, path absolut) atau menyentuh folder metadata
+    function filePath(key: string): string {
+        assertValidKey(key);
+        const resolved = path.resolve(root, key);
+        if (!resolved.startsWith(root + path.sep)) throw new InvalidKeyError();
+        return resolved;
+    }
+
+    function metaPath(key: string): string {
+        filePath(key);
+        return path.join(root, META_DIR, `${key}.json`);
+    }
+
+    function sign(method: string, key: string, exp: number, contentType = ''): string {
+        return crypto.createHmac('sha256', config.secret)
+            .update(`${method}\n${key}\n${exp}\n${contentType}`)
+            .digest('base64url');
+    }
+
+    function fileUrl(key: string): string {
+        return `${baseUrl}/files/${key.split('/').map(encodeURIComponent).join('/')}`;
+    }
+
+    async function* walk(dir: string): AsyncIterable<string> {
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(dir, { withFileTypes: true });
+        } catch (err: any) {
+            if (err?.code === 'ENOENT') return;
+            throw err;
+        }
+        for (const entry of entries) {
+            const full = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                if (dir === root && entry.name === META_DIR) continue;
+                yield* walk(full);
+            } else if (!entry.name.includes('.upload-')) {
+                yield full;
+            }
+        }
+    }
+
+    async function head(key: string): Promise<StoredObject | null> {
+        try {
+            const stat = await fs.promises.stat(filePath(key));
+            const meta = await fs.promises.readFile(metaPath(key), 'utf8').then(JSON.parse).catch(() => ({}));
+            return { key, size: stat.size, contentType: meta.contentType ?? null, lastModified: stat.mtime };
+        } catch (err: any) {
+            if (err?.code === 'ENOENT') return null;
+            throw err;
+        }
+    }
+
+    return {
+        name: 'local',
+        filePath,
+        head,
+
+        async put(key: string, body: Buffer | Readable, options: PutOptions): Promise<void> {
+            const target = filePath(key);
+            const meta = metaPath(key);
+            await fs.promises.mkdir(path.dirname(target), { recursive: true });
+            await fs.promises.mkdir(path.dirname(meta), { recursive: true });
+
+            // Tulis ke file sementara lalu rename, supaya pembaca tidak melihat file setengah jadi
+            const tmp = `${target}.upload-${crypto.randomBytes(4).toString('hex')}`;
+            try {
+                await pipeline(Buffer.isBuffer(body) ? Readable.from([body]) : body, fs.createWriteStream(tmp));
+                await fs.promises.rename(tmp, target);
+            } catch (err) {
+                await fs.promises.rm(tmp, { force: true });
+                throw err;
+            }
+            await fs.promises.writeFile(meta, JSON.stringify({ contentType: options.contentType }));
+        },
+
+        async read(key: string, offset: number, length: number): Promise<Buffer> {
+            const handle = await fs.promises.open(filePath(key), 'r');
+            try {
+                const buf = Buffer.alloc(Math.max(length, 0));
+                const { bytesRead } = await handle.read(buf, 0, buf.length, offset);
+                return buf.subarray(0, bytesRead);
+            } finally {
+                await handle.close();
+            }
+        },
+
+        async delete(key: string): Promise<void> {
+            await fs.promises.rm(filePath(key), { force: true });
+            await fs.promises.rm(metaPath(key), { force: true });
+        },
+
+        async *list(prefix = ''): AsyncIterable<StoredObject> {
+            for await (const full of walk(root)) {
+                const key = path.relative(root, full).split(path.sep).join('/');
+                if (!key.startsWith(prefix)) continue;
+                const object = await head(key);
+                if (object) yield object;
+            }
+        },
+
+        async signedGetUrl(key: string, expiresInSec: number): Promise<string> {
+            filePath(key);
+            const exp = Math.floor(Date.now() / 1000) + expiresInSec;
+            return `${fileUrl(key)}?exp=${exp}&sig=${sign('GET', key, exp)}`;
+        },
+
+        async signedPutUrl(key: string, contentType: string, expiresInSec: number): Promise<string> {
+            filePath(key);
+            const exp = Math.floor(Date.now() / 1000) + expiresInSec;
+            return `${fileUrl(key)}?exp=${exp}&ct=${encodeURIComponent(contentType)}&sig=${sign('PUT', key, exp, contentType)}`;
+        },
+
+        publicUrl(key: string): string {
+            return fileUrl(key);
+        },
+
+        verifySignature(method: 'GET' | 'PUT', key: string, query: Record<string, any>): boolean {
+            const exp = Number(query.exp);
+            if (!Number.isInteger(exp) || exp < Date.now() / 1000 || typeof query.sig !== 'string') return false;
+
+            const expected = Buffer.from(sign(method, key, exp, method === 'PUT' ? String(query.ct ?? '') : ''));
+            const actual = Buffer.from(query.sig);
+            return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+        },
+    };
+}
@@ -0,0 +1,104 @@
+import { Readable } from 'stream';
+import {
+    DeleteObjectCommand,
+    GetObjectCommand,
+    HeadObjectCommand,
+    ListObjectsV2Command,
+    PutObjectCommand,
+    S3Client,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { PutOptions, StorageDriver, StoredObject } from './types';
+
+/**
+ * Driver S3-compatible. Dipakai untuk Cloudflare R2 (endpoint berbeda dari AWS S3,
+ * region "auto"), tapi juga jalan untuk S3 / MinIO.
+ */
+
+export interface S3DriverConfig {
+    endpoint?: string;          // https://<ACCOUNT_ID>.r2.cloudflarestorage.com
+    region?: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    bucket: string;
+    publicBaseUrl: string;      // domain publik bucket, untuk URL cover
+}
+
+export function createS3Driver(config: S3DriverConfig): StorageDriver {
+    const client = new S3Client({
+        region: config.region || 'auto',
+        endpoint: config.endpoint,
+        credentials: {
+            accessKeyId: config.accessKeyId,
+            secretAccessKey: config.secretAccessKey,
+        },
+    });
+    const Bucket = config.bucket;
+
+    return {
+        name: 's3',
+
+        async put(key: string, body: Buffer | Readable, options: PutOptions): Promise<void> {
+            await client.send(new PutObjectCommand({
+                Bucket,
+                Key: key,
+                Body: body,
+                ContentType: options.contentType,
+                ...(options.contentLength ? { ContentLength: options.contentLength } : {}),
+            }));
+        },
+
+        async head(key: string): Promise<StoredObject | null> {
+            try {
+                const head = await client.send(new HeadObjectCommand({ Bucket, Key: key }));
+                return {
+                    key,
+                    size: head.ContentLength ?? 0,
+                    contentType: head.ContentType ?? null,
+                    lastModified: head.LastModified ?? new Date(),
+                };
+            } catch (err: any) {
+                if (err?.name === 'NotFound' || err?.$metadata?.httpStatusCode === 404) return null;
+                throw err;
+            }
+        },
+
+        async read(key: string, offset: number, length: number): Promise<Buffer> {
+            if (length <= 0) return Buffer.alloc(0);
+            const res = await client.send(new GetObjectCommand({
+                Bucket,
+                Key: key,
+                Range: `bytes=${offset}-${offset + length - 1}`,
+            }));
+            return Buffer.from(await res.Body!.transformToByteArray());
+        },
+
+        async delete(key: string): Promise<void> {
+            await client.send(new DeleteObjectCommand({ Bucket, Key: key }));
+        },
+
+        async *list(prefix?: string): AsyncIterable<StoredObject> {
+            let token: string | undefined;
+            do {
+                const page = await client.send(new ListObjectsV2Command({ Bucket, Prefix: prefix, ContinuationToken: token }));
+                for (const obj of page.Contents || []) {
+                    if (!obj.Key) continue;
+                    yield { key: obj.Key, size: obj.Size ?? 0, contentType: null, lastModified: obj.LastModified ?? new Date() };
+                }
+                token = page.IsTruncated ? page.NextContinuationToken : undefined;
+            } while (token);
+        },
+
+        signedGetUrl(key: string, expiresInSec: number): Promise<string> {
+            return getSignedUrl(client, new GetObjectCommand({ Bucket, Key: key }), { expiresIn: expiresInSec });
+        },
+
+        signedPutUrl(key: string, contentType: string, expiresInSec: number): Promise<string> {
+            return getSignedUrl(client, new PutObjectCommand({ Bucket, Key: key, ContentType: contentType }), { expiresIn: expiresInSec });
+        },
+
+        publicUrl(key: string): string {
+            return `${config.publicBaseUrl.replace(/\/$/, '')}/${key}`;
+        },
+    };
+}
@@ -0,0 +1,29 @@
+import { Readable } from 'stream';
+
+export interface StoredObject {
+    key: string;
+    size: number;
+    contentType: string | null;    // null jika driver tidak tahu (mis. hasil list S3)
+    lastModified: Date;
+}
+
+export interface PutOptions {
+    contentType: string;
+    contentLength?: number | null;
+}
+
+/**
+ * Kontrak storage file (audio, cover). Key selalu berupa path relatif
+ * seperti "audio/<id>-judul.mp3" atau "covers/<id>.jpg".
+ */
+export interface StorageDriver {
+    name: string;
+    put(key: string, body: Buffer | Readable, options: PutOptions): Promise<void>;
+    head(key: string): Promise<StoredObject | null>;                // null jika tidak ada
+    read(key: string, offset: number, length: number): Promise<Buffer>;
+    delete(key: string): Promise<void>;
+    list(prefix?: string): AsyncIterable<StoredObject>;
+    signedGetUrl(key: string, expiresInSec: number): Promise<string>;
+    signedPutUrl(key: string, contentType: string, expiresInSec: number): Promise<string>;
+    publicUrl(key: string): string;                                 // untuk cover (folder publik)
+}
@@ -0,0 +1,273 @@
+import { PrismaClient, StorageScan } from '@prisma/client';
+import { getStorage } from './storage';
+import { RUNNING_STATUSES } from './ingestJobs';
+import { hlsPrefix } from './hls';
+
+/**
+ * Rekonsiliasi isi storage (bucket R2 / disk lokal) dengan database.
+ *
+ * Scan dibuat admin (POST /storage/scans) atau otomatis oleh worker tiap
+ * STORAGE_SCAN_INTERVAL_MS, lalu dijalankan worker:
+ *   1. list seluruh objek di bucket
+ *   2. cek tiap Song: audio ada? ukurannya sama dengan Song.audioSize?
+ *      → hasilnya di-cache di Song.storageStatus (dipakai GET /songs)
+ *   3. objek di audio/ & covers/ yang tidak dipakai apa pun dicatat sebagai
+ *      StorageOrphan; jika deleteOrphans, orphan yang sudah lewat grace period dihapus
+ */
+
+export const SCAN_STATUSES = ['QUEUED', 'RUNNING', 'DONE', 'FAILED'] as const;
+export type ScanStatus = typeof SCAN_STATUSES[number];
+
+export const STORAGE_STATUSES = ['OK', 'MISSING', 'SIZE_MISMATCH'] as const;
+export type StorageStatus = typeof STORAGE_STATUSES[number];
+
+export const DEFAULT_GRACE_HOURS = 7 * 24;
+
+// Hanya prefix ini yang dikelola aplikasi; objek lain di bucket tidak disentuh
+const MANAGED_PREFIXES = ['audio/', 'covers/'];
+// Jumlah maksimum entri per kategori yang disimpan di report
+const REPORT_LIMIT = 200;
+// Scan RUNNING selama ini dianggap ditinggal worker yang mati
+const STALE_SCAN_MS = 2 * 60 * 60_000;
+const UPDATE_CHUNK = 1000;
+
+interface BucketObject {
+    size: number;
+    lastModified: Date;
+}
+
+export class ScanInProgressError extends Error {
+    scan: StorageScan;
+
+    constructor(scan: StorageScan) {
+        super('Masih ada scan storage yang berjalan.');
+        this.name = 'ScanInProgressError';
+        this.scan = scan;
+    }
+}
+
+/**
+ * Ambil object key dari URL cover publik bucket ini. URL luar (Spotify, YouTube) → null.
+ */
+export function coverKeyFromUrl(url: string | null): string | null {
+    if (!url) return null;
+    const base = getStorage().publicUrl('');
+    if (!url.startsWith(base)) return null;
+    return decodeURIComponent(url.slice(base.length).split('?')[0]) || null;
+}
+
+async function listBucket(): Promise<Map<string, BucketObject>> {
+    const objects = new Map<string, BucketObject>();
+    for await (const obj of getStorage().list()) {
+        objects.set(obj.key, { size: obj.size, lastModified: obj.lastModified });
+    }
+    return objects;
+}
+
+// Semua key yang sedang dipakai atau sedang dalam proses upload / ingest.
+// Dibaca setelah list bucket supaya lagu yang baru dibuat tidak dianggap orphan.
+async function collectReferencedKeys(prisma: PrismaClient): Promise<Set<string>> {
+    const [songs, albums, playlists, artists, users, uploads, jobs] = await Promise.all([
+        prisma.song.findMany({ select: { audioKey: true, coverUrl: true } }),
+        prisma.album.findMany({ where: { coverUrl: { not: null } }, select: { coverUrl: true } }),
+        prisma.playlist.findMany({ where: { coverUrl: { not: null } }, select: { coverUrl: true } }),
+        prisma.artist.findMany({ where: { avatarUrl: { not: null } }, select: { avatarUrl: true } }),
+        prisma.user.findMany({ where: { avatarUrl: { not: null } }, select: { avatarUrl: true } }),
+        prisma.upload.findMany({ where: { finalizedAt: null }, select: { objectKey: true } }),
+        prisma.ingestJob.findMany({ where: { status: { in: RUNNING_STATUSES }, audioKey: { not: null } }, select: { audioKey: true } }),
+    ]);
+
+    const keys = new Set<string>(songs.map(s => s.audioKey));
+    for (const url of [
+        ...songs.map(s => s.coverUrl),
+        ...albums.map(a => a.coverUrl),
+        ...playlists.map(p => p.coverUrl),
+        ...artists.map(a => a.avatarUrl),
+        ...users.map(u => u.avatarUrl),
+    ]) {
+        const key = coverKeyFromUrl(url);
+        if (key) keys.add(key);
+    }
+    for (const u of uploads) keys.add(u.objectKey);
+    for (const j of jobs) keys.add(j.audioKey!);
+    return keys;
+}
+
+async function updateStatuses(prisma: PrismaClient, ids: string[], status: StorageStatus, checkedAt: Date): Promise<void> {
+    for (let i = 0; i < ids.length; i += UPDATE_CHUNK) {
+        await prisma.song.updateMany({
+            where: { id: { in: ids.slice(i, i + UPDATE_CHUNK) } },
+            data: { storageStatus: status, storageCheckedAt: checkedAt },
+        });
+    }
+}
+
+/**
+ * Antrikan scan baru. Unique partial index "StorageScan_single_active_key" menjamin hanya ada
+ * satu scan QUEUED/RUNNING, jadi request bersamaan tidak bisa membuat dua scan sekaligus.
+ */
+export async function enqueueStorageScan(
+    prisma: PrismaClient,
+    options: { deleteOrphans?: boolean; graceHours?: number },
+    createdById: string | null,
+): Promise<StorageScan> {
+    try {
+        return await prisma.storageScan.create({
+            data: {
+                deleteOrphans: options.deleteOrphans ?? false,
+                graceHours: options.graceHours ?? DEFAULT_GRACE_HOURS,
+                createdById,
+            },
+        });
+    } catch (err: any) {
+        if (err.code !== 'P2002') throw err;
+        const active = await prisma.storageScan.findFirst({ where: { status: { in: ['QUEUED', 'RUNNING'] } } });
+        if (!active) throw err;
+        throw new ScanInProgressError(active);
+    }
+}
+
+/**
+ * Ambil scan QUEUED tertua (atomic). Scan RUNNING yang macet ditandai FAILED dulu.
+ */
+export async function claimNextScan(prisma: PrismaClient): Promise<StorageScan | null> {
+    await prisma.storageScan.updateMany({
+        where: { status: 'RUNNING', startedAt: { lt: new Date(Date.now() - STALE_SCAN_MS) } },
+        data: { status: 'FAILED', error: 'Scan ditinggal worker.', finishedAt: new Date() },
+    });
+
+    const next = await prisma.storageScan.findFirst({ where: { status: 'QUEUED' }, orderBy: { createdAt: 'asc' } });
+    if (!next) return null;
+
+    const { count } = await prisma.storageScan.updateMany({
+        where: { id: next.id, status: 'QUEUED' },
+        data: { status: 'RUNNING', startedAt: new Date() },
+    });
+    return count === 0 ? null : { ...next, status: 'RUNNING', startedAt: new Date() };
+}
+
+/**
+ * Jalankan satu scan yang sudah di-claim. Tidak pernah melempar error:
+ * hasil akhirnya selalu tercatat di baris scan.
+ */
+export async function runStorageScan(prisma: PrismaClient, scan: StorageScan): Promise<void> {
+    const checkedAt = new Date();
+
+    try {
+        // Lagu diambil sebelum list bucket: lagu yang dibuat di tengah scan tidak salah dianggap MISSING
+        const songs = await prisma.song.findMany({ select: { id: true, title: true, audioKey: true, audioSize: true } });
+        const objects = await listBucket();
+
+        // 1. Cek audio tiap lagu
+        const ok: string[] = [];
+        const missing: { songId: string; title: string; audioKey: string }[] = [];
+        const sizeMismatches: { songId: string; title: string; audioKey: string; expected: number; actual: number }[] = [];
+
+        for (const song of songs) {
+            const obj = objects.get(song.audioKey);
+            if (!obj) {
+                missing.push({ songId: song.id, title: song.title, audioKey: song.audioKey });
+            } else if (song.audioSize !== null && song.audioSize !== obj.size) {
+                sizeMismatches.push({ songId: song.id, title: song.title, audioKey: song.audioKey, expected: song.audioSize, actual: obj.size });
+            } else {
+                ok.push(song.id);
+                // Lagu lama belum punya ukuran acuan: isi dari bucket
+                if (song.audioSize === null) {
+                    await prisma.song.update({ where: { id: song.id }, data: { audioSize: obj.size } });
+                }
+            }
+        }
+
+        await updateStatuses(prisma, ok, 'OK', checkedAt);
+        await updateStatuses(prisma, missing.map(m => m.songId), 'MISSING', checkedAt);
+        await updateStatuses(prisma, sizeMismatches.map(m => m.songId), 'SIZE_MISMATCH', checkedAt);
+
+        // 2. Orphan: objek yang dikelola aplikasi tapi tidak direferensikan
+        const referenced = await collectReferencedKeys(prisma);
+        // File HLS (<audio>.hls/...) dipakai selama file audio asalnya masih dipakai
+        const hlsPrefixes = new Set([...referenced].map(hlsPrefix));
+        const isReferenced = (key: string) => {
+            const idx = key.indexOf('.hls/');
+            return referenced.has(key) || (idx !== -1 && hlsPrefixes.has(key.slice(0, idx + '.hls/'.length)));
+        };
+        const orphanKeys = [...objects.keys()].filter(key =>
+            MANAGED_PREFIXES.some(prefix => key.startsWith(prefix)) && !isReferenced(key),
+        );
+
+        for (let i = 0; i < orphanKeys.length; i += UPDATE_CHUNK) {
+            const chunk = orphanKeys.slice(i, i + UPDATE_CHUNK);
+            await prisma.storageOrphan.createMany({
+                data: chunk.map(key => ({ objectKey: key, size: objects.get(key)!.size, firstSeenAt: checkedAt, lastSeenAt: checkedAt })),
+                skipDuplicates: true,
+            });
+            await prisma.storageOrphan.updateMany({ where: { objectKey: { in: chunk } }, data: { lastSeenAt: checkedAt } });
+        }
+        // Yang tidak terlihat lagi sudah dihapus / dipakai kembali
+        await prisma.storageOrphan.deleteMany({ where: { lastSeenAt: { lt: checkedAt } } });
+
+        // 3. Hapus orphan yang sudah melewati grace period (dihitung dari pertama terlihat & upload terakhir)
+        let deletedCount = 0;
+        if (scan.deleteOrphans) {
+            const cutoff = new Date(checkedAt.getTime() - scan.graceHours * 60 * 60_000);
+            const expired = await prisma.storageOrphan.findMany({ where: { firstSeenAt: { lte: cutoff } } });
+
+            for (const orphan of expired) {
+                const obj = objects.get(orphan.objectKey);
+                if (!obj || obj.lastModified > cutoff) continue;
+                try {
+                    await getStorage().delete(orphan.objectKey);
+                    await prisma.storageOrphan.delete({ where: { objectKey: orphan.objectKey } });
+                    deletedCount++;
+                } catch (err: any) {
+                    console.error(`[storage] Gagal hapus orphan ${orphan.objectKey}:`, err?.message);
+                }
+            }
+        }
+
+        await prisma.storageScan.update({
+            where: { id: scan.id },
+            data: {
+                status: 'DONE',
+                objectCount: objects.size,
+                songCount: songs.length,
+                missingCount: missing.length,
+                sizeMismatchCount: sizeMismatches.length,
+                orphanCount: orphanKeys.length,
+                deletedCount,
+                report: {
+                    missing: missing.slice(0, REPORT_LIMIT),
+                    sizeMismatches: sizeMismatches.slice(0, REPORT_LIMIT),
+                    orphans: orphanKeys.slice(0, REPORT_LIMIT).map(key => ({ objectKey: key, size: objects.get(key)!.size })),
+                },
+                finishedAt: new Date(),
+            },
+        });
+        console.log(`[storage] Scan ${scan.id} selesai: ${missing.length} hilang, ${sizeMismatches.length} beda ukuran, ${orphanKeys.length} orphan, ${deletedCount} dihapus`);
+    } catch (err: any) {
+        console.error(`[storage] Scan ${scan.id} gagal:`, err?.message);
+        await prisma.storageScan.update({
+            where: { id: scan.id },
+            data: { status: 'FAILED', error: err?.message || String(err), finishedAt: new Date() },
+        });
+    }
+}
+
+export function formatScan(scan: StorageScan, includeReport = false) {
+    return {
+        id: scan.id,
+        status: scan.status,
+        deleteOrphans: scan.deleteOrphans,
+        graceHours: scan.graceHours,
+        objectCount: scan.objectCount,
+        songCount: scan.songCount,
+        missingCount: scan.missingCount,
+        sizeMismatchCount: scan.sizeMismatchCount,
+        orphanCount: scan.orphanCount,
+        deletedCount: scan.deletedCount,
+        error: scan.error,
+        createdAt: scan.createdAt,
+        startedAt: scan.startedAt,
+        finishedAt: scan.finishedAt,
+        ...(includeReport ? { report: scan.report } : {}),
+    };
+}
@@ -0,0 +1,168 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PrismaClient, Song } from '@prisma/client';
+import { getStorage } from './storage';
+import { hlsPrefix, HLS_MASTER } from './hls';
+import { downloadToFile, runFfmpeg } from './ffmpeg';
+import { holdQueueLock } from './songQueues';
+
+/**
+ * Transcode lagu ke HLS (AAC multi-bitrate) dengan ffmpeg, dijalankan worker.
+ *
+ * Song.hlsStatus:
+ *   null → belum dijadwalkan (lagu lama; lihat POST /songs/hls/backfill)
+ *   PENDING → RUNNING → READY
+ *                     ↘ PENDING lagi (retry) / FAILED setelah MAX_ATTEMPTS
+ *
+ * Selama belum READY, stream-url memakai file asli.
+ */
+
+export const HLS_STATUSES = ['PENDING', 'RUNNING', 'READY', 'FAILED'] as const;
+export type HlsStatus = typeof HLS_STATUSES[number];
+
+// Bitrate rendition (kbps), bisa diatur lewat HLS_BITRATES="64,128,256"
+export const HLS_BITRATES = (process.env.HLS_BITRATES || '64,128,256')
+    .split(',')
+    .map(b => parseInt(b, 10))
+    .filter(b => b > 0)
+    .sort((a, b) => a - b);
+
+const SEGMENT_SECONDS = 6;
+const MAX_ATTEMPTS = 3;
+// Transcode RUNNING selama ini dianggap ditinggal worker yang mati
+const STALE_LOCK_MS = 30 * 60_000;
+const FFMPEG_TIMEOUT_MS = 20 * 60_000;
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.m3u8': 'application/vnd.apple.mpegurl',
+    '.ts': 'video/mp2t',
+};
+
+/**
+ * Rendition yang dibuat: tidak lebih tinggi dari bitrate sumber (minimal satu, yang terendah).
+ */
+export function renditionsFor(sourceBitrate: number | null): number[] {
+    if (!sourceBitrate) return HLS_BITRATES;
+    const fitting = HLS_BITRATES.filter(b => b <= sourceBitrate);
+    return fitting.length > 0 ? fitting : HLS_BITRATES.slice(0, 1);
+}
+
+export async function claimNextTranscode(prisma: PrismaClient): Promise<Song | null> {
+    // Kembalikan transcode yang macet ke antrian
+    await prisma.song.updateMany({
+        where: { hlsStatus: 'RUNNING', hlsLockedAt: { lt: new Date(Date.now() - STALE_LOCK_MS) } },
+        data: { hlsStatus: 'PENDING', hlsLockedAt: null },
+    });
+
+    const rows = await prisma.$queryRaw<{ id: string }[]>`
+        UPDATE "Song"
+        SET "hlsStatus" = 'RUNNING',
+            "hlsAttempts" = "hlsAttempts" + 1,
+            "hlsLockedAt" = now()
+        WHERE "id" = (
+            SELECT "id" FROM "Song"
+            WHERE "hlsStatus" = 'PENDING'
+            ORDER BY "createdAt" DESC
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING "id"`;
+
+    if (rows.length === 0) return null;
+    return prisma.song.findUnique({ where: { id: rows[0].id } });
+}
+
+function transcodeToHls(input: string, outDir: string, bitrates: number[]): Promise<string> {
+    return runFfmpeg([
+        '-loglevel', 'error', '-y',
+        '-i', input,
+        ...bitrates.flatMap(() => ['-map', '0:a:0']),
+        '-c:a', 'aac', '-ac', '2', '-ar', '44100',
+        ...bitrates.flatMap((b, i) => [`-b:a:${i}`, `${b}k`]),
+        '-f', 'hls',
+        '-hls_time', String(SEGMENT_SECONDS),
+        '-hls_playlist_type', 'vod',
+        '-hls_segment_filename', path.join(outDir, '%v', 'seg_%03d.ts'),
+        '-master_pl_name', HLS_MASTER,
+        '-var_stream_map', bitrates.map((b, i) => `a:${i},name:${b}k`).join(' '),
+        path.join(outDir, '%v', 'index.m3u8'),
+    ], { timeoutMs: FFMPEG_TIMEOUT_MS });
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    const nested = await Promise.all(entries.map(e => {
+        const full = path.join(dir, e.name);
+        return e.isDirectory() ? listFiles(full) : Promise.resolve([full]);
+    }));
+    return nested.flat();
+}
+
+/**
+ * Hapus semua file HLS milik satu audio (saat lagu dihapus / transcode gagal).
+ */
+export async function deleteHlsFiles(audioKey: string): Promise<void> {
+    const storage = getStorage();
+    for await (const object of storage.list(hlsPrefix(audioKey))) {
+        await storage.delete(object.key);
+    }
+}
+
+/**
+ * Jalankan satu transcode yang sudah di-claim. Tidak pernah melempar error:
+ * hasilnya selalu tercatat di kolom hls* lagu, selama lock masih dipegang worker ini.
+ */
+export async function runTranscode(prisma: PrismaClient, song: Song): Promise<void> {
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'hls-'));
+    const prefix = hlsPrefix(song.audioKey);
+    const lock = holdQueueLock(prisma, 'hls', song);
+
+    try {
+        const input = path.join(workDir, 'source');
+        const outDir = path.join(workDir, 'out');
+        await downloadToFile(song.audioKey, input);
+
+        const bitrates = renditionsFor(song.bitrate);
+        await transcodeToHls(input, outDir, bitrates);
+
+        // Playlist diupload terakhir supaya master tidak menunjuk segmen yang belum ada
+        const files = (await listFiles(outDir)).sort((a, b) => Number(a.endsWith('.m3u8')) - Number(b.endsWith('.m3u8')));
+        for (const file of files) {
+            const key = prefix + path.relative(outDir, file).split(path.sep).join('/');
+            await getStorage().put(key, await fs.promises.readFile(file), {
+                contentType: CONTENT_TYPES[path.extname(file)] || 'application/octet-stream',
+            });
+        }
+
+        await lock.release();
+        const { count } = await prisma.song.updateMany({
+            where: lock.where(),
+            data: { hlsStatus: 'READY', hlsKey: prefix + HLS_MASTER, hlsRenditions: bitrates, hlsError: null, hlsLockedAt: null },
+        });
+        if (count === 0) console.warn(`[transcode ${song.id}] Lock sudah diambil worker lain, hasil tidak dicatat.`);
+        else console.log(`[transcode ${song.id}] Selesai: ${bitrates.join('/')} kbps`);
+    } catch (err: any) {
+        const message = err?.message || String(err);
+        console.error(`[transcode ${song.id}] Attempt ${song.hlsAttempts} gagal:`, message);
+
+        // File HLS di prefix yang sama bisa milik worker lain yang mengambil ulang lagu ini
+        if (!(await lock.release())) {
+            console.warn(`[transcode ${song.id}] Lock sudah diambil worker lain, file HLS tidak dihapus.`);
+            return;
+        }
+        await deleteHlsFiles(song.audioKey)
+            .catch(e => console.error(`[transcode ${song.id}] Gagal hapus file HLS:`, e?.message));
+        await prisma.song.updateMany({
+            where: lock.where(),
+            data: {
+                hlsStatus: song.hlsAttempts < MAX_ATTEMPTS ? 'PENDING' : 'FAILED',
+                hlsKey: null,
+                hlsError: message.slice(0, 2000),
+                hlsLockedAt: null,
+            },
+        });
+    } finally {
+        await fs.promises.rm(workDir, { recursive: true, force: true });
+    }
+}
@@ -0,0 +1,163 @@
+import { PrismaClient } from '@prisma/client';
+import { getStorage } from './storage';
+import { AudioMetadata } from './audioMetadata';
+import { inspectStoredAudio } from './audioInspection';
+
+/**
+ * Alur upload manual:
+ *   1. POST /songs/upload-url  → presigned PUT + baris Upload (belum final)
+ *   2. client PUT file ke storage (R2 / disk lokal)
+ *   3. POST /songs             → finalize: HEAD objek, cek tipe / ukuran / durasi,
+ *                                 baru Song dibuat dan Upload ditandai final
+ *
+ * Upload audio yang tidak pernah di-finalize sampai expiresAt dihapus oleh
+ * sweepAbandonedUploads (dipanggil worker & endpoint admin). Finalize dan sweep sama-sama
+ * meng-claim baris Upload secara atomik (finalizedAt / delete), jadi objek tidak bisa dihapus
+ * sweep setelah dipakai lagu. Key tanpa baris Upload ditolak.
+ */
+
+export const AUDIO_CONTENT_TYPES = ['audio/mpeg', 'audio/mp3', 'audio/mp4', 'audio/x-m4a', 'audio/m4a', 'audio/flac', 'audio/x-flac'];
+export const MAX_AUDIO_UPLOAD_BYTES = Number(process.env.MAX_AUDIO_UPLOAD_BYTES) || 50 * 1024 * 1024;
+
+// Presigned URL berlaku 10 menit; admin diberi waktu sampai 24 jam untuk finalize
+export const UPLOAD_URL_TTL_SEC = 600;
+const FINALIZE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export class UploadError extends Error {
+    status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.name = 'UploadError';
+        this.status = status;
+    }
+}
+
+export interface VerifiedUpload {
+    size: number;
+    contentType: string;
+    metadata: AudioMetadata;
+}
+
+export async function registerUpload(
+    prisma: PrismaClient,
+    objectKey: string,
+    contentType: string,
+    createdById: string | null,
+): Promise<void> {
+    await prisma.upload.create({
+        data: {
+            objectKey,
+            contentType,
+            createdById,
+            expiresAt: new Date(Date.now() + FINALIZE_WINDOW_MS),
+        },
+    });
+}
+
+/**
+ * Pastikan objek audio berasal dari POST /songs/upload-url yang masih dalam batas finalize,
+ * benar-benar ada di storage, bertipe audio, ukurannya wajar, dan durasinya terbaca.
+ * Melempar UploadError (dengan status HTTP) jika tidak.
+ */
+export async function verifyUploadedAudio(prisma: PrismaClient, objectKey: string): Promise<VerifiedUpload> {
+    if (!objectKey.startsWith('audio/')) {
+        throw new UploadError(400, 'audioKey harus berada di folder audio/.');
+    }
+
+    const [upload, usedBy] = await Promise.all([
+        prisma.upload.findUnique({ where: { objectKey } }),
+        prisma.song.findFirst({ where: { audioKey: objectKey }, select: { id: true } }),
+    ]);
+    if (usedBy || upload?.finalizedAt) {
+        throw new UploadError(409, 'File audio ini sudah dipakai lagu lain.');
+    }
+    if (!upload) {
+        throw new UploadError(400, 'Upload tidak dikenal. Minta URL upload baru lewat POST /songs/upload-url.');
+    }
+    if (upload.expiresAt <= new Date()) {
+        throw new UploadError(410, 'Batas waktu finalize upload sudah lewat. Upload ulang file audio.');
+    }
+
+    const head = await getStorage().head(objectKey);
+    if (!head) throw new UploadError(400, 'File belum diupload ke storage.');
+
+    const contentType = (head.contentType || '').split(';')[0].trim().toLowerCase();
+    const size = head.size;
+
+    if (!AUDIO_CONTENT_TYPES.includes(contentType)) {
+        throw new UploadError(415, `Tipe file tidak didukung: ${contentType || 'tidak diketahui'}.`);
+    }
+    if (size <= 0) {
+        throw new UploadError(400, 'File audio kosong.');
+    }
+    if (size > MAX_AUDIO_UPLOAD_BYTES) {
+        throw new UploadError(413, `Ukuran file melebihi batas ${Math.round(MAX_AUDIO_UPLOAD_BYTES / 1024 / 1024)} MB.`);
+    }
+
+    const metadata = await inspectStoredAudio(objectKey, size);
+    if (!metadata?.durationSec) {
+        throw new UploadError(422, 'File bukan audio yang valid atau durasinya tidak terbaca.');
+    }
+
+    return { size, contentType, metadata };
+}
+
+/**
+ * Claim upload di dalam transaksi pembuatan lagu: hanya berhasil jika baris Upload masih ada,
+ * belum final, dan belum kadaluarsa. Melempar UploadError jika request lain sudah lebih dulu
+ * mem-finalize key yang sama, atau sweep sudah mengambilnya.
+ */
+export async function markUploadFinalized(
+    tx: Pick<PrismaClient, 'upload'>,
+    objectKey: string,
+): Promise<void> {
+    const now = new Date();
+    const { count } = await tx.upload.updateMany({
+        where: { objectKey, finalizedAt: null, expiresAt: { gt: now } },
+        data: { finalizedAt: now },
+    });
+    if (count === 1) return;
+
+    const existing = await tx.upload.findUnique({ where: { objectKey }, select: { finalizedAt: true } });
+    if (existing?.finalizedAt) throw new UploadError(409, 'File audio ini sudah dipakai lagu lain.');
+    throw new UploadError(410, 'Batas waktu finalize upload sudah lewat. Upload ulang file audio.');
+}
+
+/**
+ * Hapus upload audio yang lewat batas finalize beserta objeknya di storage.
+ * Objek yang ternyata sudah dipakai lagu (mis. lewat jalur lama) hanya ditandai final.
+ */
+export async function sweepAbandonedUploads(prisma: PrismaClient, limit = 100): Promise<{ deleted: number; kept: number }> {
+    const expired = await prisma.upload.findMany({
+        where: { finalizedAt: null, expiresAt: { lt: new Date() } },
+        orderBy: { expiresAt: 'asc' },
+        take: limit,
+    });
+
+    let deleted = 0;
+    let kept = 0;
+    for (const upload of expired) {
+        const usedBy = await prisma.song.findFirst({ where: { audioKey: upload.objectKey }, select: { id: true } });
+        if (usedBy) {
+            await prisma.upload.update({ where: { id: upload.id }, data: { finalizedAt: new Date() } });
+            kept++;
+            continue;
+        }
+
+        try {
+            // Claim baris dulu: finalize yang bersamaan gagal (baris hilang), bukan membuat lagu tanpa file
+            const { count } = await prisma.upload.deleteMany({ where: { id: upload.id, finalizedAt: null } });
+            if (count === 0) {
+                kept++;
+                continue;
+            }
+            await getStorage().delete(upload.objectKey);
+            deleted++;
+        } catch (err: any) {
+            console.error(`[uploads] Gagal hapus upload ${upload.objectKey}:`, err?.message);
+        }
+    }
+
+    return { deleted, kept };
+}
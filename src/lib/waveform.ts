@@ -0,0 +1,172 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PrismaClient, Song } from '@prisma/client';
+import { downloadToFile, runFfmpeg } from './ffmpeg';
+import { holdQueueLock } from './songQueues';
+
+/**
+ * Peak waveform untuk seek bar player, dibuat worker dari audio yang sudah didecode ffmpeg.
+ * Disimpan di SongWaveform sebagai WAVEFORM_BUCKETS byte (0-255).
+ *
+ * Song.waveformStatus:
+ *   null → belum dijadwalkan (lagu lama; lihat POST /songs/waveform/backfill)
+ *   PENDING → RUNNING → DONE
+ *                     ↘ PENDING lagi (retry) / FAILED setelah MAX_ATTEMPTS
+ */
+
+export const WAVEFORM_STATUSES = ['PENDING', 'RUNNING', 'DONE', 'FAILED'] as const;
+export type WaveformStatus = typeof WAVEFORM_STATUSES[number];
+
+export const WAVEFORM_BUCKETS = 1000;
+export const PEAK_MAX = 255;
+
+// Decode mono 8 kHz; peak dikumpulkan per jendela 10 ms sebelum dibagi ke bucket
+const DECODE_SAMPLE_RATE = 8000;
+const WINDOW_SAMPLES = DECODE_SAMPLE_RATE / 100;
+const MAX_ATTEMPTS = 3;
+// Proses RUNNING selama ini dianggap ditinggal worker yang mati
+const STALE_LOCK_MS = 15 * 60_000;
+const FFMPEG_TIMEOUT_MS = 10 * 60_000;
+
+/**
+ * Bagi peak per jendela ke `buckets` bucket (nilai maksimum tiap bucket), dinormalisasi ke 0..PEAK_MAX.
+ */
+export function bucketPeaks(windows: ArrayLike<number>, buckets: number): Buffer {
+    const out = Buffer.alloc(buckets);
+    const n = windows.length;
+    if (n === 0) return out;
+
+    let loudest = 0;
+    for (let i = 0; i < n; i++) loudest = Math.max(loudest, windows[i]);
+    if (loudest === 0) return out;
+
+    for (let b = 0; b < buckets; b++) {
+        const start = Math.floor(b * n / buckets);
+        const end = Math.max(start + 1, Math.floor((b + 1) * n / buckets));
+        let peak = 0;
+        for (let i = start; i < end && i < n; i++) peak = Math.max(peak, windows[i]);
+        out[b] = Math.round(peak / loudest * PEAK_MAX);
+    }
+    return out;
+}
+
+/**
+ * Decode audio ke PCM s16le mono dan return peak absolut per jendela WINDOW_SAMPLES.
+ */
+export async function decodePeakWindows(file: string): Promise<number[]> {
+    const windows: number[] = [];
+    let current = 0;
+    let count = 0;
+    let leftover: Buffer | null = null;
+
+    await runFfmpeg([
+        '-loglevel', 'error',
+        '-i', file,
+        '-map', '0:a:0', '-ac', '1', '-ar', String(DECODE_SAMPLE_RATE),
+        '-f', 's16le', '-',
+    ], {
+        timeoutMs: FFMPEG_TIMEOUT_MS,
+        onStdout: chunk => {
+            // Sample 16-bit bisa terpotong di batas chunk
+            const data: Buffer = leftover ? Buffer.concat([leftover, chunk]) : chunk;
+            const usable = data.length - (data.length % 2);
+            leftover = usable < data.length ? data.subarray(usable) : null;
+
+            for (let i = 0; i < usable; i += 2) {
+                current = Math.max(current, Math.abs(data.readInt16LE(i)));
+                if (++count === WINDOW_SAMPLES) {
+                    windows.push(current);
+                    current = 0;
+                    count = 0;
+                }
+            }
+        },
+    });
+
+    if (count > 0) windows.push(current);
+    return windows;
+}
+
+/**
+ * Perkecil jumlah bucket untuk klien yang butuh lebih sedikit bar (mis. layar kecil).
+ */
+export function resamplePeaks(peaks: Buffer, buckets: number): number[] {
+    if (buckets >= peaks.length) return Array.from(peaks);
+    return Array.from(bucketPeaks(peaks, buckets));
+}
+
+export async function claimNextWaveform(prisma: PrismaClient): Promise<Song | null> {
+    // Kembalikan proses yang macet ke antrian
+    await prisma.song.updateMany({
+        where: { waveformStatus: 'RUNNING', waveformLockedAt: { lt: new Date(Date.now() - STALE_LOCK_MS) } },
+        data: { waveformStatus: 'PENDING', waveformLockedAt: null },
+    });
+
+    const rows = await prisma.$queryRaw<{ id: string }[]>`
+        UPDATE "Song"
+        SET "waveformStatus" = 'RUNNING',
+            "waveformAttempts" = "waveformAttempts" + 1,
+            "waveformLockedAt" = now()
+        WHERE "id" = (
+            SELECT "id" FROM "Song"
+            WHERE "waveformStatus" = 'PENDING'
+            ORDER BY "createdAt" DESC
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING "id"`;
+
+    if (rows.length === 0) return null;
+    return prisma.song.findUnique({ where: { id: rows[0].id } });
+}
+
+/**
+ * Buat waveform untuk satu lagu yang sudah di-claim. Tidak pernah melempar error:
+ * hasilnya selalu tercatat di kolom waveform* lagu, selama lock masih dipegang worker ini.
+ */
+export async function runWaveform(prisma: PrismaClient, song: Song): Promise<void> {
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'waveform-'));
+    const lock = holdQueueLock(prisma, 'waveform', song);
+
+    try {
+        const input = path.join(workDir, 'source');
+        await downloadToFile(song.audioKey, input);
+
+        const windows = await decodePeakWindows(input);
+        if (windows.length === 0) throw new Error('Audio tidak berisi sample.');
+        const peaks = bucketPeaks(windows, WAVEFORM_BUCKETS);
+
+        await lock.release();
+        const saved = await prisma.$transaction(async tx => {
+            const { count } = await tx.song.updateMany({
+                where: lock.where(),
+                data: { waveformStatus: 'DONE', waveformError: null, waveformLockedAt: null },
+            });
+            if (count === 0) return false;
+            await tx.songWaveform.upsert({
+                where: { songId: song.id },
+                create: { songId: song.id, buckets: WAVEFORM_BUCKETS, peaks },
+                update: { buckets: WAVEFORM_BUCKETS, peaks, createdAt: new Date() },
+            });
+            return true;
+        });
+        if (!saved) console.warn(`[waveform ${song.id}] Lock sudah diambil worker lain, hasil tidak dicatat.`);
+        else console.log(`[waveform ${song.id}] Selesai (${windows.length} jendela)`);
+    } catch (err: any) {
+        const message = err?.message || String(err);
+        console.error(`[waveform ${song.id}] Attempt ${song.waveformAttempts} gagal:`, message);
+
+        await lock.release();
+        await prisma.song.updateMany({
+            where: lock.where(),
+            data: {
+                waveformStatus: song.waveformAttempts < MAX_ATTEMPTS ? 'PENDING' : 'FAILED',
+                waveformError: message.slice(0, 2000),
+                waveformLockedAt: null,
+            },
+        });
+    } finally {
+        await fs.promises.rm(workDir, { recursive: true, force: true });
+    }
+}
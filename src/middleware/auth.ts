@@ -31,7 +31,8 @@ export function requireAuth(req: Request, res: Response, next: NextFunction): vo
     const token = authHeader.split(' ')[1];
 
     try {
-        const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as JwtPayload;
+        const decoded = jwt.verify(token, process.env.JWT_SECRET as string);
+        if (!isLoginPayload(decoded)) throw new Error('Bukan token login.');
         req.user = decoded;
         next();
     } catch (err) {
@@ -39,6 +40,19 @@ export function requireAuth(req: Request, res: Response, next: NextFunction): vo
     }
 }
 
+/**
+ * Hanya token dari signToken yang boleh dipakai sebagai login. Token lain yang ditandatangani
+ * dengan JWT_SECRET (mis. token HLS, lihat src/lib/hls.ts) punya `typ` / `aud` dan tanpa userId;
+ * tanpa cek ini req.user.userId bisa undefined dan filter Prisma { userId } diabaikan.
+ */
+function isLoginPayload(payload: string | jwt.JwtPayload): payload is jwt.JwtPayload & JwtPayload {
+    return typeof payload === 'object'
+        && payload.typ === undefined
+        && payload.aud === undefined
+        && typeof payload.userId === 'string'
+        && payload.userId !== '';
+}
+
 /**
  * Middleware: khusus untuk admin
  */
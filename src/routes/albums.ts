@@ -0,0 +1,349 @@
+import { Router, Request, Response } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { requireAuth, requireAdmin } from '../middleware/auth';
+import { formatDuration, formatSongSummary, SONG_SUMMARY_INCLUDE } from '../lib/songFormat';
+import { getLikedSongIds } from '../lib/library';
+import { cursorWhere, parsePageQuery, sortOrderBy, toPage, InvalidCursorError, SortKey } from '../lib/paging';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Tracklist: nomor track dulu, lagu tanpa nomor di akhir
+const TRACKLIST_ORDER: Prisma.SongOrderByWithRelationInput[] = [
+    { trackNumber: { sort: 'asc', nulls: 'last' } },
+    { createdAt: 'asc' },
+];
+
+// Daftar album: rilis terbaru dulu, album tanpa tahun di akhir
+const ALBUM_SORT: SortKey[] = [
+    { field: 'releaseYear', dir: 'desc', nullsLast: true },
+    { field: 'createdAt', dir: 'desc' },
+    { field: 'id', dir: 'desc' },
+];
+
+/**
+ * GET /albums
+ * Daftar album, terbaru dulu.
+ * Query params: ?artist=<id>&year=2014&q=<search>&limit=20&cursor=<nextCursor>
+ */
+router.get('/', requireAuth, async (req: Request, res: Response) => {
+    const { artist, year, q } = req.query as Record<string, string>;
+    const { take, cursor, skip } = parsePageQuery(req.query);
+
+    const where: Prisma.AlbumWhereInput = {
+        ...(artist ? { artistId: artist } : {}),
+        ...(year && Number.isInteger(Number(year)) ? { releaseYear: Number(year) } : {}),
+        ...(q ? { title: { contains: q, mode: 'insensitive' } } : {}),
+    };
+
+    try {
+        const [rows, total] = await Promise.all([
+            prisma.album.findMany({
+                where: { ...where, ...cursorWhere(ALBUM_SORT, cursor) },
+                orderBy: sortOrderBy(ALBUM_SORT),
+                include: {
+                    artist: { select: { id: true, name: true, avatarUrl: true } },
+                    _count: { select: { songs: true } },
+                },
+                take: take + 1,
+                skip,
+            }),
+            prisma.album.count({ where }),
+        ]);
+        const { items: albums, nextCursor } = toPage(rows, ALBUM_SORT, take);
+
+        return res.json({
+            albums: albums.map(a => ({
+                id: a.id,
+                title: a.title,
+                releaseYear: a.releaseYear,
+                coverUrl: a.coverUrl,
+                artist: a.artist,
+                totalSongs: a._count.songs,
+            })),
+            total,
+            nextCursor,
+        });
+    } catch (err) {
+        if (err instanceof InvalidCursorError) return res.status(400).json({ error: err.message });
+        console.error('[GET /albums]', err);
+        return res.status(500).json({ error: 'Gagal mengambil daftar album.' });
+    }
+});
+
+/**
+ * GET /albums/:id
+ * Detail album beserta tracklist (urut trackNumber) dan total durasi.
+ */
+router.get('/:id', requireAuth, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    try {
+        const album = await prisma.album.findUnique({
+            where: { id },
+            include: {
+                artist: { select: { id: true, name: true, avatarUrl: true } },
+                songs: {
+                    orderBy: TRACKLIST_ORDER,
+                    include: SONG_SUMMARY_INCLUDE,
+                },
+            },
+        });
+
+        if (!album) return res.status(404).json({ error: 'Album tidak ditemukan.' });
+
+        const [likedIds, saved] = await Promise.all([
+            getLikedSongIds(prisma, userId, album.songs.map(s => s.id)),
+            prisma.savedAlbum.findUnique({ where: { userId_albumId: { userId, albumId: id } } }),
+        ]);
+
+        const totalDurationSec = album.songs.reduce((sum, s) => sum + s.durationSec, 0);
+
+        return res.json({
+            id: album.id,
+            title: album.title,
+            releaseYear: album.releaseYear,
+            coverUrl: album.coverUrl,
+            artist: album.artist,
+            isSaved: !!saved,
+            totalSongs: album.songs.length,
+            totalDurationSec,
+            totalDuration: formatDuration(totalDurationSec),
+            tracks: album.songs.map(s => ({
+                trackNumber: s.trackNumber,
+                ...formatSongSummary(s),
+                isLiked: likedIds.has(s.id),
+            })),
+        });
+    } catch (err) {
+        console.error('[GET /albums/:id]', err);
+        return res.status(500).json({ error: 'Gagal mengambil detail album.' });
+    }
+});
+
+// releaseYear dari body: kosong → null, selain itu harus tahun bulat yang masuk akal
+function parseReleaseYear(value: unknown): { year: number | null } | { error: string } {
+    if (value === undefined || value === null || value === '') return { year: null };
+    const year = Number(value);
+    const maxYear = new Date().getFullYear() + 1;
+    if (!Number.isInteger(year) || year < 1000 || year > maxYear) {
+        return { error: `releaseYear harus tahun antara 1000 dan ${maxYear}.` };
+    }
+    return { year };
+}
+
+/**
+ * POST /albums
+ * (ADMIN ONLY) Buat album baru.
+ * Body: { title: string, artistId: string, releaseYear?: number, coverUrl?: string }
+ */
+router.post('/', requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    const { title, artistId, releaseYear, coverUrl } = req.body;
+
+    if (typeof title !== 'string' || !title.trim() || typeof artistId !== 'string' || !artistId) {
+        return res.status(400).json({ error: 'title dan artistId wajib diisi.' });
+    }
+    const parsedYear = parseReleaseYear(releaseYear);
+    if ('error' in parsedYear) return res.status(400).json({ error: parsedYear.error });
+
+    try {
+        const album = await prisma.album.create({
+            data: {
+                title: title.trim(),
+                artistId,
+                releaseYear: parsedYear.year,
+                coverUrl: coverUrl || null,
+            },
+            include: { artist: true },
+        });
+
+        return res.status(201).json({ album });
+    } catch (err: any) {
+        if (err.code === 'P2003') return res.status(404).json({ error: 'Artis tidak ditemukan.' });
+        console.error('[POST /albums]', err);
+        return res.status(500).json({ error: 'Gagal membuat album.' });
+    }
+});
+
+/**
+ * PATCH /albums/:id
+ * (ADMIN ONLY) Update metadata album.
+ */
+router.patch('/:id', requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { title, artistId, releaseYear, coverUrl } = req.body;
+
+    const updateData: Prisma.AlbumUncheckedUpdateInput = {};
+    if (title !== undefined) {
+        if (typeof title !== 'string' || !title.trim()) return res.status(400).json({ error: 'title tidak boleh kosong.' });
+        updateData.title = title.trim();
+    }
+    if (artistId !== undefined) {
+        if (typeof artistId !== 'string' || !artistId) return res.status(400).json({ error: 'artistId tidak valid.' });
+        updateData.artistId = artistId;
+    }
+    if (releaseYear !== undefined) {
+        const parsedYear = parseReleaseYear(releaseYear);
+        if ('error' in parsedYear) return res.status(400).json({ error: parsedYear.error });
+        updateData.releaseYear = parsedYear.year;
+    }
+    if (coverUrl !== undefined) updateData.coverUrl = coverUrl || null;
+
+    try {
+
+        const album = await prisma.album.update({
+            where: { id },
+            data: updateData,
+            include: { artist: true },
+        });
+
+        return res.json({ album });
+    } catch (err: any) {
+        if (err.code === 'P2025') return res.status(404).json({ error: 'Album tidak ditemukan.' });
+        if (err.code === 'P2003') return res.status(404).json({ error: 'Artis tidak ditemukan.' });
+        console.error(`[PATCH /albums/${id}]`, err);
+        return res.status(500).json({ error: 'Gagal memperbarui album.', details: err.message });
+    }
+});
+
+/**
+ * DELETE /albums/:id
+ * (ADMIN ONLY) Hapus album. Lagu-lagunya tetap ada, hanya dilepas dari album.
+ */
+router.delete('/:id', requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    try {
+        await prisma.$transaction([
+            prisma.song.updateMany({ where: { albumId: id }, data: { albumId: null, trackNumber: null } }),
+            prisma.album.delete({ where: { id } }),
+        ]);
+
+        return res.json({ message: 'Album berhasil dihapus.' });
+    } catch (err: any) {
+        if (err.code === 'P2025') return res.status(404).json({ error: 'Album tidak ditemukan.' });
+        console.error(`[DELETE /albums/${id}]`, err);
+        return res.status(500).json({ error: 'Gagal menghapus album.', details: err.message });
+    }
+});
+
+/**
+ * POST /albums/:id/songs
+ * (ADMIN ONLY) Masukkan lagu yang sudah ada ke album.
+ * Body: { songIds: string[] }
+ *
+ * Lagu diberi trackNumber berurutan setelah track terakhir, sesuai urutan songIds.
+ * Lagu yang sebelumnya ada di album lain otomatis pindah.
+ */
+router.post('/:id/songs', requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { songIds } = req.body as { songIds?: string[] };
+
+    if (!Array.isArray(songIds) || songIds.length === 0) {
+        return res.status(400).json({ error: 'songIds wajib diisi.' });
+    }
+
+    try {
+        const album = await prisma.album.findUnique({ where: { id } });
+        if (!album) return res.status(404).json({ error: 'Album tidak ditemukan.' });
+
+        const uniqueIds = [...new Set(songIds.map(String))];
+
+        const attached = await prisma.$transaction(async (tx) => {
+            const songs = await tx.song.findMany({
+                where: { id: { in: uniqueIds } },
+                select: { id: true, albumId: true },
+            });
+            const found = new Map(songs.map(s => [s.id, s]));
+            const toAttach = uniqueIds.filter(songId => found.has(songId) && found.get(songId)!.albumId !== id);
+
+            const last = await tx.song.aggregate({
+                where: { albumId: id },
+                _max: { trackNumber: true },
+            });
+            let next = (last._max.trackNumber ?? 0) + 1;
+
+            for (const songId of toAttach) {
+                await tx.song.update({
+                    where: { id: songId },
+                    data: { albumId: id, trackNumber: next++ },
+                });
+            }
+
+            return { attached: toAttach, notFound: uniqueIds.filter(songId => !found.has(songId)) };
+        });
+
+        return res.status(201).json(attached);
+    } catch (err: any) {
+        console.error(`[POST /albums/${id}/songs]`, err);
+        return res.status(500).json({ error: 'Gagal menambahkan lagu ke album.', details: err.message });
+    }
+});
+
+/**
+ * DELETE /albums/:id/songs/:songId
+ * (ADMIN ONLY) Lepas lagu dari album (trackNumber dikosongkan).
+ */
+router.delete('/:id/songs/:songId', requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    const { id, songId } = req.params;
+
+    try {
+        const { count } = await prisma.song.updateMany({
+            where: { id: songId, albumId: id },
+            data: { albumId: null, trackNumber: null },
+        });
+        if (count === 0) return res.status(404).json({ error: 'Lagu tidak ada di album ini.' });
+
+        return res.json({ message: 'Lagu dilepas dari album.' });
+    } catch (err: any) {
+        console.error(`[DELETE /albums/${id}/songs/${songId}]`, err);
+        return res.status(500).json({ error: 'Gagal melepas lagu dari album.', details: err.message });
+    }
+});
+
+/**
+ * PUT /albums/:id/tracks
+ * (ADMIN ONLY) Nomori ulang tracklist.
+ * Body: { songIds: string[] }  ← urutan baru, track 1..N
+ *
+ * Lagu album yang tidak disebut di songIds ditaruh setelahnya dengan urutan lama.
+ */
+router.put('/:id/tracks', requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { songIds } = req.body as { songIds?: string[] };
+
+    if (!Array.isArray(songIds)) return res.status(400).json({ error: 'songIds wajib diisi.' });
+
+    try {
+        const album = await prisma.album.findUnique({ where: { id } });
+        if (!album) return res.status(404).json({ error: 'Album tidak ditemukan.' });
+
+        const tracks = await prisma.$transaction(async (tx) => {
+            const current = await tx.song.findMany({
+                where: { albumId: id },
+                orderBy: TRACKLIST_ORDER,
+                select: { id: true },
+            });
+            const currentIds = current.map(s => s.id);
+            const inAlbum = new Set(currentIds);
+
+            const ordered = [...new Set(songIds.map(String))].filter(songId => inAlbum.has(songId));
+            const listed = new Set(ordered);
+            const finalOrder = [...ordered, ...currentIds.filter(songId => !listed.has(songId))];
+
+            for (const [i, songId] of finalOrder.entries()) {
+                await tx.song.update({ where: { id: songId }, data: { trackNumber: i + 1 } });
+            }
+
+            return finalOrder.map((songId, i) => ({ songId, trackNumber: i + 1 }));
+        });
+
+        return res.json({ tracks });
+    } catch (err: any) {
+        console.error(`[PUT /albums/${id}/tracks]`, err);
+        return res.status(500).json({ error: 'Gagal menomori ulang tracklist.', details: err.message });
+    }
+});
+
+export default router;
@@ -0,0 +1,280 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { requireAuth, requireAdmin } from '../middleware/auth';
+import { formatSongSummary, SONG_SUMMARY_INCLUDE } from '../lib/songFormat';
+import { getLikedSongIds } from '../lib/library';
+import { cursorWhere, parsePageQuery, sortOrderBy, toPage, InvalidCursorError, SortKey } from '../lib/paging';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const TOP_SONGS_LIMIT = 10;
+const ARTIST_SORT: SortKey[] = [{ field: 'name', dir: 'asc' }, { field: 'id', dir: 'asc' }];
+
+/**
+ * GET /artists
+ * Daftar artis (urut nama), bisa dicari.
+ * Query params: ?q=<search>&limit=20&cursor=<nextCursor>
+ */
+router.get('/', requireAuth, async (req: Request, res: Response) => {
+    const { q } = req.query as Record<string, string>;
+    const { take, cursor, skip } = parsePageQuery(req.query);
+
+    const where = q ? { name: { contains: q, mode: 'insensitive' as const } } : {};
+
+    try {
+        const [rows, total] = await Promise.all([
+            prisma.artist.findMany({
+                where: { ...where, ...cursorWhere(ARTIST_SORT, cursor) },
+                orderBy: sortOrderBy(ARTIST_SORT),
+                include: { _count: { select: { songs: true, albums: true, followers: true } } },
+                take: take + 1,
+                skip,
+            }),
+            prisma.artist.count({ where }),
+        ]);
+        const { items: artists, nextCursor } = toPage(rows, ARTIST_SORT, take);
+
+        return res.json({
+            artists: artists.map(a => ({
+                id: a.id,
+                name: a.name,
+                avatarUrl: a.avatarUrl,
+                totalSongs: a._count.songs,
+                totalAlbums: a._count.albums,
+                followers: a._count.followers,
+            })),
+            total,
+            nextCursor,
+        });
+    } catch (err) {
+        if (err instanceof InvalidCursorError) return res.status(400).json({ error: err.message });
+        console.error('[GET /artists]', err);
+        return res.status(500).json({ error: 'Gagal mengambil daftar artis.' });
+    }
+});
+
+/**
+ * GET /artists/:id
+ * Detail artis: top songs (berdasarkan playCount), album, dan total plays.
+ */
+router.get('/:id', requireAuth, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    try {
+        const artist = await prisma.artist.findUnique({
+            where: { id },
+            include: {
+                albums: {
+                    orderBy: [{ releaseYear: 'desc' }, { createdAt: 'desc' }],
+                    include: { _count: { select: { songs: true } } },
+                },
+                _count: { select: { songs: true, followers: true } },
+            },
+        });
+
+        if (!artist) return res.status(404).json({ error: 'Artis tidak ditemukan.' });
+
+        const [topSongs, plays, following] = await Promise.all([
+            prisma.song.findMany({
+                where: { artists: { some: { id } } },
+                orderBy: [{ playCount: 'desc' }, { createdAt: 'desc' }],
+                include: SONG_SUMMARY_INCLUDE,
+                take: TOP_SONGS_LIMIT,
+            }),
+            prisma.song.aggregate({
+                where: { artists: { some: { id } } },
+                _sum: { playCount: true },
+            }),
+            prisma.followedArtist.findUnique({
+                where: { userId_artistId: { userId, artistId: id } },
+            }),
+        ]);
+
+        const likedIds = await getLikedSongIds(prisma, userId, topSongs.map(s => s.id));
+
+        return res.json({
+            id: artist.id,
+            name: artist.name,
+            bio: artist.bio,
+            avatarUrl: artist.avatarUrl,
+            totalSongs: artist._count.songs,
+            totalPlays: plays._sum.playCount ?? 0,
+            followers: artist._count.followers,
+            isFollowing: !!following,
+            topSongs: topSongs.map(s => ({
+                ...formatSongSummary(s),
+                playCount: s.playCount,
+                isLiked: likedIds.has(s.id),
+            })),
+            albums: artist.albums.map(a => ({
+                id: a.id,
+                title: a.title,
+                releaseYear: a.releaseYear,
+                coverUrl: a.coverUrl,
+                totalSongs: a._count.songs,
+            })),
+        });
+    } catch (err) {
+        console.error('[GET /artists/:id]', err);
+        return res.status(500).json({ error: 'Gagal mengambil detail artis.' });
+    }
+});
+
+/**
+ * POST /artists
+ * (ADMIN ONLY) Buat artis baru.
+ * Body: { name: string, bio?: string, avatarUrl?: string }
+ */
+router.post('/', requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    const { name, bio, avatarUrl } = req.body as { name?: string; bio?: string; avatarUrl?: string };
+
+    if (!name || !name.trim()) return res.status(400).json({ error: 'name wajib diisi.' });
+
+    try {
+        const artist = await prisma.artist.create({
+            data: {
+                name: name.trim(),
+                bio: bio || null,
+                avatarUrl: avatarUrl || null,
+            },
+        });
+
+        return res.status(201).json({ artist });
+    } catch (err: any) {
+        if (err.code === 'P2002') return res.status(409).json({ error: 'Artis dengan nama tersebut sudah ada.' });
+        console.error('[POST /artists]', err);
+        return res.status(500).json({ error: 'Gagal membuat artis.' });
+    }
+});
+
+/**
+ * PATCH /artists/:id
+ * (ADMIN ONLY) Update data artis.
+ */
+router.patch('/:id', requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { name, bio, avatarUrl } = req.body as { name?: string; bio?: string | null; avatarUrl?: string | null };
+
+    try {
+        const updateData: any = {};
+        if (name !== undefined) {
+            if (!name.trim()) return res.status(400).json({ error: 'name tidak boleh kosong.' });
+            updateData.name = name.trim();
+        }
+        if (bio !== undefined) updateData.bio = bio;
+        if (avatarUrl !== undefined) updateData.avatarUrl = avatarUrl;
+
+        const artist = await prisma.artist.update({
+            where: { id },
+            data: updateData,
+        });
+
+        return res.json({ artist });
+    } catch (err: any) {
+        if (err.code === 'P2025') return res.status(404).json({ error: 'Artis tidak ditemukan.' });
+        if (err.code === 'P2002') return res.status(409).json({ error: 'Artis dengan nama tersebut sudah ada. Gunakan merge.' });
+        console.error(`[PATCH /artists/${id}]`, err);
+        return res.status(500).json({ error: 'Gagal memperbarui artis.', details: err.message });
+    }
+});
+
+/**
+ * DELETE /artists/:id
+ * (ADMIN ONLY) Hapus artis. Lagu tetap ada (hanya relasinya yang dilepas),
+ * tetapi album milik artis ikut terhapus (onDelete: Cascade).
+ */
+router.delete('/:id', requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    try {
+        await prisma.artist.delete({ where: { id } });
+        return res.json({ message: 'Artis berhasil dihapus.' });
+    } catch (err: any) {
+        if (err.code === 'P2025') return res.status(404).json({ error: 'Artis tidak ditemukan.' });
+        console.error(`[DELETE /artists/${id}]`, err);
+        return res.status(500).json({ error: 'Gagal menghapus artis.', details: err.message });
+    }
+});
+
+/**
+ * POST /artists/:id/merge
+ * (ADMIN ONLY) Gabungkan artis duplikat (mis. "Tulus" vs "TULUS") ke artis :id.
+ * Body: { sourceIds: string[] }
+ *
+ * Semua lagu, album, dan follower dari artis sumber dipindahkan ke artis :id,
+ * bio/avatar yang kosong diisi dari sumber, lalu artis sumber dihapus.
+ * Semuanya dalam satu transaksi.
+ */
+router.post('/:id/merge', requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { sourceIds } = req.body as { sourceIds?: string[] };
+
+    if (!Array.isArray(sourceIds) || sourceIds.length === 0) {
+        return res.status(400).json({ error: 'sourceIds wajib diisi.' });
+    }
+
+    const sources = [...new Set(sourceIds.map(String))].filter(sourceId => sourceId !== id);
+    if (sources.length === 0) return res.status(400).json({ error: 'sourceIds tidak boleh hanya berisi artis tujuan.' });
+
+    try {
+        const [target, sourceArtists] = await Promise.all([
+            prisma.artist.findUnique({ where: { id } }),
+            prisma.artist.findMany({ where: { id: { in: sources } } }),
+        ]);
+
+        if (!target) return res.status(404).json({ error: 'Artis tujuan tidak ditemukan.' });
+        if (sourceArtists.length !== sources.length) {
+            const found = new Set(sourceArtists.map(a => a.id));
+            return res.status(404).json({ error: 'Sebagian artis sumber tidak ditemukan.', missing: sources.filter(s => !found.has(s)) });
+        }
+
+        const result = await prisma.$transaction(async (tx) => {
+            // Relasi lagu (implicit many-to-many: A = Artist, B = Song)
+            const movedSongs = await tx.$executeRaw`
+                INSERT INTO "_ArtistToSong" ("A", "B")
+                SELECT ${id}, "B" FROM "_ArtistToSong" WHERE "A" = ANY(${sources})
+                ON CONFLICT DO NOTHING`;
+
+            const movedAlbums = await tx.album.updateMany({
+                where: { artistId: { in: sources } },
+                data: { artistId: id },
+            });
+
+            const followers = await tx.followedArtist.findMany({
+                where: { artistId: { in: sources } },
+                select: { userId: true, createdAt: true },
+            });
+            await tx.followedArtist.createMany({
+                data: followers.map(f => ({ userId: f.userId, artistId: id, createdAt: f.createdAt })),
+                skipDuplicates: true,
+            });
+
+            await tx.artist.update({
+                where: { id },
+                data: {
+                    bio: target.bio ?? sourceArtists.find(a => a.bio)?.bio ?? null,
+                    avatarUrl: target.avatarUrl ?? sourceArtists.find(a => a.avatarUrl)?.avatarUrl ?? null,
+                },
+            });
+
+            // Hapus sumber: baris _ArtistToSong & FollowedArtist lama ikut terhapus (cascade)
+            await tx.artist.deleteMany({ where: { id: { in: sources } } });
+
+            return { movedSongs, movedAlbums: movedAlbums.count };
+        });
+
+        console.log(`[POST /artists/${id}/merge] Merged ${sources.join(', ')} → ${id}`);
+        return res.json({
+            artistId: id,
+            merged: sourceArtists.map(a => ({ id: a.id, name: a.name })),
+            ...result,
+        });
+    } catch (err: any) {
+        console.error(`[POST /artists/${id}/merge]`, err);
+        return res.status(500).json({ error: 'Gagal menggabungkan artis.', details: err.message });
+    }
+});
+
+export default router;
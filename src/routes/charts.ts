@@ -0,0 +1,89 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { requireAuth, requireAdmin } from '../middleware/auth';
+import { cursorWhere, parsePageQuery, sortOrderBy, toPage, InvalidCursorError, SortKey } from '../lib/paging';
+import { zonedMidnight } from '../lib/listeningStats';
+import { formatChart, formatChartSnapshot, getChart, refreshCharts, CHART_TIMEZONE, CHART_TYPES, ChartType } from '../lib/charts';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const SNAPSHOT_SORT: SortKey[] = [{ field: 'periodStart', dir: 'desc' }, { field: 'id', dir: 'desc' }];
+
+// "daily" → "DAILY"; null jika bukan tipe chart
+function parseChartType(value: string): ChartType | null {
+    const type = value.toUpperCase() as ChartType;
+    return CHART_TYPES.includes(type) ? type : null;
+}
+
+/**
+ * POST /charts/refresh
+ * (ADMIN ONLY) Buat ulang semua chart periode berjalan sekarang (normalnya dilakukan worker tiap jam).
+ */
+router.post('/refresh', requireAuth, requireAdmin, async (_req: Request, res: Response) => {
+    try {
+        await refreshCharts(prisma);
+        return res.json({ success: true });
+    } catch (err) {
+        console.error('[POST /charts/refresh]', err);
+        return res.status(500).json({ error: 'Gagal memperbarui chart.' });
+    }
+});
+
+/**
+ * GET /charts/:type/history
+ * Daftar snapshot lampau satu tipe chart (tanpa entri), terbaru dulu.
+ * Query params: ?limit=20&cursor=<nextCursor>
+ */
+router.get('/:type/history', requireAuth, async (req: Request, res: Response) => {
+    const type = parseChartType(req.params.type);
+    if (!type) return res.status(400).json({ error: `Tipe chart harus salah satu dari: ${CHART_TYPES.join(', ').toLowerCase()}.` });
+
+    const { take, cursor, skip } = parsePageQuery(req.query);
+
+    try {
+        const rows = await prisma.chartSnapshot.findMany({
+            where: { type, ...cursorWhere(SNAPSHOT_SORT, cursor) },
+            orderBy: sortOrderBy(SNAPSHOT_SORT),
+            take: take + 1,
+            skip,
+        });
+        const { items, nextCursor } = toPage(rows, SNAPSHOT_SORT, take);
+
+        return res.json({ snapshots: items.map(formatChartSnapshot), nextCursor });
+    } catch (err) {
+        if (err instanceof InvalidCursorError) return res.status(400).json({ error: err.message });
+        console.error('[GET /charts/:type/history]', err);
+        return res.status(500).json({ error: 'Gagal mengambil riwayat chart.' });
+    }
+});
+
+/**
+ * GET /charts/:type?date=YYYY-MM-DD
+ * Chart daily | weekly | monthly | trending untuk periode yang memuat `date`
+ * (tanggal lokal CHARTS_TIMEZONE, default hari ini). Tiap entri membawa
+ * movement (UP/DOWN/SAME/NEW) dan change dibanding chart periode sebelumnya.
+ */
+router.get('/:type', requireAuth, async (req: Request, res: Response) => {
+    const type = parseChartType(req.params.type);
+    if (!type) return res.status(400).json({ error: `Tipe chart harus salah satu dari: ${CHART_TYPES.join(', ').toLowerCase()}.` });
+
+    let at = new Date();
+    if (req.query.date !== undefined) {
+        const match = String(req.query.date).match(/^(\d{4})-(\d{2})-(\d{2})$/);
+        if (!match) return res.status(400).json({ error: 'date harus berformat YYYY-MM-DD.' });
+        at = zonedMidnight(+match[1], +match[2], +match[3], CHART_TIMEZONE);
+        if (isNaN(at.getTime()) || at.getTime() > Date.now()) return res.status(400).json({ error: 'date tidak valid.' });
+    }
+
+    try {
+        const chart = await getChart(prisma, type, at);
+        if (!chart) return res.status(404).json({ error: 'Chart untuk periode ini tidak tersedia.' });
+        return res.json(formatChart(chart));
+    } catch (err) {
+        console.error('[GET /charts/:type]', err);
+        return res.status(500).json({ error: 'Gagal mengambil chart.' });
+    }
+});
+
+export default router;
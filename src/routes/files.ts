@@ -0,0 +1,111 @@
+import { Router, Request, Response } from 'express';
+import fs from 'fs';
+import { getLocalStorage } from '../lib/storage';
+import { assertValidKey, InvalidKeyError, PUBLIC_PREFIXES } from '../lib/storage/local';
+
+const router = Router();
+
+// Hanya aktif untuk STORAGE_DRIVER=local; dengan R2 semua URL mengarah langsung ke bucket
+router.use((_req, res, next) => {
+    if (!getLocalStorage()) return res.status(404).json({ error: 'Route not found' });
+    next();
+});
+
+// "bytes=start-end" → rentang inklusif, null jika header tidak valid / di luar ukuran file
+function parseRange(header: string, size: number): { start: number; end: number } | null {
+    const match = header.match(/^bytes=(\d*)-(\d*)$/);
+    if (!match || (!match[1] && !match[2])) return null;
+
+    let start: number;
+    let end: number;
+    if (!match[1]) {
+        start = Math.max(size - Number(match[2]), 0);   // suffix range: N byte terakhir
+        end = size - 1;
+    } else {
+        start = Number(match[1]);
+        end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+    }
+    return start <= end && start < size ? { start, end } : null;
+}
+
+/**
+ * GET /files/<key>?exp=&sig=
+ * Baca file dari storage lokal (signed URL dari stream-url). covers/ tidak butuh signature.
+ * Mendukung header Range supaya <audio> bisa seek.
+ */
+router.get('/*', async (req: Request, res: Response) => {
+    const storage = getLocalStorage()!;
+    const key = req.params[0];
+
+    try {
+        // Key divalidasi dulu: "covers/../audio/..." tidak boleh lolos sebagai file publik
+        assertValidKey(key);
+        const isPublic = PUBLIC_PREFIXES.some(prefix => key.startsWith(prefix));
+        if (!isPublic && !storage.verifySignature('GET', key, req.query)) {
+            return res.status(403).json({ error: 'Signature tidak valid atau sudah kadaluarsa.' });
+        }
+
+        const object = await storage.head(key);
+        if (!object) return res.status(404).json({ error: 'File tidak ditemukan.' });
+
+        res.setHeader('Content-Type', object.contentType || 'application/octet-stream');
+        res.setHeader('Accept-Ranges', 'bytes');
+        res.setHeader('Last-Modified', object.lastModified.toUTCString());
+
+        let start = 0;
+        let end = object.size - 1;
+        if (req.headers.range) {
+            const range = parseRange(req.headers.range, object.size);
+            if (!range) {
+                res.setHeader('Content-Range', `bytes */${object.size}`);
+                return res.status(416).end();
+            }
+            ({ start, end } = range);
+            res.status(206).setHeader('Content-Range', `bytes ${start}-${end}/${object.size}`);
+        }
+        res.setHeader('Content-Length', object.size === 0 ? 0 : end - start + 1);
+
+        if (object.size === 0) return res.end();
+        fs.createReadStream(storage.filePath(key), { start, end })
+            .on('error', err => {
+                console.error(`[GET /files/${key}]`, err);
+                res.destroy(err);
+            })
+            .pipe(res);
+    } catch (err) {
+        if (err instanceof InvalidKeyError) return res.status(400).json({ error: err.message });
+        console.error(`[GET /files/${key}]`, err);
+        return res.status(500).json({ error: 'Gagal membaca file.' });
+    }
+});
+
+/**
+ * PUT /files/<key>?exp=&ct=&sig=
+ * Upload file ke storage lokal lewat signed URL dari POST /songs/upload-url.
+ * Header Content-Type harus sama dengan yang ditandatangani, seperti presigned PUT S3.
+ */
+router.put('/*', async (req: Request, res: Response) => {
+    const storage = getLocalStorage()!;
+    const key = req.params[0];
+
+    try {
+        assertValidKey(key);
+        if (!storage.verifySignature('PUT', key, req.query)) {
+            return res.status(403).json({ error: 'Signature tidak valid atau sudah kadaluarsa.' });
+        }
+
+        const contentType = String(req.query.ct);
+        if (req.headers['content-type'] !== contentType) {
+            return res.status(400).json({ error: `Content-Type harus ${contentType}.` });
+        }
+
+        await storage.put(key, req, { contentType });
+        return res.status(200).end();
+    } catch (err) {
+        if (err instanceof InvalidKeyError) return res.status(400).json({ error: err.message });
+        console.error(`[PUT /files/${key}]`, err);
+        return res.status(500).json({ error: 'Gagal menyimpan file.' });
+    }
+});
+
+export default router;
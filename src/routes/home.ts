@@ -0,0 +1,26 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import { getHomeFeed } from '../lib/homeFeed';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+/**
+ * GET /home
+ * Halaman home yang dipersonalisasi. `sections[]` berurutan untuk ditampilkan, tiap bagian punya
+ * `key` (recently-played | jump-back-in | daily-mixes | because-you-listened | new-from-artists)
+ * dan `type` (songs | playlists | mixes). Bagian tanpa isi tidak disertakan.
+ * Bagian di-cache per user dan diperbarui berkala, lihat src/lib/homeFeed.ts.
+ */
+router.get('/', requireAuth, async (req: Request, res: Response) => {
+    try {
+        const feed = await getHomeFeed(prisma, req.user!.userId);
+        return res.json(feed);
+    } catch (err) {
+        console.error('[GET /home]', err);
+        return res.status(500).json({ error: 'Gagal mengambil halaman home.' });
+    }
+});
+
+export default router;
@@ -0,0 +1,146 @@
+import { Router, Request, Response } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { requireAuth, requireAdmin } from '../middleware/auth';
+import { cursorWhere, parsePageQuery, sortOrderBy, toPage, InvalidCursorError, SortKey } from '../lib/paging';
+import {
+    formatJob,
+    CANCELLABLE_STATUSES,
+    INGEST_SOURCES,
+    JOB_STATUSES,
+    RETRYABLE_STATUSES,
+    IngestSource,
+    JobStatus,
+} from '../lib/ingestJobs';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const JOB_SORT: SortKey[] = [{ field: 'createdAt', dir: 'desc' }, { field: 'id', dir: 'desc' }];
+const JOB_SONG_SELECT = { song: { select: { id: true, title: true } } } satisfies Prisma.IngestJobInclude;
+
+// Semua endpoint job khusus admin
+router.use(requireAuth, requireAdmin);
+
+/**
+ * GET /jobs
+ * (ADMIN ONLY) Daftar job ingest, terbaru dulu.
+ * Query params: ?status=QUEUED,FAILED&source=YOUTUBE|SPOTIFY&limit=20&cursor=<nextCursor>
+ */
+router.get('/', async (req: Request, res: Response) => {
+    const { status, source } = req.query as Record<string, string>;
+    const { take, cursor, skip } = parsePageQuery(req.query);
+
+    const statuses = status ? status.split(',').map(s => s.trim().toUpperCase()) : [];
+    if (statuses.some(s => !JOB_STATUSES.includes(s as JobStatus))) {
+        return res.status(400).json({ error: `status harus salah satu dari ${JOB_STATUSES.join(', ')}.` });
+    }
+    if (source && !INGEST_SOURCES.includes(source.toUpperCase() as IngestSource)) {
+        return res.status(400).json({ error: 'source harus YOUTUBE atau SPOTIFY.' });
+    }
+
+    const where: Prisma.IngestJobWhereInput = {
+        ...(statuses.length > 0 ? { status: { in: statuses } } : {}),
+        ...(source ? { source: source.toUpperCase() } : {}),
+    };
+
+    try {
+        const [rows, total] = await Promise.all([
+            prisma.ingestJob.findMany({
+                where: { ...where, ...cursorWhere(JOB_SORT, cursor) },
+                orderBy: sortOrderBy(JOB_SORT),
+                include: JOB_SONG_SELECT,
+                take: take + 1,
+                skip,
+            }),
+            prisma.ingestJob.count({ where }),
+        ]);
+        const { items: jobs, nextCursor } = toPage(rows, JOB_SORT, take);
+
+        return res.json({ jobs: jobs.map(formatJob), total, nextCursor });
+    } catch (err) {
+        if (err instanceof InvalidCursorError) return res.status(400).json({ error: err.message });
+        console.error('[GET /jobs]', err);
+        return res.status(500).json({ error: 'Gagal mengambil daftar job.' });
+    }
+});
+
+/**
+ * GET /jobs/:id
+ * (ADMIN ONLY) Status satu job, untuk polling dari frontend.
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    try {
+        const job = await prisma.ingestJob.findUnique({ where: { id }, include: JOB_SONG_SELECT });
+        if (!job) return res.status(404).json({ error: 'Job tidak ditemukan.' });
+
+        return res.json({ job: formatJob(job) });
+    } catch (err) {
+        console.error('[GET /jobs/:id]', err);
+        return res.status(500).json({ error: 'Gagal mengambil job.' });
+    }
+});
+
+/**
+ * POST /jobs/:id/cancel
+ * (ADMIN ONLY) Batalkan job yang masih antri atau sedang download/upload.
+ * Worker berhenti di pergantian tahap berikutnya dan menghapus file yang sudah terupload.
+ */
+router.post('/:id/cancel', async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    try {
+        const { count } = await prisma.ingestJob.updateMany({
+            where: { id, status: { in: CANCELLABLE_STATUSES } },
+            data: { status: 'CANCELLED', finishedAt: new Date(), lockedAt: null, lockedBy: null },
+        });
+
+        const job = await prisma.ingestJob.findUnique({ where: { id }, include: JOB_SONG_SELECT });
+        if (!job) return res.status(404).json({ error: 'Job tidak ditemukan.' });
+        if (count === 0) {
+            return res.status(409).json({ error: `Job berstatus ${job.status} tidak bisa dibatalkan.`, job: formatJob(job) });
+        }
+
+        return res.json({ job: formatJob(job) });
+    } catch (err: any) {
+        console.error(`[POST /jobs/${id}/cancel]`, err);
+        return res.status(500).json({ error: 'Gagal membatalkan job.', details: err.message });
+    }
+});
+
+/**
+ * POST /jobs/:id/retry
+ * (ADMIN ONLY) Antrikan ulang job FAILED / CANCELLED dengan jatah percobaan baru.
+ */
+router.post('/:id/retry', async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    try {
+        const { count } = await prisma.ingestJob.updateMany({
+            where: { id, status: { in: RETRYABLE_STATUSES } },
+            data: {
+                status: 'QUEUED',
+                attempts: 0,
+                error: null,
+                audioKey: null,
+                runAfter: new Date(),
+                startedAt: null,
+                finishedAt: null,
+            },
+        });
+
+        const job = await prisma.ingestJob.findUnique({ where: { id }, include: JOB_SONG_SELECT });
+        if (!job) return res.status(404).json({ error: 'Job tidak ditemukan.' });
+        if (count === 0) {
+            return res.status(409).json({ error: `Job berstatus ${job.status} tidak bisa diulang.`, job: formatJob(job) });
+        }
+
+        return res.json({ job: formatJob(job) });
+    } catch (err: any) {
+        console.error(`[POST /jobs/${id}/retry]`, err);
+        return res.status(500).json({ error: 'Gagal mengulang job.', details: err.message });
+    }
+});
+
+export default router;
@@ -0,0 +1,208 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import { formatSongSummary, SONG_SUMMARY_INCLUDE } from '../lib/songFormat';
+import { cursorWhere, parsePageQuery, sortOrderBy, toPage, InvalidCursorError, SortKey } from '../lib/paging';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Semua list library diurutkan dari yang terakhir disimpan
+const LIBRARY_SORT: SortKey[] = [{ field: 'createdAt', dir: 'desc' }, { field: 'id', dir: 'desc' }];
+
+/**
+ * GET /library/songs
+ * Liked Songs milik user, terbaru di-like lebih dulu.
+ * Query params: ?limit=20&cursor=<nextCursor>
+ */
+router.get('/songs', requireAuth, async (req: Request, res: Response) => {
+    const { take, cursor, skip } = parsePageQuery(req.query);
+    const userId = req.user!.userId;
+
+    try {
+        const [likedRows, total] = await Promise.all([
+            prisma.likedSong.findMany({
+                where: { userId, ...cursorWhere(LIBRARY_SORT, cursor) },
+                orderBy: sortOrderBy(LIBRARY_SORT),
+                include: { song: { include: SONG_SUMMARY_INCLUDE } },
+                take: take + 1,
+                skip,
+            }),
+            prisma.likedSong.count({ where: { userId } }),
+        ]);
+        const { items: liked, nextCursor } = toPage(likedRows, LIBRARY_SORT, take);
+
+        return res.json({
+            songs: liked.map(l => ({ ...formatSongSummary(l.song), isLiked: true, likedAt: l.createdAt })),
+            total,
+            nextCursor,
+        });
+    } catch (err) {
+        if (err instanceof InvalidCursorError) return res.status(400).json({ error: err.message });
+        console.error('[GET /library/songs]', err);
+        return res.status(500).json({ error: 'Gagal mengambil lagu yang disukai.' });
+    }
+});
+
+/**
+ * POST /library/songs/:songId/toggle
+ * Like / unlike lagu. Return: { liked: boolean }
+ */
+router.post('/songs/:songId/toggle', requireAuth, async (req: Request, res: Response) => {
+    const { songId } = req.params;
+    const userId = req.user!.userId;
+
+    try {
+        const { count } = await prisma.likedSong.deleteMany({ where: { userId, songId } });
+        if (count > 0) return res.json({ liked: false });
+
+        await prisma.likedSong.create({ data: { userId, songId } });
+        return res.json({ liked: true });
+    } catch (err: any) {
+        // P2002: request ganda yang bersamaan sudah membuat like-nya
+        if (err.code === 'P2002') return res.json({ liked: true });
+        if (err.code === 'P2003') return res.status(404).json({ error: 'Lagu tidak ditemukan.' });
+        console.error('[POST /library/songs/:songId/toggle]', err);
+        return res.status(500).json({ error: 'Gagal menyukai lagu.' });
+    }
+});
+
+/**
+ * GET /library/albums
+ * Album yang disimpan user.
+ * Query params: ?limit=20&cursor=<nextCursor>
+ */
+router.get('/albums', requireAuth, async (req: Request, res: Response) => {
+    const { take, cursor, skip } = parsePageQuery(req.query);
+    const userId = req.user!.userId;
+
+    try {
+        const [savedRows, total] = await Promise.all([
+            prisma.savedAlbum.findMany({
+                where: { userId, ...cursorWhere(LIBRARY_SORT, cursor) },
+                orderBy: sortOrderBy(LIBRARY_SORT),
+                include: {
+                    album: {
+                        include: {
+                            artist: { select: { id: true, name: true, avatarUrl: true } },
+                            _count: { select: { songs: true } },
+                        },
+                    },
+                },
+                take: take + 1,
+                skip,
+            }),
+            prisma.savedAlbum.count({ where: { userId } }),
+        ]);
+        const { items: saved, nextCursor } = toPage(savedRows, LIBRARY_SORT, take);
+
+        return res.json({
+            albums: saved.map(s => ({
+                id: s.album.id,
+                title: s.album.title,
+                releaseYear: s.album.releaseYear,
+                coverUrl: s.album.coverUrl,
+                artist: s.album.artist,
+                totalSongs: s.album._count.songs,
+                savedAt: s.createdAt,
+            })),
+            total,
+            nextCursor,
+        });
+    } catch (err) {
+        if (err instanceof InvalidCursorError) return res.status(400).json({ error: err.message });
+        console.error('[GET /library/albums]', err);
+        return res.status(500).json({ error: 'Gagal mengambil album tersimpan.' });
+    }
+});
+
+/**
+ * POST /library/albums/:albumId/toggle
+ * Simpan / hapus album dari library. Return: { saved: boolean }
+ */
+router.post('/albums/:albumId/toggle', requireAuth, async (req: Request, res: Response) => {
+    const { albumId } = req.params;
+    const userId = req.user!.userId;
+
+    try {
+        const { count } = await prisma.savedAlbum.deleteMany({ where: { userId, albumId } });
+        if (count > 0) return res.json({ saved: false });
+
+        await prisma.savedAlbum.create({ data: { userId, albumId } });
+        return res.json({ saved: true });
+    } catch (err: any) {
+        if (err.code === 'P2002') return res.json({ saved: true });
+        if (err.code === 'P2003') return res.status(404).json({ error: 'Album tidak ditemukan.' });
+        console.error('[POST /library/albums/:albumId/toggle]', err);
+        return res.status(500).json({ error: 'Gagal menyimpan album.' });
+    }
+});
+
+/**
+ * GET /library/artists
+ * Artis yang di-follow user.
+ * Query params: ?limit=20&cursor=<nextCursor>
+ */
+router.get('/artists', requireAuth, async (req: Request, res: Response) => {
+    const { take, cursor, skip } = parsePageQuery(req.query);
+    const userId = req.user!.userId;
+
+    try {
+        const [followedRows, total] = await Promise.all([
+            prisma.followedArtist.findMany({
+                where: { userId, ...cursorWhere(LIBRARY_SORT, cursor) },
+                orderBy: sortOrderBy(LIBRARY_SORT),
+                include: {
+                    artist: {
+                        include: { _count: { select: { songs: true, followers: true } } },
+                    },
+                },
+                take: take + 1,
+                skip,
+            }),
+            prisma.followedArtist.count({ where: { userId } }),
+        ]);
+        const { items: followed, nextCursor } = toPage(followedRows, LIBRARY_SORT, take);
+
+        return res.json({
+            artists: followed.map(f => ({
+                id: f.artist.id,
+                name: f.artist.name,
+                avatarUrl: f.artist.avatarUrl,
+                totalSongs: f.artist._count.songs,
+                followers: f.artist._count.followers,
+                followedAt: f.createdAt,
+            })),
+            total,
+            nextCursor,
+        });
+    } catch (err) {
+        if (err instanceof InvalidCursorError) return res.status(400).json({ error: err.message });
+        console.error('[GET /library/artists]', err);
+        return res.status(500).json({ error: 'Gagal mengambil artis yang diikuti.' });
+    }
+});
+
+/**
+ * POST /library/artists/:artistId/toggle
+ * Follow / unfollow artis. Return: { following: boolean }
+ */
+router.post('/artists/:artistId/toggle', requireAuth, async (req: Request, res: Response) => {
+    const { artistId } = req.params;
+    const userId = req.user!.userId;
+
+    try {
+        const { count } = await prisma.followedArtist.deleteMany({ where: { userId, artistId } });
+        if (count > 0) return res.json({ following: false });
+
+        await prisma.followedArtist.create({ data: { userId, artistId } });
+        return res.json({ following: true });
+    } catch (err: any) {
+        if (err.code === 'P2002') return res.json({ following: true });
+        if (err.code === 'P2003') return res.status(404).json({ error: 'Artis tidak ditemukan.' });
+        console.error('[POST /library/artists/:artistId/toggle]', err);
+        return res.status(500).json({ error: 'Gagal follow artis.' });
+    }
+});
+
+export default router;
@@ -1,25 +1,257 @@
 import { Router, Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { requireAuth } from '../middleware/auth';
+import { evaluateSmartRules, parseSmartRules, smartRulesToFilter, SmartRules, SMART_DEFAULT_LIMIT } from '../lib/smartPlaylists';
+import { buildSongWhere } from '../lib/songFilters';
+import { buildSongIndex, findSongCandidates, findSongIdsByTitle, normalizeKey } from '../lib/songMatching';
+import {
+    detectPlaylistFormat,
+    parsePlaylist,
+    serializePlaylist,
+    PlaylistFormat,
+    PLAYLIST_CONTENT_TYPES,
+    PLAYLIST_FORMATS,
+} from '../lib/playlistFormats';
+import { compactPositions, insertPlaylistSongs, lockPlaylist } from '../lib/playlistItems';
+import { cursorWhere, decodeCursor, parsePageQuery, sortOrderBy, toPage, InvalidCursorError, PageQuery, SortKey } from '../lib/paging';
 
 const router = Router();
 const prisma = new PrismaClient();
 
+// Link lagu di file export mengarah ke halaman lagu di frontend
+const SONG_LINK_BASE = process.env.FRONTEND_URL || 'http://localhost:3000';
+const MAX_IMPORT_ENTRIES = 1000;
+
+// Baris laporan POST /playlists/import
+interface ImportEntryReport {
+    index: number;
+    title: string;
+    artists: string[];
+}
+
+interface ImportSongSummary {
+    id: string;
+    title: string;
+    artists: string[];
+    album: string | null;
+}
+
+// ── Helpers: hak akses playlist ───────────────────────────────────────────────
+// OWNER  → pemilik (Playlist.userId), boleh semua termasuk kelola kolaborator
+// EDITOR → kolaborator, boleh tambah/hapus/urutkan lagu
+// VIEWER → kolaborator, hanya boleh melihat
+type PlaylistRole = 'OWNER' | 'EDITOR' | 'VIEWER';
+
+const COLLABORATOR_ROLES = ['EDITOR', 'VIEWER'];
+
+async function getPlaylistRole(playlistId: string, userId: string): Promise<PlaylistRole | null> {
+    const playlist = await prisma.playlist.findUnique({
+        where: { id: playlistId },
+        select: {
+            userId: true,
+            collaborators: { where: { userId }, select: { role: true } },
+        },
+    });
+
+    if (!playlist) return null;
+    if (playlist.userId === userId) return 'OWNER';
+    return (playlist.collaborators[0]?.role as PlaylistRole) ?? null;
+}
+
+function canEditItems(role: PlaylistRole | null): boolean {
+    return role === 'OWNER' || role === 'EDITOR';
+}
+
+async function isSmartPlaylist(playlistId: string): Promise<boolean> {
+    const playlist = await prisma.playlist.findUnique({
+        where: { id: playlistId },
+        select: { smartRules: true },
+    });
+    return !!playlist?.smartRules;
+}
+
+// ── Helpers: visibilitas & detail playlist ────────────────────────────────────
+// PRIVATE  → hanya owner & kolaborator
+// UNLISTED → owner & kolaborator, plus siapa saja yang punya link share (shareToken)
+// PUBLIC   → siapa saja, termasuk tanpa login
+const VISIBILITIES = ['PRIVATE', 'UNLISTED', 'PUBLIC'];
+
+const MY_PLAYLISTS_SORT: SortKey[] = [{ field: 'createdAt', dir: 'desc' }, { field: 'id', dir: 'desc' }];
+
+function generateShareToken(): string {
+    return crypto.randomBytes(16).toString('base64url');
+}
+
+const PLAYLIST_SONG_INCLUDE = {
+    artists: { select: { id: true, name: true } },
+    album: { select: { id: true, title: true, coverUrl: true } },
+} satisfies Prisma.SongInclude;
+
+const PLAYLIST_DETAIL_INCLUDE = {
+    user: { select: { id: true, name: true } },
+    collaborators: {
+        orderBy: { createdAt: 'asc' },
+        select: {
+            role: true,
+            user: { select: { id: true, name: true, avatarUrl: true } },
+        },
+    },
+} satisfies Prisma.PlaylistInclude;
+
+const PLAYLIST_ITEM_INCLUDE = {
+    addedBy: { select: { id: true, name: true, avatarUrl: true } },
+    song: { include: PLAYLIST_SONG_INCLUDE },
+} satisfies Prisma.PlaylistItemInclude;
+
+// Item playlist diurutkan berdasarkan posisi; smart playlist memakai id lagu sebagai `id`
+const PLAYLIST_ITEM_SORT: SortKey[] = [{ field: 'position', dir: 'asc' }, { field: 'id', dir: 'asc' }];
+const PLAYLIST_ITEMS_PAGE = 100;
+const PLAYLIST_ITEMS_MAX_PAGE = 500;
+
+type PlaylistDetail = Prisma.PlaylistGetPayload<{ include: typeof PLAYLIST_DETAIL_INCLUDE }>;
+type PlaylistDetailItem = Pick<
+    Prisma.PlaylistItemGetPayload<{ include: typeof PLAYLIST_ITEM_INCLUDE }>,
+    'id' | 'position' | 'addedAt' | 'addedBy' | 'song'
+>;
+
+interface PlaylistItemsPage {
+    items: PlaylistDetailItem[];
+    total: number;
+    nextCursor: string | null;
+}
+
+/**
+ * Item playlist untuk ditampilkan. Playlist biasa memakai PlaylistItem,
+ * smart playlist dievaluasi dari aturannya lalu dibentuk menjadi item "virtual"
+ * (addedAt = tanggal lagu masuk katalog, addedBy = null).
+ *
+ * Tanpa `page` semua item dikembalikan (dipakai export).
+ */
+async function loadPlaylistItems(playlist: PlaylistDetail, page?: PageQuery): Promise<PlaylistItemsPage> {
+    if (playlist.smartRules) {
+        const songs = await evaluateSmartRules(
+            prisma,
+            playlist.smartRules as SmartRules,
+            playlist.userId,
+            PLAYLIST_SONG_INCLUDE,
+        );
+
+        const all: PlaylistDetailItem[] = songs.map((song, i) => ({
+            id: song.id,
+            position: i + 1,
+            addedAt: song.createdAt,
+            addedBy: null,
+            song,
+        }));
+        if (!page) return { items: all, total: all.length, nextCursor: null };
+
+        // Isi smart playlist dibatasi SMART_MAX_LIMIT, jadi cukup dipotong di memori
+        let start = page.skip;
+        if (page.cursor) {
+            const values = decodeCursor(page.cursor);
+            if (!values || typeof values[0] !== 'number' || !Number.isInteger(values[0]) || values[0] < 0) {
+                throw new InvalidCursorError();
+            }
+            start = values[0];
+        }
+        return {
+            ...toPage(all.slice(start, start + page.take + 1), PLAYLIST_ITEM_SORT, page.take),
+            total: all.length,
+        };
+    }
+
+    if (!page) {
+        const items = await prisma.playlistItem.findMany({
+            where: { playlistId: playlist.id },
+            orderBy: sortOrderBy(PLAYLIST_ITEM_SORT),
+            include: PLAYLIST_ITEM_INCLUDE,
+        });
+        return { items, total: items.length, nextCursor: null };
+    }
+
+    const [rows, total] = await Promise.all([
+        prisma.playlistItem.findMany({
+            where: { playlistId: playlist.id, ...cursorWhere(PLAYLIST_ITEM_SORT, page.cursor) },
+            orderBy: sortOrderBy(PLAYLIST_ITEM_SORT),
+            include: PLAYLIST_ITEM_INCLUDE,
+            take: page.take + 1,
+            skip: page.skip,
+        }),
+        prisma.playlistItem.count({ where: { playlistId: playlist.id } }),
+    ]);
+
+    return { ...toPage(rows, PLAYLIST_ITEM_SORT, page.take), total };
+}
+
+function formatPlaylistDetail(playlist: PlaylistDetail, page: PlaylistItemsPage) {
+    // Flatten structure untuk kemudahan konsumsi di frontend
+    const songs = page.items.map((item) => ({
+        position: item.position,
+        addedAt: item.addedAt,
+        addedBy: item.addedBy,
+        song: {
+            id: item.song.id,
+            title: item.song.title,
+            durationSec: item.song.durationSec,
+            coverUrl: item.song.coverUrl || item.song.album?.coverUrl || null,
+            artists: item.song.artists,
+            album: item.song.album,
+        },
+    }));
+
+    return {
+        id: playlist.id,
+        name: playlist.name,
+        description: playlist.description,
+        coverUrl: playlist.coverUrl,
+        visibility: playlist.visibility,
+        isSmart: !!playlist.smartRules,
+        smartRules: playlist.smartRules,
+        owner: playlist.user,
+        collaborators: playlist.collaborators.map(c => ({ ...c.user, role: c.role })),
+        totalSongs: page.total,
+        songs,
+        nextCursor: page.nextCursor,
+    };
+}
+
 /**
  * POST /playlists
  * Buat playlist baru untuk user yang sedang login
- * Body: { name: string, description?: string }
+ * Body: { name: string, description?: string, visibility?: 'PRIVATE' | 'UNLISTED' | 'PUBLIC', smartRules?: SmartRules }
+ *
+ * Jika `smartRules` diisi, playlist menjadi smart playlist: isinya dihitung otomatis
+ * dari aturan (lihat src/lib/smartPlaylists.ts), bukan dari PlaylistItem.
  */
 router.post('/', requireAuth, async (req: Request, res: Response) => {
-    const { name, description } = req.body as { name?: string; description?: string };
+    const { name, description, visibility = 'PRIVATE', smartRules } = req.body as {
+        name?: string;
+        description?: string;
+        visibility?: string;
+        smartRules?: unknown;
+    };
 
     if (!name) return res.status(400).json({ error: 'Nama playlist wajib diisi.' });
+    if (!VISIBILITIES.includes(visibility)) {
+        return res.status(400).json({ error: 'visibility harus PRIVATE, UNLISTED, atau PUBLIC.' });
+    }
+
+    let rules: SmartRules | undefined;
+    if (smartRules !== undefined) {
+        const parsed = parseSmartRules(smartRules);
+        if ('error' in parsed) return res.status(400).json({ error: parsed.error });
+        rules = parsed.rules;
+    }
 
     try {
         const playlist = await prisma.playlist.create({
             data: {
                 name,
                 description,
+                visibility,
+                shareToken: visibility === 'UNLISTED' ? generateShareToken() : null,
+                ...(rules ? { smartRules: rules as Prisma.InputJsonObject } : {}),
                 userId: req.user!.userId,
             },
         });
@@ -32,17 +264,169 @@ router.post('/', requireAuth, async (req: Request, res: Response) => {
 });
 
 
+/**
+ * POST /playlists/import
+ * Import file playlist (M3U8, XSPF, atau JSON) dan cocokkan tiap entri ke katalog
+ * memakai normalisasi yang sama dengan POST /songs/exists.
+ * Body: {
+ *   content: string,              ← isi file
+ *   format?: 'm3u8' | 'xspf' | 'json',  ← default: dideteksi dari isi
+ *   name?: string,                ← nama playlist baru
+ *   playlistId?: string,          ← tambahkan ke playlist yang sudah ada (owner/editor)
+ *   dryRun?: boolean              ← hanya kembalikan laporan, tanpa menyimpan
+ * }
+ *
+ * Laporan: matched (tepat satu lagu), ambiguous (beberapa kandidat), missing (tidak ada).
+ * Hanya lagu `matched` yang dimasukkan ke playlist.
+ */
+router.post('/import', requireAuth, async (req: Request, res: Response) => {
+    const { content, format: rawFormat, name, playlistId, dryRun } = req.body as {
+        content?: string;
+        format?: string;
+        name?: string;
+        playlistId?: string;
+        dryRun?: boolean;
+    };
+
+    if (!content || typeof content !== 'string') return res.status(400).json({ error: 'content wajib diisi.' });
+
+    const format = (rawFormat?.toLowerCase() as PlaylistFormat | undefined) ?? detectPlaylistFormat(content);
+    if (!format || !PLAYLIST_FORMATS.includes(format)) {
+        return res.status(400).json({ error: 'Format tidak dikenali. Gunakan m3u8, xspf, atau json.' });
+    }
+
+    let entries;
+    try {
+        entries = parsePlaylist(content, format);
+    } catch (err: any) {
+        return res.status(400).json({ error: 'File playlist tidak valid.', details: err.message });
+    }
+
+    if (entries.length === 0) return res.status(400).json({ error: 'Tidak ada lagu di file playlist.' });
+    if (entries.length > MAX_IMPORT_ENTRIES) {
+        return res.status(400).json({ error: `Maksimal ${MAX_IMPORT_ENTRIES} lagu per import.` });
+    }
+
+    try {
+        if (playlistId && !dryRun) {
+            const role = await getPlaylistRole(playlistId, req.user!.userId);
+            if (!canEditItems(role)) return res.status(403).json({ error: 'Tidak diizinkan.' });
+            if (await isSmartPlaylist(playlistId)) {
+                return res.status(400).json({ error: 'Lagu di smart playlist diatur otomatis dan tidak bisa diubah manual.' });
+            }
+        }
+
+        const candidateIds = await findSongIdsByTitle(prisma, entries.map(e => e.title));
+        const catalog = await prisma.song.findMany({
+            where: { id: { in: candidateIds } },
+            select: {
+                id: true,
+                title: true,
+                durationSec: true,
+                artists: { select: { name: true } },
+                album: { select: { title: true } },
+            },
+        });
+        const songsById = new Map(catalog.map(song => [song.id, song]));
+        const index = buildSongIndex(catalog);
+
+        const summarize = (songId: string): ImportSongSummary => {
+            const song = songsById.get(songId)!;
+            return { id: song.id, title: song.title, artists: song.artists.map(a => a.name), album: song.album?.title ?? null };
+        };
+
+        const matched: (ImportEntryReport & { song: ImportSongSummary })[] = [];
+        const ambiguous: (ImportEntryReport & { candidates: ImportSongSummary[] })[] = [];
+        const missing: ImportEntryReport[] = [];
+
+        entries.forEach((entry, i) => {
+            const base: ImportEntryReport = { index: i, title: entry.title, artists: entry.artists };
+            let candidates = findSongCandidates(index, entry.title, entry.artists, true);
+
+            // Persempit kandidat ganda dengan album lalu durasi (toleransi 3 detik)
+            if (candidates.length > 1 && entry.album) {
+                const albumKey = normalizeKey(entry.album);
+                const byAlbum = candidates.filter(id => normalizeKey(songsById.get(id)!.album?.title || '') === albumKey);
+                if (byAlbum.length > 0) candidates = byAlbum;
+            }
+            if (candidates.length > 1 && entry.durationSec) {
+                const byDuration = candidates.filter(id => Math.abs(songsById.get(id)!.durationSec - entry.durationSec!) <= 3);
+                if (byDuration.length > 0) candidates = byDuration;
+            }
+
+            if (candidates.length === 1) matched.push({ ...base, song: summarize(candidates[0]) });
+            else if (candidates.length > 1) ambiguous.push({ ...base, candidates: candidates.map(summarize) });
+            else missing.push(base);
+        });
+
+        const report = {
+            format,
+            total: entries.length,
+            matched,
+            ambiguous,
+            missing,
+        };
+
+        if (dryRun) return res.json({ report });
+
+        const matchedIds = [...new Set(matched.map(m => m.song.id))];
+
+        // Playlist baru dibuat di transaksi yang sama, jadi tidak tersisa playlist kosong jika insert gagal
+        const { target, result } = await prisma.$transaction(async (tx) => {
+            const target = playlistId
+                ? { id: playlistId }
+                : await tx.playlist.create({
+                    data: {
+                        name: name || 'Playlist Import',
+                        userId: req.user!.userId,
+                    },
+                    select: { id: true },
+                });
+
+            await lockPlaylist(tx, target.id);
+            return { target, result: await insertPlaylistSongs(tx, target.id, matchedIds, req.user!.userId) };
+        });
+
+        console.log(`[POST /playlists/import] ${format}: ${matched.length} matched, ${ambiguous.length} ambiguous, ${missing.length} missing → ${target.id}`);
+        return res.status(201).json({
+            playlistId: target.id,
+            added: result.added.length,
+            report,
+        });
+    } catch (err) {
+        console.error('[POST /playlists/import]', err);
+        return res.status(500).json({ error: 'Gagal import playlist.' });
+    }
+});
+
 /**
  * GET /playlists/my
- * Mendapatkan daftar playlist milik user yang sedang login
+ * Mendapatkan daftar playlist milik user yang sedang login,
+ * ditambah playlist orang lain yang dibagikan ke user ini (kolaborasi).
+ * Setiap playlist membawa `role`: OWNER | EDITOR | VIEWER
+ * Query params: ?songId=<id>&limit=50&cursor=<nextCursor>
  */
 router.get('/my', requireAuth, async (req: Request, res: Response) => {
     const { songId } = req.query as { songId?: string };
+    const { take, cursor, skip } = parsePageQuery(req.query, 50);
+    const userId = req.user!.userId;
     try {
-        const playlists = await prisma.playlist.findMany({
-            where: { userId: req.user!.userId },
-            orderBy: { createdAt: 'desc' },
+        const rows = await prisma.playlist.findMany({
+            where: {
+                AND: [
+                    { OR: [{ userId }, { collaborators: { some: { userId } } }] },
+                    cursorWhere(MY_PLAYLISTS_SORT, cursor),
+                ],
+            },
+            orderBy: sortOrderBy(MY_PLAYLISTS_SORT),
+            take: take + 1,
+            skip,
             include: {
+                user: { select: { id: true, name: true } },
+                collaborators: {
+                    where: { userId },
+                    select: { role: true }
+                },
                 _count: {
                     select: { items: true }
                 },
@@ -52,6 +436,16 @@ router.get('/my', requireAuth, async (req: Request, res: Response) => {
                 } : false
             }
         });
+        const { items: playlists, nextCursor } = toPage(rows, MY_PLAYLISTS_SORT, take);
+
+        // Smart playlist tidak punya PlaylistItem, jadi jumlah lagunya dihitung dari aturan
+        const smartCounts = new Map<string, number>();
+        await Promise.all(playlists.filter(p => p.smartRules).map(async (p) => {
+            const rules = p.smartRules as SmartRules;
+            const filter = await smartRulesToFilter(prisma, rules, p.userId);
+            const count = await prisma.song.count({ where: buildSongWhere(filter) });
+            smartCounts.set(p.id, Math.min(count, rules.limit ?? SMART_DEFAULT_LIMIT));
+        }));
 
         return res.json({
             playlists: playlists.map((p: any) => ({
@@ -59,19 +453,81 @@ router.get('/my', requireAuth, async (req: Request, res: Response) => {
                 name: p.name,
                 description: p.description,
                 coverUrl: p.coverUrl,
-                totalSongs: p._count.items,
-                hasSong: songId ? p.items.length > 0 : undefined
-            }))
+                visibility: p.visibility,
+                shareToken: p.userId === userId ? p.shareToken : undefined,
+                owner: p.user,
+                role: p.userId === userId ? 'OWNER' : p.collaborators[0]?.role,
+                isSmart: !!p.smartRules,
+                totalSongs: smartCounts.get(p.id) ?? p._count.items,
+                hasSong: songId && !p.smartRules ? p.items.length > 0 : undefined
+            })),
+            nextCursor,
         });
     } catch (err) {
+        if (err instanceof InvalidCursorError) return res.status(400).json({ error: err.message });
         console.error('[GET /playlists/my]', err);
         return res.status(500).json({ error: 'Gagal mengambil playlist Anda.' });
     }
 });
 
+/**
+ * GET /playlists/public/:id
+ * (TANPA LOGIN) Detail read-only playlist PUBLIC, untuk link yang dibagikan
+ * ke teman yang belum punya akun.
+ * Query params: ?limit=100&cursor=<nextCursor>
+ */
+router.get('/public/:id', async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    try {
+        const playlist = await prisma.playlist.findFirst({
+            where: { id, visibility: 'PUBLIC' },
+            include: PLAYLIST_DETAIL_INCLUDE,
+        });
+
+        if (!playlist) return res.status(404).json({ error: 'Playlist tidak ditemukan.' });
+
+        const page = parsePageQuery(req.query, PLAYLIST_ITEMS_PAGE, PLAYLIST_ITEMS_MAX_PAGE);
+        return res.json(formatPlaylistDetail(playlist, await loadPlaylistItems(playlist, page)));
+    } catch (err) {
+        if (err instanceof InvalidCursorError) return res.status(400).json({ error: err.message });
+        console.error('[GET /playlists/public/:id]', err);
+        return res.status(500).json({ error: 'Gagal mengambil playlist.' });
+    }
+});
+
+/**
+ * GET /playlists/shared/:token
+ * (TANPA LOGIN) Detail read-only playlist UNLISTED/PUBLIC lewat share token.
+ * Token yang sudah dicabut / diganti otomatis tidak berlaku lagi.
+ * Query params: ?limit=100&cursor=<nextCursor>
+ */
+router.get('/shared/:token', async (req: Request, res: Response) => {
+    const { token } = req.params;
+
+    try {
+        const playlist = await prisma.playlist.findFirst({
+            where: { shareToken: token, visibility: { in: ['UNLISTED', 'PUBLIC'] } },
+            include: PLAYLIST_DETAIL_INCLUDE,
+        });
+
+        if (!playlist) return res.status(404).json({ error: 'Playlist tidak ditemukan.' });
+
+        const page = parsePageQuery(req.query, PLAYLIST_ITEMS_PAGE, PLAYLIST_ITEMS_MAX_PAGE);
+        return res.json(formatPlaylistDetail(playlist, await loadPlaylistItems(playlist, page)));
+    } catch (err) {
+        if (err instanceof InvalidCursorError) return res.status(400).json({ error: err.message });
+        console.error('[GET /playlists/shared/:token]', err);
+        return res.status(500).json({ error: 'Gagal mengambil playlist.' });
+    }
+});
+
 /**
  * GET /playlists/:id
- * Detail playlist beserta semua lagu di dalamnya
+ * Detail playlist beserta lagu di dalamnya (per halaman, urut posisi).
+ * PUBLIC bisa dilihat semua user login; PRIVATE & UNLISTED hanya owner/kolaborator
+ * (selain itu 404, supaya keberadaan playlist tidak bocor).
+ * Query params: ?limit=100&cursor=<nextCursor>
  */
 router.get('/:id', requireAuth, async (req: Request, res: Response) => {
     const { id } = req.params;
@@ -79,50 +535,85 @@ router.get('/:id', requireAuth, async (req: Request, res: Response) => {
     try {
         const playlist = await prisma.playlist.findUnique({
             where: { id },
-            include: {
-                user: { select: { id: true, name: true } },
-                items: {
-                    orderBy: { position: 'asc' },
-                    include: {
-                        song: {
-                            include: {
-                                artists: { select: { id: true, name: true } },
-                                album: { select: { id: true, title: true, coverUrl: true } },
-                            },
-                        },
-                    },
-                },
-            },
+            include: PLAYLIST_DETAIL_INCLUDE,
+        });
+
+        if (!playlist) return res.status(404).json({ error: 'Playlist tidak ditemukan.' });
+
+        if (playlist.visibility !== 'PUBLIC') {
+            const role = await getPlaylistRole(id, req.user!.userId);
+            if (!role) return res.status(404).json({ error: 'Playlist tidak ditemukan.' });
+        }
+
+        const page = parsePageQuery(req.query, PLAYLIST_ITEMS_PAGE, PLAYLIST_ITEMS_MAX_PAGE);
+
+        // Catat playlist dibuka untuk "jump back in" di /home (hanya halaman pertama, fire-and-forget)
+        if (!page.cursor) {
+            prisma.playlistOpen
+                .upsert({
+                    where: { userId_playlistId: { userId: req.user!.userId, playlistId: id } },
+                    create: { userId: req.user!.userId, playlistId: id },
+                    update: { openedAt: new Date() },
+                })
+                .catch(() => { }); // jangan block response
+        }
+
+        return res.json(formatPlaylistDetail(playlist, await loadPlaylistItems(playlist, page)));
+    } catch (err) {
+        if (err instanceof InvalidCursorError) return res.status(400).json({ error: err.message });
+        console.error('[GET /playlists/:id]', err);
+        return res.status(500).json({ error: 'Gagal mengambil playlist.' });
+    }
+});
+
+/**
+ * GET /playlists/:id/export?format=m3u8|xspf|json
+ * Download playlist sebagai file (judul, artis, album, durasi per lagu).
+ * Aturan akses sama dengan GET /playlists/:id. Default format: json.
+ */
+router.get('/:id/export', requireAuth, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const format = String(req.query.format || 'json').toLowerCase() as PlaylistFormat;
+
+    if (!PLAYLIST_FORMATS.includes(format)) {
+        return res.status(400).json({ error: 'format harus m3u8, xspf, atau json.' });
+    }
+
+    try {
+        const playlist = await prisma.playlist.findUnique({
+            where: { id },
+            include: PLAYLIST_DETAIL_INCLUDE,
         });
 
         if (!playlist) return res.status(404).json({ error: 'Playlist tidak ditemukan.' });
 
-        // Flatten structure untuk kemudahan konsumsi di frontend
-        const songs = playlist.items.map((item: any) => ({
-            position: item.position,
-            addedAt: item.addedAt,
-            song: {
+        if (playlist.visibility !== 'PUBLIC') {
+            const role = await getPlaylistRole(id, req.user!.userId);
+            if (!role) return res.status(404).json({ error: 'Playlist tidak ditemukan.' });
+        }
+
+        const { items } = await loadPlaylistItems(playlist);
+        const body = serializePlaylist({
+            name: playlist.name,
+            description: playlist.description,
+            owner: playlist.user.name,
+            tracks: items.map(item => ({
                 id: item.song.id,
                 title: item.song.title,
+                artists: item.song.artists.map(a => a.name),
+                album: item.song.album?.title ?? null,
                 durationSec: item.song.durationSec,
-                coverUrl: item.song.coverUrl || item.song.album?.coverUrl || null,
-                artists: item.song.artists,
-                album: item.song.album,
-            },
-        }));
+                location: `${SONG_LINK_BASE}/song/${item.song.id}`,
+            })),
+        }, format);
 
-        return res.json({
-            id: playlist.id,
-            name: playlist.name,
-            description: playlist.description,
-            coverUrl: playlist.coverUrl,
-            owner: playlist.user,
-            totalSongs: songs.length,
-            songs,
-        });
+        const fileName = playlist.name.replace(/[^a-zA-Z0-9.-]/g, '_').substring(0, 50) || 'playlist';
+        res.setHeader('Content-Type', PLAYLIST_CONTENT_TYPES[format]);
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}.${format}"`);
+        return res.send(body);
     } catch (err) {
-        console.error('[GET /playlists/:id]', err);
-        return res.status(500).json({ error: 'Gagal mengambil playlist.' });
+        console.error('[GET /playlists/:id/export]', err);
+        return res.status(500).json({ error: 'Gagal export playlist.' });
     }
 });
 
@@ -138,24 +629,29 @@ router.post('/:id/songs', requireAuth, async (req: Request, res: Response) => {
     if (!songId) return res.status(400).json({ error: 'songId wajib diisi.' });
 
     try {
-        // Verifikasi playlist milik user ini
-        const playlist = await prisma.playlist.findFirst({
-            where: { id, userId: req.user!.userId },
-        });
-        if (!playlist) return res.status(403).json({ error: 'Tidak diizinkan.' });
+        // Verifikasi user adalah owner atau editor playlist ini
+        const role = await getPlaylistRole(id, req.user!.userId);
+        if (!canEditItems(role)) return res.status(403).json({ error: 'Tidak diizinkan.' });
+        if (await isSmartPlaylist(id)) {
+            return res.status(400).json({ error: 'Lagu di smart playlist diatur otomatis dan tidak bisa diubah manual.' });
+        }
 
-        // Cari posisi terakhir
-        const lastItem = await prisma.playlistItem.findFirst({
-            where: { playlistId: id },
-            orderBy: { position: 'desc' },
-        });
-        const nextPosition = (lastItem?.position ?? 0) + 1;
+        const item = await prisma.$transaction(async (tx) => {
+            await lockPlaylist(tx, id);
+
+            // Cari posisi terakhir
+            const lastItem = await tx.playlistItem.findFirst({
+                where: { playlistId: id },
+                orderBy: { position: 'desc' },
+            });
+            const nextPosition = (lastItem?.position ?? 0) + 1;
 
-        const item = await prisma.playlistItem.create({
-            data: { playlistId: id, songId, position: nextPosition },
+            return tx.playlistItem.create({
+                data: { playlistId: id, songId, position: nextPosition, addedById: req.user!.userId },
+            });
         });
 
-        console.log(`[POST /playlists/${id}/songs] Added song ${songId} at position ${nextPosition}`);
+        console.log(`[POST /playlists/${id}/songs] Added song ${songId} at position ${item.position}`);
         return res.status(201).json({ item });
     } catch (err: any) {
         if (err.code === 'P2002') {
@@ -166,13 +662,385 @@ router.post('/:id/songs', requireAuth, async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * POST /playlists/:id/songs/bulk
+ * Tambah banyak lagu sekaligus pada posisi tertentu
+ * Body: { songIds: string[], position?: number }  ← posisi 1-based, default: di akhir
+ *
+ * Lagu yang sudah ada di playlist dilewati (dilaporkan di `skipped`).
+ */
+router.post('/:id/songs/bulk', requireAuth, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { songIds, position } = req.body as { songIds?: string[]; position?: number };
+
+    if (!Array.isArray(songIds) || songIds.length === 0) {
+        return res.status(400).json({ error: 'songIds wajib diisi.' });
+    }
+    if (position !== undefined && (!Number.isInteger(Number(position)) || Number(position) < 1)) {
+        return res.status(400).json({ error: 'position harus bilangan bulat >= 1.' });
+    }
+
+    try {
+        const role = await getPlaylistRole(id, req.user!.userId);
+        if (!canEditItems(role)) return res.status(403).json({ error: 'Tidak diizinkan.' });
+        if (await isSmartPlaylist(id)) {
+            return res.status(400).json({ error: 'Lagu di smart playlist diatur otomatis dan tidak bisa diubah manual.' });
+        }
+
+        const uniqueIds = [...new Set(songIds.map(String))];
+        const found = await prisma.song.findMany({
+            where: { id: { in: uniqueIds } },
+            select: { id: true },
+        });
+        const foundIds = new Set(found.map(s => s.id));
+        const notFound = uniqueIds.filter(songId => !foundIds.has(songId));
+
+        const toInsert = uniqueIds.filter(songId => foundIds.has(songId));
+        const result = await prisma.$transaction(async (tx) => {
+            await lockPlaylist(tx, id);
+            return insertPlaylistSongs(tx, id, toInsert, req.user!.userId, position !== undefined ? Number(position) : undefined);
+        });
+
+        console.log(`[POST /playlists/${id}/songs/bulk] Added ${result.added.length} songs at position ${result.insertAt}`);
+        return res.status(201).json({
+            added: result.added,
+            skipped: result.skipped,
+            notFound,
+            position: result.insertAt,
+        });
+    } catch (err: any) {
+        console.error('[POST /playlists/:id/songs/bulk] Error:', err.message);
+        return res.status(500).json({ error: 'Gagal menambah lagu ke playlist.' });
+    }
+});
+
+/**
+ * PATCH /playlists/:id/songs/reorder
+ * Pindahkan satu lagu ke posisi baru (1-based)
+ * Body: { songId: string, toPosition: number }
+ */
+router.patch('/:id/songs/reorder', requireAuth, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { songId, toPosition } = req.body as { songId?: string; toPosition?: number };
+
+    if (!songId) return res.status(400).json({ error: 'songId wajib diisi.' });
+    if (!Number.isInteger(Number(toPosition)) || Number(toPosition) < 1) {
+        return res.status(400).json({ error: 'toPosition harus bilangan bulat >= 1.' });
+    }
+
+    try {
+        const role = await getPlaylistRole(id, req.user!.userId);
+        if (!canEditItems(role)) return res.status(403).json({ error: 'Tidak diizinkan.' });
+        if (await isSmartPlaylist(id)) {
+            return res.status(400).json({ error: 'Lagu di smart playlist diatur otomatis dan tidak bisa diubah manual.' });
+        }
+
+        const moved = await prisma.$transaction(async (tx) => {
+            await lockPlaylist(tx, id);
+
+            const item = await tx.playlistItem.findUnique({
+                where: { playlistId_songId: { playlistId: id, songId } },
+            });
+            if (!item) return null;
+
+            const total = await tx.playlistItem.count({ where: { playlistId: id } });
+            const from = item.position;
+            const to = Math.min(Number(toPosition), total);
+
+            if (to < from) {
+                // Pindah ke atas: item di [to, from) turun satu
+                await tx.playlistItem.updateMany({
+                    where: { playlistId: id, position: { gte: to, lt: from } },
+                    data: { position: { increment: 1 } },
+                });
+            } else if (to > from) {
+                // Pindah ke bawah: item di (from, to] naik satu
+                await tx.playlistItem.updateMany({
+                    where: { playlistId: id, position: { gt: from, lte: to } },
+                    data: { position: { decrement: 1 } },
+                });
+            }
+
+            return tx.playlistItem.update({
+                where: { id: item.id },
+                data: { position: to },
+            });
+        });
+
+        if (!moved) return res.status(404).json({ error: 'Lagu tidak ada di playlist.' });
+
+        return res.json({ item: moved });
+    } catch (err: any) {
+        console.error('[PATCH /playlists/:id/songs/reorder] Error:', err.message);
+        return res.status(500).json({ error: 'Gagal mengubah urutan lagu.' });
+    }
+});
+
+/**
+ * DELETE /playlists/:id/songs
+ * Hapus satu atau beberapa lagu dari playlist, lalu rapatkan posisi
+ * Body: { songIds: string[] }
+ */
+router.delete('/:id/songs', requireAuth, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { songIds } = req.body as { songIds?: string[] };
+
+    if (!Array.isArray(songIds) || songIds.length === 0) {
+        return res.status(400).json({ error: 'songIds wajib diisi.' });
+    }
+
+    try {
+        const role = await getPlaylistRole(id, req.user!.userId);
+        if (!canEditItems(role)) return res.status(403).json({ error: 'Tidak diizinkan.' });
+        if (await isSmartPlaylist(id)) {
+            return res.status(400).json({ error: 'Lagu di smart playlist diatur otomatis dan tidak bisa diubah manual.' });
+        }
+
+        const removed = await prisma.$transaction(async (tx) => {
+            await lockPlaylist(tx, id);
+
+            const { count } = await tx.playlistItem.deleteMany({
+                where: { playlistId: id, songId: { in: songIds.map(String) } },
+            });
+            if (count > 0) await compactPositions(tx, id);
+
+            return count;
+        });
+
+        return res.json({ removed });
+    } catch (err: any) {
+        console.error('[DELETE /playlists/:id/songs] Error:', err.message);
+        return res.status(500).json({ error: 'Gagal menghapus lagu dari playlist.' });
+    }
+});
+
+/**
+ * DELETE /playlists/:id/songs/:songId
+ * Hapus satu lagu dari playlist, lalu rapatkan posisi
+ */
+router.delete('/:id/songs/:songId', requireAuth, async (req: Request, res: Response) => {
+    const { id, songId } = req.params;
+
+    try {
+        const role = await getPlaylistRole(id, req.user!.userId);
+        if (!canEditItems(role)) return res.status(403).json({ error: 'Tidak diizinkan.' });
+        if (await isSmartPlaylist(id)) {
+            return res.status(400).json({ error: 'Lagu di smart playlist diatur otomatis dan tidak bisa diubah manual.' });
+        }
+
+        const removed = await prisma.$transaction(async (tx) => {
+            await lockPlaylist(tx, id);
+
+            const { count } = await tx.playlistItem.deleteMany({
+                where: { playlistId: id, songId },
+            });
+            if (count > 0) await compactPositions(tx, id);
+
+            return count;
+        });
+
+        if (removed === 0) return res.status(404).json({ error: 'Lagu tidak ada di playlist.' });
+
+        return res.json({ message: 'Lagu dihapus dari playlist.' });
+    } catch (err: any) {
+        console.error('[DELETE /playlists/:id/songs/:songId] Error:', err.message);
+        return res.status(500).json({ error: 'Gagal menghapus lagu dari playlist.' });
+    }
+});
+
+/**
+ * GET /playlists/:id/collaborators
+ * Daftar kolaborator playlist (bisa dilihat owner dan semua kolaborator)
+ */
+router.get('/:id/collaborators', requireAuth, async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    try {
+        const role = await getPlaylistRole(id, req.user!.userId);
+        if (!role) return res.status(403).json({ error: 'Tidak diizinkan.' });
+
+        const collaborators = await prisma.playlistCollaborator.findMany({
+            where: { playlistId: id },
+            orderBy: { createdAt: 'asc' },
+            include: {
+                user: { select: { id: true, name: true, email: true, avatarUrl: true } },
+                invitedBy: { select: { id: true, name: true } },
+            },
+        });
+
+        return res.json({
+            collaborators: collaborators.map(c => ({
+                ...c.user,
+                role: c.role,
+                invitedBy: c.invitedBy,
+                since: c.createdAt,
+            })),
+        });
+    } catch (err) {
+        console.error('[GET /playlists/:id/collaborators]', err);
+        return res.status(500).json({ error: 'Gagal mengambil kolaborator.' });
+    }
+});
+
+/**
+ * POST /playlists/:id/collaborators
+ * (OWNER ONLY) Undang user lain sebagai kolaborator.
+ * Body: { email: string, role?: 'EDITOR' | 'VIEWER' }
+ *
+ * Jika user sudah menjadi kolaborator, role-nya diperbarui.
+ */
+router.post('/:id/collaborators', requireAuth, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { email, role = 'EDITOR' } = req.body as { email?: string; role?: string };
+
+    if (!email) return res.status(400).json({ error: 'email wajib diisi.' });
+    if (!COLLABORATOR_ROLES.includes(role)) {
+        return res.status(400).json({ error: 'role harus EDITOR atau VIEWER.' });
+    }
+
+    try {
+        const myRole = await getPlaylistRole(id, req.user!.userId);
+        if (myRole !== 'OWNER') return res.status(403).json({ error: 'Tidak diizinkan.' });
+
+        const invitee = await prisma.user.findUnique({ where: { email } });
+        if (!invitee) return res.status(404).json({ error: 'User dengan email tersebut belum terdaftar.' });
+        if (invitee.id === req.user!.userId) {
+            return res.status(400).json({ error: 'Owner tidak bisa diundang sebagai kolaborator.' });
+        }
+
+        const collaborator = await prisma.playlistCollaborator.upsert({
+            where: { playlistId_userId: { playlistId: id, userId: invitee.id } },
+            update: { role },
+            create: {
+                playlistId: id,
+                userId: invitee.id,
+                role,
+                invitedById: req.user!.userId,
+            },
+        });
+
+        return res.status(201).json({
+            collaborator: {
+                id: invitee.id,
+                name: invitee.name,
+                email: invitee.email,
+                avatarUrl: invitee.avatarUrl,
+                role: collaborator.role,
+                since: collaborator.createdAt,
+            },
+        });
+    } catch (err) {
+        console.error('[POST /playlists/:id/collaborators]', err);
+        return res.status(500).json({ error: 'Gagal mengundang kolaborator.' });
+    }
+});
+
+/**
+ * DELETE /playlists/:id/collaborators/:userId
+ * Cabut akses kolaborator. Owner bisa mencabut siapa saja,
+ * kolaborator bisa mencabut dirinya sendiri (keluar dari playlist).
+ */
+router.delete('/:id/collaborators/:userId', requireAuth, async (req: Request, res: Response) => {
+    const { id, userId } = req.params;
+
+    try {
+        const myRole = await getPlaylistRole(id, req.user!.userId);
+        const isSelf = userId === req.user!.userId;
+        if (myRole !== 'OWNER' && !(myRole && isSelf)) {
+            return res.status(403).json({ error: 'Tidak diizinkan.' });
+        }
+
+        const { count } = await prisma.playlistCollaborator.deleteMany({
+            where: { playlistId: id, userId },
+        });
+        if (count === 0) return res.status(404).json({ error: 'Kolaborator tidak ditemukan.' });
+
+        return res.json({ message: 'Akses kolaborator dicabut.' });
+    } catch (err) {
+        console.error('[DELETE /playlists/:id/collaborators/:userId]', err);
+        return res.status(500).json({ error: 'Gagal mencabut akses kolaborator.' });
+    }
+});
+
+/**
+ * POST /playlists/:id/share-token
+ * (OWNER ONLY) Buat share token baru. Token lama otomatis tidak berlaku.
+ * Playlist PRIVATE tidak bisa dibagikan lewat link; ubah visibility ke UNLISTED/PUBLIC dulu.
+ */
+router.post('/:id/share-token', requireAuth, async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    try {
+        const role = await getPlaylistRole(id, req.user!.userId);
+        if (role !== 'OWNER') return res.status(403).json({ error: 'Tidak diizinkan.' });
+
+        const shareToken = generateShareToken();
+        const { count } = await prisma.playlist.updateMany({
+            where: { id, visibility: { not: 'PRIVATE' } },
+            data: { shareToken },
+        });
+        if (count === 0) {
+            return res.status(400).json({ error: 'Playlist PRIVATE tidak bisa dibagikan lewat link. Ubah visibility ke UNLISTED atau PUBLIC.' });
+        }
+
+        const updated = await prisma.playlist.findUnique({ where: { id }, select: { visibility: true } });
+        return res.status(201).json({ shareToken, visibility: updated?.visibility });
+    } catch (err) {
+        console.error('[POST /playlists/:id/share-token]', err);
+        return res.status(500).json({ error: 'Gagal membuat link share.' });
+    }
+});
+
+/**
+ * DELETE /playlists/:id/share-token
+ * (OWNER ONLY) Cabut share token, link yang sudah dibagikan tidak berlaku lagi.
+ */
+router.delete('/:id/share-token', requireAuth, async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    try {
+        const role = await getPlaylistRole(id, req.user!.userId);
+        if (role !== 'OWNER') return res.status(403).json({ error: 'Tidak diizinkan.' });
+
+        await prisma.playlist.update({
+            where: { id },
+            data: { shareToken: null },
+        });
+
+        return res.json({ message: 'Link share dicabut.' });
+    } catch (err) {
+        console.error('[DELETE /playlists/:id/share-token]', err);
+        return res.status(500).json({ error: 'Gagal mencabut link share.' });
+    }
+});
+
 /**
  * PATCH /playlists/:id
- * Update playlist metadata (Name, Description, Cover)
+ * Update playlist metadata (Name, Description, Cover, Visibility, Smart Rules)
  */
 router.patch('/:id', requireAuth, async (req: Request, res: Response) => {
     const { id } = req.params;
-    const { name, description, coverUrl } = req.body as { name?: string; description?: string; coverUrl?: string };
+    const { name, description, coverUrl, visibility, smartRules } = req.body as {
+        name?: string;
+        description?: string;
+        coverUrl?: string;
+        visibility?: string;
+        smartRules?: unknown;
+    };
+
+    if (visibility !== undefined && !VISIBILITIES.includes(visibility)) {
+        return res.status(400).json({ error: 'visibility harus PRIVATE, UNLISTED, atau PUBLIC.' });
+    }
+
+    // smartRules: null → kembali jadi playlist biasa (kosong)
+    let rulesData: Prisma.InputJsonObject | typeof Prisma.DbNull | undefined;
+    if (smartRules === null) {
+        rulesData = Prisma.DbNull;
+    } else if (smartRules !== undefined) {
+        const parsed = parseSmartRules(smartRules);
+        if ('error' in parsed) return res.status(400).json({ error: parsed.error });
+        rulesData = parsed.rules as Prisma.InputJsonObject;
+    }
 
     try {
         const playlist = await prisma.playlist.findFirst({
@@ -181,12 +1049,20 @@ router.patch('/:id', requireAuth, async (req: Request, res: Response) => {
 
         if (!playlist) return res.status(403).json({ error: 'Tidak diizinkan.' });
 
+        // UNLISTED butuh share token; kembali ke PRIVATE mencabut token lama
+        let shareToken: string | null | undefined;
+        if (visibility === 'UNLISTED' && !playlist.shareToken) shareToken = generateShareToken();
+        if (visibility === 'PRIVATE') shareToken = null;
+
         const updated = await prisma.playlist.update({
             where: { id },
             data: {
                 ...(name ? { name } : {}),
                 ...(description !== undefined ? { description } : {}),
                 ...(coverUrl !== undefined ? { coverUrl } : {}),
+                ...(visibility !== undefined ? { visibility } : {}),
+                ...(shareToken !== undefined ? { shareToken } : {}),
+                ...(rulesData !== undefined ? { smartRules: rulesData } : {}),
             },
         });
 
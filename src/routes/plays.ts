@@ -0,0 +1,98 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { requireAuth, requireAdmin } from '../middleware/auth';
+import {
+    formatPlaySession, isPlayEndReason, recordPlayProgress, recountPlayCounts, startPlaySession,
+    PlaySessionError, PLAY_END_REASONS, HEARTBEAT_INTERVAL_SEC,
+} from '../lib/playSessions';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+function parsePosition(value: unknown): number | null {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+/**
+ * POST /plays
+ * Mulai sesi putar. Body: { songId, source?: string } (source mis. "playlist:<id>", "radio").
+ * Client lalu mengirim heartbeat tiap `heartbeatIntervalSec` dan end saat lagu berhenti.
+ * Play baru dihitung setelah `qualifyAfterSec` detik benar-benar didengar.
+ */
+router.post('/', requireAuth, async (req: Request, res: Response) => {
+    const { songId, source } = req.body as { songId?: string; source?: string };
+
+    if (!songId || typeof songId !== 'string') return res.status(400).json({ error: 'songId wajib diisi.' });
+    if (source !== undefined && typeof source !== 'string') return res.status(400).json({ error: 'source harus string.' });
+
+    try {
+        const { session, qualifyAfterSec } = await startPlaySession(prisma, req.user!.userId, songId, source ?? null);
+
+        return res.status(201).json({
+            session: formatPlaySession(session),
+            heartbeatIntervalSec: HEARTBEAT_INTERVAL_SEC,
+            qualifyAfterSec,
+        });
+    } catch (err) {
+        if (err instanceof PlaySessionError) return res.status(err.status).json({ error: err.message });
+        console.error('[POST /plays]', err);
+        return res.status(500).json({ error: 'Gagal memulai sesi putar.' });
+    }
+});
+
+/**
+ * POST /plays/:id/heartbeat
+ * Laporkan posisi pemutaran saat ini. Body: { positionSec }
+ */
+router.post('/:id/heartbeat', requireAuth, async (req: Request, res: Response) => {
+    const positionSec = parsePosition(req.body?.positionSec);
+    if (positionSec === null) return res.status(400).json({ error: 'positionSec harus angka >= 0.' });
+
+    try {
+        const session = await recordPlayProgress(prisma, req.user!.userId, req.params.id, positionSec);
+        return res.json({ session: formatPlaySession(session) });
+    } catch (err) {
+        if (err instanceof PlaySessionError) return res.status(err.status).json({ error: err.message });
+        console.error('[POST /plays/:id/heartbeat]', err);
+        return res.status(500).json({ error: 'Gagal mencatat heartbeat.' });
+    }
+});
+
+/**
+ * POST /plays/:id/end
+ * Akhiri sesi putar. Body: { positionSec, reason: "COMPLETED" | "SKIPPED" | "ERROR" }
+ */
+router.post('/:id/end', requireAuth, async (req: Request, res: Response) => {
+    const positionSec = parsePosition(req.body?.positionSec);
+    const reason = req.body?.reason;
+
+    if (positionSec === null) return res.status(400).json({ error: 'positionSec harus angka >= 0.' });
+    if (!isPlayEndReason(reason)) {
+        return res.status(400).json({ error: `reason harus salah satu dari: ${PLAY_END_REASONS.join(', ')}.` });
+    }
+
+    try {
+        const session = await recordPlayProgress(prisma, req.user!.userId, req.params.id, positionSec, reason);
+        return res.json({ session: formatPlaySession(session) });
+    } catch (err) {
+        if (err instanceof PlaySessionError) return res.status(err.status).json({ error: err.message });
+        console.error('[POST /plays/:id/end]', err);
+        return res.status(500).json({ error: 'Gagal mengakhiri sesi putar.' });
+    }
+});
+
+/**
+ * POST /plays/recount
+ * (ADMIN ONLY) Hitung ulang playCount semua lagu dari play yang qualified.
+ */
+router.post('/recount', requireAuth, requireAdmin, async (_req: Request, res: Response) => {
+    try {
+        const updated = await recountPlayCounts(prisma);
+        return res.json({ updated });
+    } catch (err) {
+        console.error('[POST /plays/recount]', err);
+        return res.status(500).json({ error: 'Gagal menghitung ulang play count.' });
+    }
+});
+
+export default router;
@@ -0,0 +1,75 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import {
+    createRadioStation, formatRadioStation, formatRadioTracks, nextRadioTracks,
+    RadioSeedError, RadioSeedType, RADIO_SEED_TYPES,
+} from '../lib/radio';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const DEFAULT_BATCH = 20;
+const MAX_BATCH = 50;
+
+function parseBatchSize(value: unknown): number {
+    return Math.min(Math.max(parseInt(String(value ?? DEFAULT_BATCH), 10) || DEFAULT_BATCH, 1), MAX_BATCH);
+}
+
+/**
+ * POST /radio
+ * Buat stasiun radio dari seed. Body: { seedType: 'SONG' | 'ARTIST' | 'PLAYLIST', seedId, limit?: number }
+ * Response berisi batch pertama; lanjutkan dengan GET /radio/:id/tracks saat antrian hampir habis.
+ */
+router.post('/', requireAuth, async (req: Request, res: Response) => {
+    const { seedType, seedId } = req.body as { seedType?: string; seedId?: string };
+
+    if (!RADIO_SEED_TYPES.includes(seedType as RadioSeedType)) {
+        return res.status(400).json({ error: `seedType harus salah satu dari: ${RADIO_SEED_TYPES.join(', ')}.` });
+    }
+    if (!seedId || typeof seedId !== 'string') return res.status(400).json({ error: 'seedId wajib diisi.' });
+
+    try {
+        const created = await createRadioStation(prisma, req.user!.userId, seedType as RadioSeedType, seedId);
+        const { station, tracks } = await nextRadioTracks(prisma, created, parseBatchSize(req.body.limit));
+        return res.status(201).json({ station: formatRadioStation(station), tracks: formatRadioTracks(tracks) });
+    } catch (err) {
+        if (err instanceof RadioSeedError) return res.status(err.status).json({ error: err.message });
+        console.error('[POST /radio]', err);
+        return res.status(500).json({ error: 'Gagal membuat radio.' });
+    }
+});
+
+/**
+ * GET /radio/:id/tracks?limit=20
+ * Batch lagu berikutnya. Setiap panggilan melanjutkan antrian (lagu yang sudah diberikan tidak diulang).
+ */
+router.get('/:id/tracks', requireAuth, async (req: Request, res: Response) => {
+    try {
+        const station = await prisma.radioStation.findUnique({ where: { id: req.params.id } });
+        if (!station || station.userId !== req.user!.userId) return res.status(404).json({ error: 'Radio tidak ditemukan.' });
+
+        const next = await nextRadioTracks(prisma, station, parseBatchSize(req.query.limit));
+        return res.json({ station: formatRadioStation(next.station), tracks: formatRadioTracks(next.tracks) });
+    } catch (err) {
+        console.error('[GET /radio/:id/tracks]', err);
+        return res.status(500).json({ error: 'Gagal mengambil lagu radio.' });
+    }
+});
+
+/**
+ * DELETE /radio/:id
+ * Hapus stasiun (stasiun yang tidak dipakai 7 hari juga dihapus otomatis oleh worker).
+ */
+router.delete('/:id', requireAuth, async (req: Request, res: Response) => {
+    try {
+        const { count } = await prisma.radioStation.deleteMany({ where: { id: req.params.id, userId: req.user!.userId } });
+        if (count === 0) return res.status(404).json({ error: 'Radio tidak ditemukan.' });
+        return res.json({ success: true });
+    } catch (err) {
+        console.error('[DELETE /radio/:id]', err);
+        return res.status(500).json({ error: 'Gagal menghapus radio.' });
+    }
+});
+
+export default router;
@@ -0,0 +1,251 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import { formatSongSummary, SONG_SUMMARY_INCLUDE } from '../lib/songFormat';
+import { getLikedSongIds } from '../lib/library';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Pencarian memakai PostgreSQL pg_trgm (toleran typo) + full-text search untuk lirik.
+// Semua teks dibandingkan lewat immutable_unaccent(lower(...)) sehingga
+// "Kau Rumahku" cocok dengan "kau rumahku" maupun "Kaù Rumahku".
+// Index & fungsi dibuat di migration 20261019120000_search_indexes.
+
+const SEARCH_TYPES = ['songs', 'artists', 'albums', 'playlists'] as const;
+type SearchType = typeof SEARCH_TYPES[number];
+
+// Skor minimum agar hasil "nyaris mirip" tidak ikut muncul. Disaring di SQL sebelum LIMIT,
+// supaya hasil di bawah ambang tidak memakan jatah `limit`.
+const MIN_SCORE = 0.2;
+
+interface ScoredRow {
+    id: string;
+    score: number;
+}
+
+/**
+ * Lagu: kemiripan judul + kemiripan nama artis + kecocokan lirik (FTS),
+ * sedikit bonus untuk lagu populer agar hasil seri tidak acak.
+ */
+async function searchSongIds(term: string, take: number): Promise<ScoredRow[]> {
+    return prisma.$queryRaw<ScoredRow[]>`
+        WITH q AS (
+            SELECT immutable_unaccent(lower(${term})) AS t,
+                   plainto_tsquery('simple', immutable_unaccent(${term})) AS tsq
+        ),
+        scored AS (
+            SELECT s."id",
+                   GREATEST(
+                       similarity(immutable_unaccent(lower(s."title")), q.t),
+                       word_similarity(q.t, immutable_unaccent(lower(s."title")))
+                   ) AS title_score,
+                   COALESCE((
+                       SELECT MAX(word_similarity(q.t, immutable_unaccent(lower(a."name"))))
+                       FROM "_ArtistToSong" x
+                       JOIN "Artist" a ON a."id" = x."A"
+                       WHERE x."B" = s."id"
+                   ), 0) AS artist_score,
+                   ts_rank(to_tsvector('simple', immutable_unaccent(coalesce(s."lyrics", ''))), q.tsq) AS lyrics_score,
+                   s."playCount"
+            FROM "Song" s, q
+            WHERE immutable_unaccent(lower(s."title")) % q.t
+               OR q.t <% immutable_unaccent(lower(s."title"))
+               OR to_tsvector('simple', immutable_unaccent(coalesce(s."lyrics", ''))) @@ q.tsq
+               OR EXISTS (
+                   SELECT 1 FROM "_ArtistToSong" x
+                   JOIN "Artist" a ON a."id" = x."A"
+                   WHERE x."B" = s."id" AND q.t <% immutable_unaccent(lower(a."name"))
+               )
+        )
+        SELECT "id", r.score
+        FROM scored, LATERAL (
+            SELECT (GREATEST(title_score, artist_score * 0.8)
+                    + LEAST(lyrics_score, 0.3)
+                    + LEAST(ln(1 + "playCount") / 100, 0.05))::float8 AS score
+        ) r
+        WHERE r.score >= ${MIN_SCORE}
+        ORDER BY r.score DESC, "playCount" DESC
+        LIMIT ${take}`;
+}
+
+async function searchArtistIds(term: string, take: number): Promise<ScoredRow[]> {
+    return prisma.$queryRaw<ScoredRow[]>`
+        WITH q AS (SELECT immutable_unaccent(lower(${term})) AS t)
+        SELECT a."id", r.score
+        FROM "Artist" a, q, LATERAL (
+            SELECT GREATEST(
+                       similarity(immutable_unaccent(lower(a."name")), q.t),
+                       word_similarity(q.t, immutable_unaccent(lower(a."name")))
+                   )::float8 AS score
+        ) r
+        WHERE (immutable_unaccent(lower(a."name")) % q.t OR q.t <% immutable_unaccent(lower(a."name")))
+          AND r.score >= ${MIN_SCORE}
+        ORDER BY r.score DESC, a."name" ASC
+        LIMIT ${take}`;
+}
+
+async function searchAlbumIds(term: string, take: number): Promise<ScoredRow[]> {
+    return prisma.$queryRaw<ScoredRow[]>`
+        WITH q AS (SELECT immutable_unaccent(lower(${term})) AS t)
+        SELECT al."id", r.score
+        FROM "Album" al
+        JOIN "Artist" ar ON ar."id" = al."artistId", q, LATERAL (
+            SELECT GREATEST(
+                       similarity(immutable_unaccent(lower(al."title")), q.t),
+                       word_similarity(q.t, immutable_unaccent(lower(al."title"))),
+                       word_similarity(q.t, immutable_unaccent(lower(ar."name"))) * 0.7
+                   )::float8 AS score
+        ) r
+        WHERE (immutable_unaccent(lower(al."title")) % q.t
+               OR q.t <% immutable_unaccent(lower(al."title"))
+               OR q.t <% immutable_unaccent(lower(ar."name")))
+          AND r.score >= ${MIN_SCORE}
+        ORDER BY r.score DESC, al."title" ASC
+        LIMIT ${take}`;
+}
+
+/**
+ * Playlist: hanya yang PUBLIC, milik user, atau dibagikan ke user (kolaborasi).
+ */
+async function searchPlaylistIds(term: string, take: number, userId: string): Promise<ScoredRow[]> {
+    return prisma.$queryRaw<ScoredRow[]>`
+        WITH q AS (SELECT immutable_unaccent(lower(${term})) AS t)
+        SELECT p."id", r.score
+        FROM "Playlist" p, q, LATERAL (
+            SELECT GREATEST(
+                       similarity(immutable_unaccent(lower(p."name")), q.t),
+                       word_similarity(q.t, immutable_unaccent(lower(p."name")))
+                   )::float8 AS score
+        ) r
+        WHERE (immutable_unaccent(lower(p."name")) % q.t OR q.t <% immutable_unaccent(lower(p."name")))
+          AND r.score >= ${MIN_SCORE}
+          AND (
+              p."visibility" = 'PUBLIC'
+              OR p."userId" = ${userId}
+              OR EXISTS (
+                  SELECT 1 FROM "PlaylistCollaborator" c
+                  WHERE c."playlistId" = p."id" AND c."userId" = ${userId}
+              )
+          )
+        ORDER BY r.score DESC, p."updatedAt" DESC
+        LIMIT ${take}`;
+}
+
+// Helper: urutkan hasil findMany sesuai urutan id hasil ranking
+function inRankOrder<T extends { id: string }>(rows: ScoredRow[], records: T[]): (T & { score: number })[] {
+    const byId = new Map(records.map(r => [r.id, r]));
+    return rows
+        .filter(row => byId.has(row.id))
+        .map(row => ({ ...byId.get(row.id)!, score: Math.round(row.score * 1000) / 1000 }));
+}
+
+/**
+ * GET /search
+ * Pencarian gabungan lagu, artis, album, dan playlist dengan skor relevansi.
+ * Query params: ?q=<search>&type=songs|artists|albums|playlists&limit=5
+ *
+ * Tanpa `type`, semua grup dikembalikan (masing-masing `limit` hasil, default 5)
+ * beserta `topResult` = hasil dengan skor tertinggi dari semua grup.
+ * Dengan `type`, hanya grup itu yang dicari (default 20, maks 50).
+ */
+router.get('/', requireAuth, async (req: Request, res: Response) => {
+    const { q, type, limit } = req.query as Record<string, string>;
+    const userId = req.user!.userId;
+
+    const term = (q || '').trim();
+    if (!term) return res.status(400).json({ error: 'Query q wajib diisi.' });
+    if (term.length > 100) return res.status(400).json({ error: 'Query q maksimal 100 karakter.' });
+    if (type && !SEARCH_TYPES.includes(type as SearchType)) {
+        return res.status(400).json({ error: 'type harus songs, artists, albums, atau playlists.' });
+    }
+
+    const types: SearchType[] = type ? [type as SearchType] : [...SEARCH_TYPES];
+    const take = Math.min(Math.max(parseInt(limit || (type ? '20' : '5'), 10) || 5, 1), 50);
+
+    try {
+        const none = Promise.resolve<ScoredRow[]>([]);
+        const [songRows, artistRows, albumRows, playlistRows] = (await Promise.all([
+            types.includes('songs') ? searchSongIds(term, take) : none,
+            types.includes('artists') ? searchArtistIds(term, take) : none,
+            types.includes('albums') ? searchAlbumIds(term, take) : none,
+            types.includes('playlists') ? searchPlaylistIds(term, take, userId) : none,
+        ]));
+
+        const [songs, artists, albums, playlists] = await Promise.all([
+            prisma.song.findMany({
+                where: { id: { in: songRows.map(r => r.id) } },
+                include: SONG_SUMMARY_INCLUDE,
+            }),
+            prisma.artist.findMany({
+                where: { id: { in: artistRows.map(r => r.id) } },
+                include: { _count: { select: { songs: true, followers: true } } },
+            }),
+            prisma.album.findMany({
+                where: { id: { in: albumRows.map(r => r.id) } },
+                include: { artist: { select: { id: true, name: true, avatarUrl: true } } },
+            }),
+            prisma.playlist.findMany({
+                where: { id: { in: playlistRows.map(r => r.id) } },
+                include: {
+                    user: { select: { id: true, name: true } },
+                    _count: { select: { items: true } },
+                },
+            }),
+        ]);
+
+        const likedIds = await getLikedSongIds(prisma, userId, songs.map(s => s.id));
+
+        const results = {
+            songs: inRankOrder(songRows, songs).map(s => ({
+                ...formatSongSummary(s),
+                isLiked: likedIds.has(s.id),
+                score: s.score,
+            })),
+            artists: inRankOrder(artistRows, artists).map(a => ({
+                id: a.id,
+                name: a.name,
+                avatarUrl: a.avatarUrl,
+                totalSongs: a._count.songs,
+                followers: a._count.followers,
+                score: a.score,
+            })),
+            albums: inRankOrder(albumRows, albums).map(a => ({
+                id: a.id,
+                title: a.title,
+                releaseYear: a.releaseYear,
+                coverUrl: a.coverUrl,
+                artist: a.artist,
+                score: a.score,
+            })),
+            playlists: inRankOrder(playlistRows, playlists).map(p => ({
+                id: p.id,
+                name: p.name,
+                coverUrl: p.coverUrl,
+                owner: p.user,
+                totalSongs: p._count.items,
+                score: p.score,
+            })),
+        };
+
+        // Top result: skor tertinggi lintas grup (urutan grup sebagai tie-breaker)
+        let topResult: { type: SearchType; item: typeof results[SearchType][number] } | null = null;
+        for (const t of types) {
+            const first = results[t][0];
+            if (first && (!topResult || first.score > topResult.item.score)) {
+                topResult = { type: t, item: first };
+            }
+        }
+
+        return res.json({
+            query: term,
+            topResult,
+            ...(type ? { [type]: results[type as SearchType] } : results),
+        });
+    } catch (err) {
+        console.error('[GET /search]', err);
+        return res.status(500).json({ error: 'Gagal melakukan pencarian.' });
+    }
+});
+
+export default router;
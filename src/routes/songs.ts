@@ -1,113 +1,153 @@
 import { Router, Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { S3Client, GetObjectCommand, PutObjectCommand, DeleteObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import crypto from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { requireAuth, requireAdmin } from '../middleware/auth';
-import yts from 'yt-search';
+import { buildSongWhere, buildSongWhereSql, SongFilter } from '../lib/songFilters';
+import { buildSongIndex, findSongCandidates, findSongIdsByTitle } from '../lib/songMatching';
+import { formatDuration, formatSongSummary, SONG_SUMMARY_INCLUDE, SongSummary } from '../lib/songFormat';
+import { getLikedSongIds } from '../lib/library';
+import { getStorage } from '../lib/storage';
+import { formatLoudness } from '../lib/loudness';
+import { formatPlaySession, startPlaySession, PlaySessionError, HEARTBEAT_INTERVAL_SEC } from '../lib/playSessions';
+import { resamplePeaks, PEAK_MAX, WAVEFORM_BUCKETS } from '../lib/waveform';
+import { buildMasterPlaylist, buildVariantPlaylist, hlsSessionSeconds, signHlsToken, verifyHlsToken, InvalidHlsTokenError, HLS_MASTER, HLS_VARIANT } from '../lib/hls';
+import { deleteHlsFiles } from '../lib/transcode';
+import { queueSongBackfill, SongQueue, SONG_QUEUES } from '../lib/songQueues';
+import { audioMetadataFields, compareMetadata, formatAudioMetadata, inspectStoredAudio, uploadEmbeddedCover, StorageReadError, METADATA_SCAN_MAX_ATTEMPTS } from '../lib/audioInspection';
+import { markUploadFinalized, registerUpload, sweepAbandonedUploads, verifyUploadedAudio, AUDIO_CONTENT_TYPES, UploadError, UPLOAD_URL_TTL_SEC } from '../lib/uploads';
+import { cleanMetadataWithAI, enrichArtistMetadata } from '../lib/songMetadata';
+import { enqueueIngestJob, formatJob, parseIngestParams, IngestParams } from '../lib/ingestJobs';
+import { expandCollection, previewTrack, searchTracks, MediaSource, SearchResult } from '../lib/providers';
+import { parseSpotifyCollectionUrl } from '../lib/providers/spotifyApi';
+import { createSpotifyImport, syncSpotifyImport, ImportTrackInput } from '../lib/spotifyImports';
+import { cursorWhere, decodeCursor, encodeCursor, parsePageQuery, sortOrderBy, toPage, InvalidCursorError, SortKey } from '../lib/paging';
 
 const router = Router();
 const prisma = new PrismaClient();
 
-// ── Cloudflare R2 Client (via AWS SDK v3) ─────────────────────────────────────
-// R2 memakai S3-compatible API. Endpoint format berbeda dari AWS S3.
-const r2Client = new S3Client({
-    region: 'auto',
-    endpoint: process.env.R2_ENDPOINT, // https://<ACCOUNT_ID>.r2.cloudflarestorage.com
-    credentials: {
-        accessKeyId: process.env.R2_ACCESS_KEY_ID as string,
-        secretAccessKey: process.env.R2_SECRET_ACCESS_KEY as string,
-    },
-});
+// Urutan GET /songs, masing-masing diakhiri `id` supaya cursor stabil
+const SONG_SORT_KEYS: Record<string, SortKey[]> = {
+    latest: [{ field: 'createdAt', dir: 'desc' }, { field: 'id', dir: 'desc' }],
+    plays: [{ field: 'playCount', dir: 'desc' }, { field: 'id', dir: 'desc' }],
+    title: [{ field: 'title', dir: 'asc' }, { field: 'id', dir: 'asc' }],
+};
 
-// Helper: format durasi  243 → "4:03"
-function formatDuration(sec: number): string {
-    const m = Math.floor(sec / 60);
-    const s = sec % 60;
-    return `${m}:${s.toString().padStart(2, '0')}`;
+/**
+ * Satu halaman urutan acak ber-seed, dihitung di database:
+ * urut berdasarkan md5(id || seed), jadi seed yang sama selalu menghasilkan
+ * urutan yang sama dan halaman berikutnya tidak mengulang lagu.
+ * Cursor menyimpan [seed, kunci md5, id] baris terakhir.
+ */
+async function findRandomSongIds(
+    filter: Pick<SongFilter, 'genre' | 'mood' | 'artist' | 'q'>,
+    seed: string,
+    take: number,
+    skip: number,
+    after: [string, string] | null,
+): Promise<{ id: string; k: string }[]> {
+    const afterSql = after
+        ? Prisma.sql`AND (md5(s."id" || ${seed}), s."id") > (${after[0]}, ${after[1]})`
+        : Prisma.empty;
+
+    return prisma.$queryRaw<{ id: string; k: string }[]>`
+        SELECT s."id", md5(s."id" || ${seed}) AS k
+        FROM "Song" s
+        WHERE ${buildSongWhereSql(filter)} ${afterSql}
+        ORDER BY k ASC, s."id" ASC
+        LIMIT ${take} OFFSET ${skip}`;
 }
 
 /**
  * GET /songs
- * Query params: ?genre=Pop&artist=<id>&q=<search>&limit=20&offset=0
+ * Query params: ?genre=Pop&artist=<id>&q=<search>&mood=<mood>&sort=latest|plays|title|random&limit=20&cursor=<nextCursor>
+ *
+ * Untuk sort=random bisa dikirim ?seed=<string>; tanpa seed dibuatkan yang baru.
+ * Seed dikembalikan di response dan ikut tersimpan di nextCursor.
+ * existsInStorage / storageStatus diambil dari scan storage terakhir (GET /storage/scans).
  */
 router.get('/', requireAuth, async (req: Request, res: Response) => {
-    const { genre, artist, q, sort, mood, limit = '20', offset = '0', verifyStorage } = req.query as Record<string, string>;
+    const { genre, artist, q, sort, mood, seed: seedParam } = req.query as Record<string, string>;
+    const { take, cursor, skip } = parsePageQuery(req.query);
+    const filter = { genre, mood, artist, q };
 
     try {
-        let orderBy: any = { createdAt: 'desc' };
-        if (sort === 'plays') orderBy = { playCount: 'desc' };
-        if (sort === 'latest') orderBy = { createdAt: 'desc' };
-
-        const songs = await prisma.song.findMany({
-            where: {
-                ...(genre ? { genre } : {}),
-                ...(mood ? { moods: { has: mood } } : {}),
-                ...(artist ? { artists: { some: { id: artist } } } : {}),
-                ...(q
-                    ? {
-                        OR: [
-                            { title: { contains: q, mode: 'insensitive' } },
-                            { artists: { some: { name: { contains: q, mode: 'insensitive' } } } },
-                        ],
-                    }
-                    : {}),
-            },
-            include: {
-                artists: { select: { id: true, name: true, avatarUrl: true } },
-                album: { select: { id: true, title: true, coverUrl: true } },
-            },
-            orderBy,
-            take: sort === 'random' ? undefined : parseInt(limit, 10),
-            skip: sort === 'random' ? undefined : parseInt(offset, 10),
-        });
+        let songs: SongSummary[];
+        let nextCursor: string | null;
+        let seed: string | undefined;
 
-        let finalSongs = songs;
-        // Client-side shuffle for "random" since Prisma doesn't have a native stable random sort
         if (sort === 'random') {
-            finalSongs = songs.sort(() => Math.random() - 0.5).slice(0, parseInt(limit, 10));
-        }
+            let after: [string, string] | null = null;
+            seed = seedParam || crypto.randomBytes(8).toString('hex');
 
-        const songResults = await Promise.all(finalSongs.map(async (s: any) => {
-            let existsInStorage = null;
-            if (verifyStorage === 'true' && s.audioKey) {
-                try {
-                    await r2Client.send(new HeadObjectCommand({
-                        Bucket: process.env.R2_BUCKET_NAME,
-                        Key: s.audioKey
-                    }));
-                    existsInStorage = true;
-                } catch (err: any) {
-                    if (err.name === 'NotFound') {
-                        existsInStorage = false;
-                    } else {
-                        console.error(`[GET /songs] Error checking storage for ${s.id}:`, err.message);
-                        existsInStorage = null; // Unknown error
-                    }
+            if (cursor) {
+                const values = decodeCursor(cursor);
+                if (!values || values.length !== 3 || !values.every(v => typeof v === 'string')) {
+                    throw new InvalidCursorError();
                 }
+                seed = values[0] as string;
+                after = [values[1] as string, values[2] as string];
             }
 
-            return {
-                id: s.id,
-                title: s.title,
-                durationSec: s.durationSec,
-                duration: formatDuration(s.durationSec),
-                coverUrl: s.coverUrl || s.album?.coverUrl || null,
-                genre: s.genre,
-                artists: s.artists,
-                album: s.album,
-                existsInStorage,
-            };
+            const rows = await findRandomSongIds(filter, seed, take + 1, skip, after);
+            const pageRows = rows.slice(0, take);
+            const last = pageRows[pageRows.length - 1];
+            nextCursor = rows.length > take ? encodeCursor([seed, last.k, last.id]) : null;
+
+            const records = await prisma.song.findMany({
+                where: { id: { in: pageRows.map(r => r.id) } },
+                include: SONG_SUMMARY_INCLUDE,
+            });
+            const byId = new Map(records.map(r => [r.id, r]));
+            songs = pageRows.filter(r => byId.has(r.id)).map(r => byId.get(r.id)!);
+        } else {
+            const keys = SONG_SORT_KEYS[sort] ?? SONG_SORT_KEYS.latest;
+            const rows = await prisma.song.findMany({
+                // AND, karena filter `q` sudah memakai OR di level atas
+                where: { AND: [buildSongWhere(filter), cursorWhere(keys, cursor)] },
+                include: SONG_SUMMARY_INCLUDE,
+                orderBy: sortOrderBy(keys),
+                take: take + 1,
+                skip,
+            });
+            ({ items: songs, nextCursor } = toPage(rows, keys, take));
+        }
+
+        const likedIds = await getLikedSongIds(prisma, req.user!.userId, songs.map(s => s.id));
+
+        // Status storage dari scan rekonsiliasi terakhir (src/lib/storageReconcile.ts), bukan HEAD live ke storage
+        const songResults = songs.map(s => ({
+            ...formatSongSummary(s),
+            isLiked: likedIds.has(s.id),
+            existsInStorage: s.storageStatus ? s.storageStatus !== 'MISSING' : null,
+            storageStatus: s.storageStatus,
+            storageCheckedAt: s.storageCheckedAt,
         }));
 
         return res.json({
-            songs: songResults
+            songs: songResults,
+            nextCursor,
+            ...(seed ? { seed } : {}),
         });
     } catch (err) {
+        if (err instanceof InvalidCursorError) return res.status(400).json({ error: err.message });
         console.error('[GET /songs]', err);
         return res.status(500).json({ error: 'Gagal mengambil daftar lagu.' });
     }
 });
 
+// Bentuk hasil search untuk frontend (SearchResults memakai `videoId` sebagai key)
+function formatSearchResult(r: SearchResult, fallbackThumbnail?: string) {
+    return {
+        videoId: r.id,
+        id: r.id,
+        url: r.url,
+        title: r.title,
+        thumbnail: r.thumbnail || fallbackThumbnail || null,
+        duration: r.duration,
+        author: r.author,
+    };
+}
+
 /**
  * GET /songs/yt-search
  * Search YouTube videos without downloading
@@ -117,70 +157,28 @@ router.get('/yt-search', requireAuth, requireAdmin, async (req: Request, res: Re
     if (!q) return res.status(400).json({ error: 'Query q wajib diisi.' });
 
     try {
-        const results = await yts(q);
-        const videos = results.videos.slice(0, 10).map(v => ({
-            videoId: v.videoId,
-            url: v.url,
-            title: v.title,
-            thumbnail: v.thumbnail,
-            duration: v.timestamp,
-            author: v.author.name
-        }));
-
-        return res.json({ videos });
+        const results = await searchTracks('YOUTUBE', q, 10);
+        return res.json({ videos: results.map(r => formatSearchResult(r)) });
     } catch (err: any) {
         console.error('[GET /songs/yt-search]', err);
-        return res.status(500).json({ error: 'Gagal mencari di YouTube.', details: err.message });
+        return res.status(502).json({ error: 'Gagal mencari di YouTube.', details: err.message, failures: err.failures });
     }
 });
 
 /**
  * GET /songs/spotify-search
- * Search Spotify tracks via Ferdev API
+ * Search Spotify tracks lewat provider downloader
  */
 router.get('/spotify-search', requireAuth, requireAdmin, async (req: Request, res: Response) => {
     const { q } = req.query as { q: string };
     if (!q) return res.status(400).json({ error: 'Query q wajib diisi.' });
 
     try {
-        const apiKey = "fdv_pd0smcIACrw7J1-nDPKBoA";
-        const apiUrl = `https://api.ferdev.my.id/search/spotify?query=${encodeURIComponent(q)}&apikey=${apiKey}`;
-        console.log('[Spotify Search] Calling API:', apiUrl);
-        const apiRes = await fetch(apiUrl);
-        if (!apiRes.ok) {
-            const errText = await apiRes.text();
-            console.error('[Spotify Search] API Error:', apiRes.status, errText);
-            return res.status(apiRes.status).json({ error: 'Gagal menghubungi API Spotify Search.', details: errText });
-        }
-
-        const apiData = await apiRes.json() as any;
-        console.log('[Spotify Search] API Response:', JSON.stringify(apiData).substring(0, 500));
-
-        const hasData = Array.isArray(apiData.data) || Array.isArray(apiData.result);
-        if (!hasData) {
-            return res.status(400).json({ error: 'Gagal mendapatkan data dari Spotify.', details: apiData });
-        }
-
-        const rawTracks = apiData.result || apiData.data;
-
-        // Normalize format for frontend SearchResults
-        const tracks = Array.isArray(rawTracks) ? rawTracks.map((track: any) => {
-            const trackId = track.id || (track.url ? track.url.split('/').pop() : Math.random().toString());
-            return {
-                videoId: trackId, // Used as key in frontend
-                id: trackId,
-                url: track.url,
-                title: track.title || track.name || 'Unknown Title',
-                thumbnail: track.thumbnail || 'https://placehold.co/100x100/png?text=Spotify',
-                duration: track.duration_at || '0:00',
-                author: track.artists || (track.artist?.name) || 'Unknown Artist'
-            };
-        }) : [];
-
-        return res.json({ videos: tracks });
+        const results = await searchTracks('SPOTIFY', q, 10);
+        return res.json({ videos: results.map(r => formatSearchResult(r, 'https://placehold.co/100x100/png?text=Spotify')) });
     } catch (err: any) {
-        console.error('[GET /songs/spotify-search] CRASH:', err);
-        return res.status(500).json({ error: 'Gagal mencari di Spotify.', details: err.message });
+        console.error('[GET /songs/spotify-search]', err);
+        return res.status(502).json({ error: 'Gagal mencari di Spotify.', details: err.message, failures: err.failures });
     }
 });
 
@@ -202,6 +200,8 @@ router.get('/:id', requireAuth, async (req: Request, res: Response) => {
 
         if (!song) return res.status(404).json({ error: 'Lagu tidak ditemukan.' });
 
+        const likedIds = await getLikedSongIds(prisma, req.user!.userId, [song.id]);
+
         return res.json({
             id: song.id,
             title: song.title,
@@ -214,8 +214,13 @@ router.get('/:id', requireAuth, async (req: Request, res: Response) => {
             moods: song.moods,
             playCount: song.playCount,
             trackNumber: song.trackNumber,
+            bitrate: song.bitrate,
+            audioFormat: song.audioFormat,
+            metadataFlags: song.metadataFlags,
+            loudness: formatLoudness(song),
             artists: song.artists,
             album: song.album,
+            isLiked: likedIds.has(song.id),
         });
     } catch (err) {
         console.error('[GET /songs/:id]', err);
@@ -224,27 +229,66 @@ router.get('/:id', requireAuth, async (req: Request, res: Response) => {
 });
 
 /**
- * POST /songs/:id/play
- * Track spin count
+ * GET /songs/:id/waveform?buckets=200
+ * Peak waveform untuk seek bar: `peaks` berisi angka 0..max, satu per bucket dengan lebar waktu sama.
+ * `buckets` opsional (10-1000) untuk memperkecil resolusi. 404 selama waveform belum dibuat.
  */
-router.post('/:id/play', requireAuth, async (req: Request, res: Response) => {
+router.get('/:id/waveform', requireAuth, async (req: Request, res: Response) => {
     const { id } = req.params;
+    const buckets = req.query.buckets === undefined ? WAVEFORM_BUCKETS : Number(req.query.buckets);
+
+    if (!Number.isInteger(buckets) || buckets < 10 || buckets > WAVEFORM_BUCKETS) {
+        return res.status(400).json({ error: `buckets harus bilangan bulat 10-${WAVEFORM_BUCKETS}.` });
+    }
+
     try {
-        await prisma.song.update({
+        const song = await prisma.song.findUnique({
             where: { id },
-            data: { playCount: { increment: 1 } }
+            select: { id: true, durationSec: true, waveformStatus: true, waveform: true },
         });
 
-        // Record history for stats
-        if (req.user) {
-            await prisma.playHistory.create({
-                data: { userId: req.user.userId, songId: id }
-            }).catch(e => console.error('[PlayHistory] Create error (non-blocking):', e));
+        if (!song) return res.status(404).json({ error: 'Lagu tidak ditemukan.' });
+        if (!song.waveform) {
+            return res.status(404).json({ error: 'Waveform belum tersedia.', status: song.waveformStatus });
         }
 
-        return res.json({ success: true });
+        const peaks = resamplePeaks(Buffer.from(song.waveform.peaks), buckets);
+
+        // Peak hanya berubah jika lagu diproses ulang
+        res.setHeader('Cache-Control', 'private, max-age=3600');
+        return res.json({
+            songId: song.id,
+            durationSec: song.durationSec,
+            buckets: peaks.length,
+            max: PEAK_MAX,
+            peaks,
+        });
+    } catch (err) {
+        console.error('[GET /songs/:id/waveform]', err);
+        return res.status(500).json({ error: 'Gagal mengambil waveform.' });
+    }
+});
+
+/**
+ * POST /songs/:id/play
+ * (DEPRECATED) Pakai POST /plays. Endpoint ini hanya memulai sesi putar (sama dengan POST /plays);
+ * play baru dihitung setelah client mengirim heartbeat sampai batas qualified, jadi
+ * memanggilnya berulang tidak menambah playCount.
+ */
+router.post('/:id/play', requireAuth, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    try {
+        const { session, qualifyAfterSec } = await startPlaySession(prisma, req.user!.userId, id, 'legacy');
+        return res.status(201).json({
+            success: true,
+            session: formatPlaySession(session),
+            heartbeatIntervalSec: HEARTBEAT_INTERVAL_SEC,
+            qualifyAfterSec,
+        });
     } catch (err) {
-        return res.status(500).json({ error: 'Gagal update play count.' });
+        if (err instanceof PlaySessionError) return res.status(err.status).json({ error: err.message });
+        console.error('[POST /songs/:id/play]', err);
+        return res.status(500).json({ error: 'Gagal memulai sesi putar.' });
     }
 });
 
@@ -319,21 +363,35 @@ Format output JSON: { "lyrics": "teks...", "lrc": "[00:10.00]teks...", "moods":
     }
 });
 
+// URL publik API untuk link playlist HLS (API_BASE_URL, atau dari header request / proxy)
+function apiBaseUrl(req: Request): string {
+    if (process.env.API_BASE_URL) return process.env.API_BASE_URL.replace(/\/$/, '');
+    const proto = String(req.headers['x-forwarded-proto'] || req.protocol).split(',')[0];
+    return `${proto}://${req.get('host')}`;
+}
+
 /**
  * POST /songs/:id/stream-url
- * Generate pre-signed URL Cloudflare R2 untuk streaming audio.
+ * Generate pre-signed URL storage untuk streaming audio.
  *
  * ⚠️  Backend TIDAK menjadi proxy streaming.
- *     Client langsung streaming dari R2 menggunakan URL ini.
+ *     Client langsung streaming dari storage (R2 / /files untuk driver lokal) menggunakan URL ini.
  *     URL valid selama 300 detik (5 menit).
  *
  * Flow:
  * 1. Client (dengan JWT) → POST /songs/:id/stream-url
  * 2. Backend verifikasi JWT
  * 3. Backend mengambil audioKey dari DB
- * 4. Backend generate signed URL via AWS SDK GetObjectCommand
- * 5. Return { url, expiresIn: 300 }
- * 6. Client set <audio src={url}> → stream langsung dari R2
+ * 4. Backend generate signed URL lewat storage driver
+ * 5. Return { url, format, fileUrl, expiresIn: 300 }
+ * 6. Client set <audio src={url}> → stream langsung dari storage
+ *
+ * Lagu yang sudah ditranscode (hlsStatus READY): `url` adalah master playlist HLS
+ * (format "hls", butuh hls.js di browser selain Safari). `fileUrl` selalu file asli,
+ * dipakai sebagai fallback. Lagu yang belum ditranscode: `url` = `fileUrl`, format "file".
+ * `loudness` (null jika belum dianalisis) dipakai player untuk normalisasi volume.
+ *
+ * Endpoint ini tidak mencatat play; client memulai sesi lewat POST /plays.
  */
 router.post('/:id/stream-url', requireAuth, async (req: Request, res: Response) => {
     const { id } = req.params;
@@ -342,34 +400,29 @@ router.post('/:id/stream-url', requireAuth, async (req: Request, res: Response)
         // ── Ambil audioKey dari DB ────────────────────────────────────────────
         const song = await prisma.song.findUnique({
             where: { id },
-            select: { id: true, audioKey: true, title: true },
+            select: {
+                id: true, audioKey: true, title: true, durationSec: true, hlsStatus: true, hlsKey: true, hlsRenditions: true,
+                loudnessLufs: true, truePeakDb: true, loudnessRangeLu: true, trackGainDb: true,
+            },
         });
 
         if (!song) return res.status(404).json({ error: 'Lagu tidak ditemukan.' });
 
         // ── Generate Signed URL ───────────────────────────────────────────────
-        const command = new GetObjectCommand({
-            Bucket: process.env.R2_BUCKET_NAME,
-            Key: song.audioKey, // e.g. "audio/song-01.mp3"
-        });
-
         const EXPIRES_IN_SECONDS = 300; // 5 menit
 
-        const signedUrl = await getSignedUrl(r2Client, command, {
-            expiresIn: EXPIRES_IN_SECONDS,
-        });
+        const signedUrl = await getStorage().signedGetUrl(song.audioKey, EXPIRES_IN_SECONDS); // e.g. "audio/song-01.mp3"
 
-        // ── Catat riwayat putar (opsional, fire-and-forget) ──────────────────
-        if (req.user) {
-            prisma.playHistory
-                .create({
-                    data: { userId: req.user.userId, songId: song.id },
-                })
-                .catch(() => { }); // jangan block response
-        }
+        const hlsUrl = song.hlsStatus === 'READY' && song.hlsKey
+            ? `${apiBaseUrl(req)}/songs/${song.id}/hls/${HLS_MASTER}?token=${encodeURIComponent(signHlsToken(song.id, hlsSessionSeconds(song.durationSec)))}`
+            : null;
 
         return res.json({
-            url: signedUrl,
+            url: hlsUrl ?? signedUrl,
+            format: hlsUrl ? 'hls' : 'file',
+            fileUrl: signedUrl,
+            renditions: hlsUrl ? song.hlsRenditions : [],
+            loudness: formatLoudness(song),
             expiresIn: EXPIRES_IN_SECONDS,
             songId: song.id,
             title: song.title,
@@ -380,10 +433,95 @@ router.post('/:id/stream-url', requireAuth, async (req: Request, res: Response)
     }
 });
 
+/**
+ * GET /songs/:id/hls/master.m3u8?token=<token dari stream-url>
+ * Master playlist HLS. Tanpa JWT (player tidak bisa kirim header), otorisasi lewat token.
+ */
+router.get(`/:id/hls/${HLS_MASTER}`, async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    try {
+        verifyHlsToken(req.query.token, id);
+
+        const song = await prisma.song.findUnique({ where: { id }, select: { hlsKey: true, hlsStatus: true } });
+        if (!song?.hlsKey || song.hlsStatus !== 'READY') return res.status(404).json({ error: 'Stream HLS tidak tersedia.' });
+
+        const playlist = await buildMasterPlaylist(song.hlsKey, String(req.query.token));
+        if (!playlist) return res.status(404).json({ error: 'Stream HLS tidak tersedia.' });
+
+        res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
+        res.setHeader('Cache-Control', 'private, no-store');
+        return res.send(playlist);
+    } catch (err) {
+        if (err instanceof InvalidHlsTokenError) return res.status(403).json({ error: err.message });
+        console.error(`[GET /songs/${id}/hls/${HLS_MASTER}]`, err);
+        return res.status(500).json({ error: 'Gagal mengambil playlist HLS.' });
+    }
+});
+
+/**
+ * GET /songs/:id/hls/:rendition/index.m3u8?token=
+ * Playlist satu rendition (mis. 128k); URI segmen diganti signed URL storage.
+ */
+router.get(`/:id/hls/:rendition/${HLS_VARIANT}`, async (req: Request, res: Response) => {
+    const { id, rendition } = req.params;
+
+    try {
+        verifyHlsToken(req.query.token, id);
+
+        const song = await prisma.song.findUnique({ where: { id }, select: { hlsKey: true, hlsStatus: true, durationSec: true } });
+        if (!song?.hlsKey || song.hlsStatus !== 'READY') return res.status(404).json({ error: 'Stream HLS tidak tersedia.' });
+
+        const playlist = await buildVariantPlaylist(song.hlsKey, rendition, hlsSessionSeconds(song.durationSec));
+        if (!playlist) return res.status(404).json({ error: 'Rendition tidak ditemukan.' });
+
+        res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
+        res.setHeader('Cache-Control', 'private, no-store');
+        return res.send(playlist);
+    } catch (err) {
+        if (err instanceof InvalidHlsTokenError) return res.status(403).json({ error: err.message });
+        console.error(`[GET /songs/${id}/hls/${rendition}/${HLS_VARIANT}]`, err);
+        return res.status(500).json({ error: 'Gagal mengambil playlist HLS.' });
+    }
+});
+
+// Endpoint backfill per antrian worker (lihat src/lib/songQueues.ts); perilakunya sama, hanya kolomnya berbeda
+const BACKFILL_ERRORS: Record<SongQueue, string> = {
+    hls: 'Gagal mengantrikan transcode.',
+    loudness: 'Gagal mengantrikan analisis loudness.',
+    waveform: 'Gagal mengantrikan pembuatan waveform.',
+};
+
+/**
+ * POST /songs/hls/backfill, /songs/loudness/backfill, /songs/waveform/backfill
+ * (ADMIN ONLY) Antrikan transcode HLS / analisis loudness / waveform untuk lagu lama / yang gagal.
+ * Body: { songIds?: string[], includeFailed?: boolean }
+ * Tanpa songIds: semua lagu yang belum pernah dijadwalkan (+ FAILED jika includeFailed).
+ * Dengan songIds: lagu tersebut, kecuali yang sedang diproses.
+ */
+for (const queue of SONG_QUEUES) {
+    router.post(`/${queue}/backfill`, requireAuth, requireAdmin, async (req: Request, res: Response) => {
+        const { songIds, includeFailed } = req.body as { songIds?: string[]; includeFailed?: boolean };
+
+        if (songIds !== undefined && (!Array.isArray(songIds) || songIds.some(s => typeof s !== 'string'))) {
+            return res.status(400).json({ error: 'songIds harus array string.' });
+        }
+
+        try {
+            const queued = await queueSongBackfill(prisma, queue, { songIds, includeFailed: !!includeFailed });
+            return res.json({ queued });
+        } catch (err) {
+            console.error(`[POST /songs/${queue}/backfill]`, err);
+            return res.status(500).json({ error: BACKFILL_ERRORS[queue] });
+        }
+    });
+}
+
 /**
  * POST /songs/upload-url
- * (ADMIN ONLY) Generate pre-signed URL untuk upload file ke R2 via PUT.
+ * (ADMIN ONLY) Generate pre-signed URL untuk upload file ke storage via PUT.
  * Body: { fileName: string, fileType: string }
+ * Upload audio wajib di-finalize lewat POST /songs, kalau tidak akan dihapus oleh sweep.
  */
 router.post('/upload-url', requireAuth, requireAdmin, async (req: Request, res: Response) => {
     const { fileName, fileType, folder = 'audio' } = req.body as { fileName?: string; fileType?: string; folder?: 'audio' | 'covers' };
@@ -391,28 +529,31 @@ router.post('/upload-url', requireAuth, requireAdmin, async (req: Request, res:
     if (!fileName || !fileType) {
         return res.status(400).json({ error: 'fileName dan fileType wajib diisi.' });
     }
+    if (folder !== 'audio' && folder !== 'covers') {
+        return res.status(400).json({ error: 'folder harus audio atau covers.' });
+    }
+    if (folder === 'audio' && !AUDIO_CONTENT_TYPES.includes(fileType.toLowerCase())) {
+        return res.status(415).json({ error: `Tipe file tidak didukung: ${fileType}.`, allowed: AUDIO_CONTENT_TYPES });
+    }
 
     try {
         const uniqueId = Date.now().toString(36) + '-' + Math.random().toString(36).substring(2, 7);
         const safeName = fileName.replace(/[^a-zA-Z0-9.-]/g, '_');
         const objectKey = `${folder}/${uniqueId}-${safeName}`;
 
-        const command = new PutObjectCommand({
-            Bucket: process.env.R2_BUCKET_NAME,
-            Key: objectKey,
-            ContentType: fileType,
-        });
+        const storage = getStorage();
 
         // URL berlaku selama 10 menit untuk proses upload
-        const uploadUrl = await getSignedUrl(r2Client, command, { expiresIn: 600 });
+        const uploadUrl = await storage.signedPutUrl(objectKey, fileType, UPLOAD_URL_TTL_SEC);
+        if (folder === 'audio') await registerUpload(prisma, objectKey, fileType.toLowerCase(), req.user!.userId);
 
-        const publicUrl = folder === 'covers' ? `${process.env.R2_ENDPOINT?.replace('https://', 'https://pub-')}/${objectKey}` : null;
+        const publicUrl = folder === 'covers' ? storage.publicUrl(objectKey) : null;
 
         return res.json({
             uploadUrl,
             objectKey,
             publicUrl, // hanya berguna kalau setting domain public di CF, tapi untuk cover mending stream atau bikin endpoint public
-            expiresIn: 600
+            expiresIn: UPLOAD_URL_TTL_SEC
         });
     } catch (err) {
         console.error('[POST /songs/upload-url]', err);
@@ -422,42 +563,91 @@ router.post('/upload-url', requireAuth, requireAdmin, async (req: Request, res:
 
 /**
  * POST /songs
- * (ADMIN ONLY) Simpan metadata lagu baru ke database setelah file selesai diupload ke R2.
+ * (ADMIN ONLY) Finalize upload: cek file di storage (ada, tipe audio, ukuran, durasi),
+ * baru simpan lagu. durationSec dari client hanya dipakai untuk cek mismatch.
  */
 router.post('/', requireAuth, requireAdmin, async (req: Request, res: Response) => {
     const { title, durationSec, audioKey, coverUrl, trackNumber, artistId, albumId, genre } = req.body;
 
-    if (!title || !durationSec || !audioKey || !artistId) {
-        return res.status(400).json({ error: 'title, durationSec, audioKey, dan artistId wajib diisi.' });
+    if (!title || !audioKey || !artistId) {
+        return res.status(400).json({ error: 'title, audioKey, dan artistId wajib diisi.' });
     }
 
     try {
-        const song = await prisma.song.create({
-            data: {
-                title,
-                durationSec: Number(durationSec),
-                audioKey,
-                coverUrl: coverUrl || null,
-                trackNumber: trackNumber ? Number(trackNumber) : null,
-                albumId: albumId || null,
-                genre: genre || null,
-                artists: {
-                    connect: Array.isArray(artistId) ? artistId.map(id => ({ id })) : [{ id: artistId }]
+        const artistIds: string[] = Array.isArray(artistId) ? artistId : [artistId];
+        const { metadata: fileMetadata, size } = await verifyUploadedAudio(prisma, audioKey);
+
+        const [artists, album] = await Promise.all([
+            prisma.artist.findMany({ where: { id: { in: artistIds } }, select: { name: true } }),
+            albumId ? prisma.album.findUnique({ where: { id: albumId }, select: { title: true } }) : null,
+        ]);
+        const flags = compareMetadata(fileMetadata, {
+            title,
+            artistNames: artists.map(a => a.name),
+            album: album?.title,
+            durationSec: durationSec ? Number(durationSec) : null,
+        });
+
+        let cover = coverUrl || null;
+        if (!cover && !albumId && fileMetadata.picture) cover = await uploadEmbeddedCover(fileMetadata.picture, title);
+
+        const song = await prisma.$transaction(async (tx) => {
+            await markUploadFinalized(tx, audioKey);
+            return tx.song.create({
+                data: {
+                    title,
+                    durationSec: fileMetadata.durationSec!,
+                    audioKey,
+                    audioSize: size,
+                    coverUrl: cover,
+                    trackNumber: trackNumber ? Number(trackNumber) : fileMetadata.trackNumber,
+                    albumId: albumId || null,
+                    genre: genre || null,
+                    ...audioMetadataFields(fileMetadata, flags),
+                    // File & ukurannya baru saja dicek verifyUploadedAudio
+                    storageStatus: 'OK',
+                    storageCheckedAt: new Date(),
+                    hlsStatus: 'PENDING',
+                    loudnessStatus: 'PENDING',
+                    waveformStatus: 'PENDING',
+                    artists: {
+                        connect: artistIds.map(id => ({ id }))
+                    }
+                },
+                include: {
+                    artists: true,
+                    album: true,
                 }
-            },
-            include: {
-                artists: true,
-                album: true,
-            }
+            });
         });
 
-        return res.status(201).json({ song });
+        return res.status(201).json({
+            song,
+            fileMetadata: formatAudioMetadata(fileMetadata),
+            metadataFlags: flags,
+        });
     } catch (err) {
+        if (err instanceof UploadError) return res.status(err.status).json({ error: err.message });
         console.error('[POST /songs]', err);
         return res.status(500).json({ error: 'Gagal menyimpan metadata lagu.' });
     }
 });
 
+/**
+ * POST /songs/uploads/sweep
+ * (ADMIN ONLY) Hapus file audio yang diupload tapi tidak pernah di-finalize
+ * sampai batas waktunya. Worker juga menjalankan ini secara berkala.
+ */
+router.post('/uploads/sweep', requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const result = await sweepAbandonedUploads(prisma);
+        return res.json(result);
+    } catch (err) {
+        console.error('[POST /songs/uploads/sweep]', err);
+        return res.status(500).json({ error: 'Gagal membersihkan upload.' });
+    }
+});
+
 /**
  * PATCH /songs/:id
  * (ADMIN ONLY) Update metadata lagu.
@@ -523,17 +713,23 @@ router.delete('/:id', requireAuth, requireAdmin, async (req: Request, res: Respo
         // Hapus dari DB
         await prisma.song.delete({ where: { id } });
 
-        // Hapus file dari Cloudflare R2 secara asynchronous (fire & forget)
+        // Hapus file dari storage secara asynchronous (fire & forget)
         // Kita gunakan audioKey yang sudah kita ambil tadi
         if (song.audioKey) {
-            const deleteCommand = new DeleteObjectCommand({
-                Bucket: process.env.R2_BUCKET_NAME,
-                Key: song.audioKey
-            });
-
-            r2Client.send(deleteCommand)
-                .then(() => console.log(`[DELETE /songs/${id}] File R2 dihapus: ${song.audioKey}`))
-                .catch(err => console.error(`[DELETE /songs/${id}] Gagal hapus file R2:`, err));
+            deleteHlsFiles(song.audioKey)
+                .catch(err => console.error(`[DELETE /songs/${id}] Gagal hapus file HLS:`, err));
+
+            // Jika gagal, catat sebagai orphan supaya bisa dibersihkan scan storage
+            getStorage().delete(song.audioKey)
+                .then(() => console.log(`[DELETE /songs/${id}] File dihapus: ${song.audioKey}`))
+                .catch(async err => {
+                    console.error(`[DELETE /songs/${id}] Gagal hapus file:`, err);
+                    await prisma.storageOrphan.upsert({
+                        where: { objectKey: song.audioKey },
+                        create: { objectKey: song.audioKey, size: song.audioSize ?? 0 },
+                        update: { lastSeenAt: new Date() },
+                    }).catch(e => console.error(`[DELETE /songs/${id}] Gagal mencatat orphan:`, e));
+                });
         }
 
         return res.json({ message: 'Lagu dan file berhasil dihapus.' });
@@ -545,222 +741,6 @@ router.delete('/:id', requireAuth, requireAdmin, async (req: Request, res: Respo
 
 export default router;
 
-/**
- * Menggunakan AI (OpenRouter) untuk membersihkan judul YouTube menjadi Judul & Artis yang rapi.
- */
-async function cleanMetadataWithAI(rawTitle: string): Promise<{ title: string; artists: string[] }> {
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (!apiKey) {
-        console.warn('[AI] OPENROUTER_API_KEY tidak ditemukan, menggunakan parser standar.');
-        const artists = parseArtists(rawTitle);
-        return {
-            title: rawTitle.split('-').pop()?.trim() || rawTitle,
-            artists: artists.length > 0 ? artists : [rawTitle.split('-')[0].trim()]
-        };
-    }
-
-    try {
-        console.log('[AI] Step 1: Initial cleanup for:', rawTitle);
-        const step1Response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-            method: "POST",
-            headers: {
-                "Authorization": `Bearer ${apiKey}`,
-                "Content-Type": "application/json",
-                "HTTP-Referer": "http://localhost:3000",
-                "X-Title": "Spotify-Clone Metadata Cleaner"
-            },
-            body: JSON.stringify({
-                model: "z-ai/glm-4.5-air:free",
-                messages: [
-                    {
-                        role: "system",
-                        content: "You are a professional music librarian. Task: Extract clean song title and list all artist names from a YouTube title. Rules: 1. REMOVE all noise like 'Official Video', 'Music Video', 'LYRICS', 'Lirik', '4K', 'HD', '(...)', '[...]'. 2. DO NOT include the artist name in the 'title' field. 3. Response MUST be ONLY JSON: { \"title\": \"Clean Title\", \"artists\": [\"Artist 1\", \"Artist 2\"] }"
-                    },
-                    { role: "user", content: `YouTube Title: "${rawTitle}"` }
-                ]
-            })
-        });
-
-        if (!step1Response.ok) {
-            const errBody = await step1Response.text();
-            throw new Error(`Step 1 Error: ${step1Response.status} - ${errBody}`);
-        }
-
-        const step1Data = await step1Response.json() as any;
-        const step1Content = step1Data.choices?.[0]?.message?.content;
-        console.log('[AI] Step 1 Output:', step1Content);
-
-        const jsonMatch1 = step1Content?.match(/\{[\s\S]*\}/);
-        if (!jsonMatch1) throw new Error('Gagal memproses JSON Step 1.');
-        const initialResult = JSON.parse(jsonMatch1[0]);
-
-        // Step 2: Refinement / Double Check
-        console.log('[AI] Step 2: Refinement for:', initialResult.title);
-        const step2Response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-            method: "POST",
-            headers: {
-                "Authorization": `Bearer ${apiKey}`,
-                "Content-Type": "application/json",
-                "HTTP-Referer": "http://localhost:3000",
-                "X-Title": "Spotify-Clone Metadata Cleaner"
-            },
-            body: JSON.stringify({
-                model: "z-ai/glm-4.5-air:free",
-                messages: [
-                    {
-                        role: "system",
-                        content: "You are a verification AI. Review this metadata. Is the 'title' still containing artist names, redundant words, or brackets? If yes, clean it further. Response MUST be ONLY JSON: { \"title\": \"Final Clean Title\", \"artists\": [\"Final Artists\"] }"
-                    },
-                    {
-                        role: "user",
-                        content: `Input: ${JSON.stringify(initialResult)}\nOriginal YouTube Title: "${rawTitle}"`
-                    }
-                ]
-            })
-        });
-
-        const step2Data = await step2Response.json() as any;
-        const step2Content = step2Data.choices?.[0]?.message?.content;
-        console.log('[AI] Step 2 Output:', step2Content);
-
-        const jsonMatch2 = step2Content?.match(/\{[\s\S]*\}/);
-        if (jsonMatch2) {
-            const finalResult = JSON.parse(jsonMatch2[0]);
-            return {
-                title: finalResult.title || initialResult.title,
-                artists: Array.isArray(finalResult.artists) ? finalResult.artists : (Array.isArray(initialResult.artists) ? initialResult.artists : [rawTitle.split('-')[0].trim()])
-            };
-        }
-
-        return {
-            title: initialResult.title || rawTitle.split('-').pop()?.trim() || rawTitle,
-            artists: Array.isArray(initialResult.artists) ? initialResult.artists : [rawTitle.split('-')[0].trim()]
-        };
-    } catch (err: any) {
-        console.error('[AI Cleanup Error]', err.message);
-        const artists = parseArtists(rawTitle);
-        const fallbackTitle = rawTitle.split('-').pop()?.trim() || rawTitle;
-        // Basic local cleanup for fallback
-        const cleanTitle = fallbackTitle.replace(/\(Official.*?\)|\[Official.*?\]|\(Lyrics.*?\)|\[Lyrics.*?\]|Official Music Video|Official Video|Music Video|LYRICS/gi, '').trim();
-        return {
-            title: cleanTitle,
-            artists: artists.length > 0 ? artists : [rawTitle.split('-')[0].trim()]
-        };
-    }
-}
-
-function parseArtists(title: string): string[] {
-    // Basic parser for "Artist - Title" or "Artist1 & Artist2 - Title"
-    // Also handles "Artist1, Artist2 - Title"
-    const dashIndex = title.indexOf('-');
-    if (dashIndex === -1) return [];
-
-    let artistPart = title.substring(0, dashIndex).trim();
-
-    // Remove common prefixes like "Official Video", "(Official Music Video)", etc if they are somehow at start?
-    // Unlikely for artist part, but let's just split by separators
-    const separators = [/ & /g, / , /g, /,/g, / and /g, / x /g, / X /g, / FEAT /gi, / FT /gi];
-    let artists = [artistPart];
-
-    for (const sep of separators) {
-        artists = artists.flatMap(a => a.split(sep));
-    }
-
-    return artists.map(a => a.trim()).filter(a => a.length > 0);
-}
-
-/**
- * Menggunakan Spotify API untuk memperkaya data artis (foto & genre).
- */
-let spotifyAccessToken: string | null = null;
-let spotifyTokenExpiry = 0;
-
-async function getSpotifyToken(): Promise<string | null> {
-    const clientId = process.env.SPOTIFY_CLIENT_ID;
-    const clientSecret = process.env.SPOTIFY_CLIENT_SECRET;
-
-    if (!clientId || !clientSecret) {
-        console.warn('[Spotify] SPOTIFY_CLIENT_ID/SECRET tidak ditemukan.');
-        return null;
-    }
-
-    if (spotifyAccessToken && Date.now() < spotifyTokenExpiry) {
-        return spotifyAccessToken;
-    }
-
-    try {
-        const auth = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
-        const res = await fetch('https://accounts.spotify.com/api/token', {
-            method: 'POST',
-            headers: {
-                'Authorization': `Base ${auth}`,
-                'Content-Type': 'application/x-www-form-urlencoded',
-            },
-            body: 'grant_type=client_credentials'
-        });
-
-        const data = await res.json() as any;
-        if (data.access_token) {
-            spotifyAccessToken = data.access_token;
-            spotifyTokenExpiry = Date.now() + (data.expires_in * 1000) - 60000;
-            return spotifyAccessToken;
-        }
-    } catch (err: any) {
-        console.error('[Spotify Auth Error]', err.message);
-    }
-    return null;
-}
-
-async function enrichArtistMetadata(name: string): Promise<{ avatarUrl: string | null; genres: string[] }> {
-    const token = await getSpotifyToken();
-    if (!token) return { avatarUrl: null, genres: [] };
-
-    try {
-        const res = await fetch(`https://api.spotify.com/v1/search?q=${encodeURIComponent(name)}&type=artist&limit=1`, {
-            headers: { 'Authorization': `Bearer ${token}` }
-        });
-
-        const data = await res.json() as any;
-        const artist = data.artists?.items?.[0];
-
-        if (artist) {
-            return {
-                avatarUrl: artist.images?.[0]?.url || null,
-                genres: artist.genres || []
-            };
-        }
-    } catch (err: any) {
-        console.error(`[Spotify Enrich Error] ${name}:`, err.message);
-    }
-    return { avatarUrl: null, genres: [] };
-}
-
-function normalizeKey(value: string): string {
-    return value
-        .toLowerCase()
-        .replace(/\(.*?\)/g, ' ')
-        .replace(/\[.*?\]/g, ' ')
-        .replace(/feat\.?|ft\.?/g, ' ')
-        .replace(/[^a-z0-9]+/g, ' ')
-        .trim();
-}
-
-function normalizeArtists(value: string): string {
-    const raw = value
-        .replace(/\(.*?\)/g, ' ')
-        .replace(/\[.*?\]/g, ' ')
-        .replace(/feat\.?|ft\.?/gi, ' ')
-        .replace(/[^a-zA-Z0-9&xX, ]+/g, ' ');
-
-    const parts = raw
-        .split(/,|&| x | X | and /g)
-        .map((p) => normalizeKey(p))
-        .filter(Boolean)
-        .sort();
-
-    return parts.join(' ');
-}
-
 /**
  * POST /songs/exists
  * Body: { items: [{ title: string; artists: string[] }] }
@@ -775,45 +755,16 @@ router.post('/exists', requireAuth, async (req: Request, res: Response) => {
     try {
         const songs = await prisma.song.findMany({
             select: {
+                id: true,
                 title: true,
                 artists: { select: { name: true } },
             },
         });
 
-        const existingKeys = new Set(
-            songs.map((song) => {
-                const title = normalizeKey(song.title || '');
-                const artists = normalizeArtists(song.artists?.map(a => a.name).join(' ') || '');
-                return `${title}|${artists}`;
-            })
+        const index = buildSongIndex(songs);
+        const results = items.map((item: any) =>
+            findSongCandidates(index, item?.title || '', item?.artists || '').length > 0
         );
-        const titleToArtistTokens = new Map<string, Set<string>>();
-        for (const song of songs) {
-            const title = normalizeKey(song.title || '');
-            const artists = normalizeArtists(song.artists?.map(a => a.name).join(' ') || '');
-            const tokens = new Set(artists.split(' ').filter(Boolean));
-            if (!titleToArtistTokens.has(title)) {
-                titleToArtistTokens.set(title, tokens);
-            } else {
-                const prev = titleToArtistTokens.get(title)!;
-                for (const t of tokens) prev.add(t);
-            }
-        }
-
-        const results = items.map((item: any) => {
-            const title = normalizeKey(item?.title || '');
-            const rawArtists = Array.isArray(item?.artists) ? item.artists.join(' ') : String(item?.artists || '');
-            const artists = normalizeArtists(rawArtists);
-            const exact = existingKeys.has(`${title}|${artists}`);
-            if (exact) return true;
-            const tokenSet = titleToArtistTokens.get(title);
-            if (!tokenSet) return false;
-            const incomingTokens = new Set(artists.split(' ').filter(Boolean));
-            for (const t of incomingTokens) {
-                if (tokenSet.has(t)) return true;
-            }
-            return false;
-        });
 
         return res.json({ results });
     } catch (err) {
@@ -822,6 +773,33 @@ router.post('/exists', requireAuth, async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * Metadata preview + data artis dari Spotify, dipakai yt-preview & spotify-preview.
+ * Judul mentah (YouTube) dibersihkan dulu lewat AI.
+ */
+async function buildPreview(source: MediaSource, url: string) {
+    const metadata = await previewTrack(source, url);
+    const clean = metadata.needsCleanup
+        ? await cleanMetadataWithAI(metadata.rawTitle)
+        : { title: metadata.title, artists: metadata.artists };
+
+    const enrichedArtists = await Promise.all(
+        clean.artists.map(async (name) => {
+            const spotifyData = await enrichArtistMetadata(name);
+            return { name, ...spotifyData };
+        })
+    );
+
+    return {
+        rawTitle: metadata.rawTitle,
+        title: clean.title,
+        artists: enrichedArtists,
+        thumbnail: metadata.thumbnail,
+        durationSec: metadata.durationSec,
+        duration: formatDuration(metadata.durationSec ?? 0),
+    };
+}
+
 /**
  * POST /songs/yt-preview
  * (ADMIN ONLY) Ambil info youtube dan bersihkan metadata via AI sebelum download.
@@ -831,302 +809,359 @@ router.post('/yt-preview', requireAuth, requireAdmin, async (req: Request, res:
     if (!youtubeUrl) return res.status(400).json({ error: 'youtubeUrl wajib diisi.' });
 
     try {
-        const apiKeyDownloader = "fdv_pd0smcIACrw7J1-nDPKBoA"; // Hardcoded
-        const apiUrl = `https://api.ferdev.my.id/downloader/ytmp3?link=${encodeURIComponent(youtubeUrl)}&apikey=${apiKeyDownloader}`;
-        const apiRes = await fetch(apiUrl);
-        if (!apiRes.ok) return res.status(apiRes.status).json({ error: 'Gagal menghubungi API downloader.' });
-
-        const apiData = await apiRes.json() as any;
-        if (!apiData.success || !apiData.data) return res.status(400).json({ error: 'Gagal mendapatkan data dari YouTube.' });
-
-        const { title: rawTitle, thumbnail, duration } = apiData.data;
-        const cleanMetadata = await cleanMetadataWithAI(rawTitle);
-
-        // Enrich with Spotify
-        const enrichedArtists = await Promise.all(
-            cleanMetadata.artists.map(async (name) => {
-                const spotifyData = await enrichArtistMetadata(name);
-                return { name, ...spotifyData };
-            })
-        );
-
-        return res.json({
-            rawTitle,
-            title: cleanMetadata.title,
-            artists: enrichedArtists,
-            thumbnail,
-            duration,
-        });
+        return res.json(await buildPreview('YOUTUBE', youtubeUrl));
     } catch (err: any) {
-        return res.status(500).json({ error: 'Gagal preview metadata.', details: err.message });
+        console.error('[POST /songs/yt-preview]', err);
+        return res.status(502).json({ error: 'Gagal preview metadata.', details: err.message, failures: err.failures });
     }
 });
 
 /**
  * POST /songs/spotify-preview
- * (ADMIN ONLY) Ambil info lagu dari link Spotify via Ferdev API.
+ * (ADMIN ONLY) Ambil info lagu dari link Spotify.
  */
 router.post('/spotify-preview', requireAuth, requireAdmin, async (req: Request, res: Response) => {
     const { spotifyUrl } = req.body;
     if (!spotifyUrl) return res.status(400).json({ error: 'spotifyUrl wajib diisi.' });
 
     try {
-        const apiKey = "fdv_pd0smcIACrw7J1-nDPKBoA";
-        const apiUrl = `https://api.ferdev.my.id/downloader/spotify?link=${encodeURIComponent(spotifyUrl)}&apikey=${apiKey}`;
-        console.log('[Spotify Preview] Calling API:', apiUrl);
-        const apiRes = await fetch(apiUrl);
-        if (!apiRes.ok) return res.status(apiRes.status).json({ error: 'Gagal menghubungi API Spotify Downloader.' });
-
-        const apiData = await apiRes.json() as any;
-        if (!apiData.success || !apiData.data) return res.status(400).json({ error: 'Gagal mendapatkan data dari Spotify.' });
-
-        const { title, artist, thumbnail } = apiData.data;
-        const artistNames = artist.split(',').map((a: string) => a.trim());
-
-        // Enrich with Spotify (for high res images/genres)
-        const enrichedArtists = await Promise.all(
-            artistNames.map(async (name: string) => {
-                const spotifyData = await enrichArtistMetadata(name);
-                return { name, ...spotifyData };
-            })
-        );
-
-        return res.json({
-            rawTitle: `${artist} - ${title}`,
-            title,
-            artists: enrichedArtists,
-            thumbnail: apiData.data.album?.images?.[0]?.url || thumbnail,
-            duration: '0:00', // Spotify downloader API might not return duration directly here
-        });
+        return res.json(await buildPreview('SPOTIFY', spotifyUrl));
     } catch (err: any) {
-        return res.status(500).json({ error: 'Gagal preview metadata Spotify.', details: err.message });
+        console.error('[POST /songs/spotify-preview]', err);
+        return res.status(502).json({ error: 'Gagal preview metadata Spotify.', details: err.message, failures: err.failures });
     }
 });
 
 /**
  * POST /songs/yt-download
- * (ADMIN ONLY) Otomatis download dari youtube lalu upload ke R2 dan simpan ke DB.
+ * (ADMIN ONLY) Antrikan download dari youtube → upload ke storage → simpan ke DB.
+ * Body: { youtubeUrl, title?, artistNames?, artistId?, albumId?, genre? }
+ *
+ * Return 202 + job; pantau progresnya lewat GET /jobs/:id.
  */
 router.post('/yt-download', requireAuth, requireAdmin, async (req: Request, res: Response) => {
-    const { youtubeUrl, artistId, albumId, genre, title: customTitle, artistNames: customArtistNames } = req.body;
+    const { youtubeUrl } = req.body;
 
     if (!youtubeUrl) {
         return res.status(400).json({ error: 'youtubeUrl wajib diisi.' });
     }
 
     try {
-        // 1. Fetch from api.ferdev.my.id
-        const apiKeyDownloader = "fdv_pd0smcIACrw7J1-nDPKBoA"; // Hardcoded
-        const apiUrl = `https://api.ferdev.my.id/downloader/ytmp3?link=${encodeURIComponent(youtubeUrl)}&apikey=${apiKeyDownloader}`;
-        console.log('[yt-download] Calling Ferdev API:', apiUrl);
-        const apiRes = await fetch(apiUrl);
-        if (!apiRes.ok) {
-            const errText = await apiRes.text();
-            console.error('[yt-download] Ferdev API Error:', apiRes.status, errText);
-            return res.status(apiRes.status).json({ error: 'Gagal menghubungi API downloader.', details: errText });
-        }
+        const job = await enqueueIngestJob(prisma, 'YOUTUBE', youtubeUrl, parseIngestParams(req.body), req.user!.userId);
 
-        const apiData = await apiRes.json() as any;
-        if (!apiData.success || !apiData.data) {
-            return res.status(400).json({ error: 'Gagal mendapatkan data dari YouTube.' });
-        }
+        return res.status(202).json({ job: formatJob(job) });
+    } catch (err: any) {
+        console.error('[POST /songs/yt-download]', err);
+        return res.status(500).json({ error: 'Gagal membuat job download YouTube.', details: err.message });
+    }
+});
+
+/**
+ * POST /songs/spotify-download
+ * (ADMIN ONLY) Antrikan download dari Spotify via Ferdev API → upload ke storage → simpan ke DB.
+ * Body: { spotifyUrl, title?, artistNames?, artistId?, albumId?, genre? }
+ *
+ * Return 202 + job; pantau progresnya lewat GET /jobs/:id.
+ */
+router.post('/spotify-download', requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    const { spotifyUrl } = req.body;
 
-        const { title: rawTitle, thumbnail, duration, dlink } = apiData.data;
+    if (!spotifyUrl) return res.status(400).json({ error: 'spotifyUrl wajib diisi.' });
 
-        // NEW: metadata logic
-        let finalTitle = customTitle;
-        let finalArtistNames: string[] = Array.isArray(customArtistNames) ? customArtistNames : [];
+    try {
+        const job = await enqueueIngestJob(prisma, 'SPOTIFY', spotifyUrl, parseIngestParams(req.body), req.user!.userId);
 
-        if (!finalTitle || finalArtistNames.length === 0) {
-            console.log('[yt-download] Using AI Cleanup (no custom metadata provided)');
-            const cleanMetadata = await cleanMetadataWithAI(rawTitle);
-            if (!finalTitle) finalTitle = cleanMetadata.title;
-            if (finalArtistNames.length === 0) finalArtistNames = cleanMetadata.artists;
-        }
+        return res.status(202).json({ job: formatJob(job) });
+    } catch (err: any) {
+        console.error('[POST /songs/spotify-download]', err);
+        return res.status(500).json({ error: 'Gagal membuat job download Spotify.', details: err.message });
+    }
+});
 
-        const artistNames = artistId ? [] : finalArtistNames;
+const MAX_BULK_IMPORT_TRACKS = 500;
 
-        // 2. Download MP3 file
-        const mp3Res = await fetch(dlink);
-        if (!mp3Res.ok) {
-            return res.status(mp3Res.status).json({ error: 'Gagal mengunduh file MP3.' });
-        }
+/**
+ * POST /songs/spotify-import
+ * (ADMIN ONLY) Import satu album / playlist Spotify sekaligus.
+ * Body: {
+ *   spotifyUrl: string,          ← link album atau playlist
+ *   createAlbum?: boolean,       ← default true untuk link album: buat Album + nomor track
+ *   createPlaylist?: boolean,    ← buat playlist berisi semua track untuk admin yang import
+ *   playlistName?: string,       ← default: judul album/playlist
+ *   genre?: string,
+ *   dryRun?: boolean             ← hanya kembalikan rencana, tanpa menyimpan apa pun
+ * }
+ *
+ * Track yang sudah ada di katalog (normalisasi sama dengan POST /songs/exists) tidak
+ * diunduh ulang; sisanya diantrikan sebagai IngestJob. Lagu yang sudah ada langsung
+ * masuk ke album/playlist, lagu yang diantrikan (termasuk yang sudah antri dari import lain)
+ * ditambahkan saat job-nya selesai, sesuai urutan track.
+ */
+router.post('/spotify-import', requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    const { spotifyUrl, createAlbum, createPlaylist, playlistName, genre, dryRun } = req.body as {
+        spotifyUrl?: string;
+        createAlbum?: boolean;
+        createPlaylist?: boolean;
+        playlistName?: string;
+        genre?: string;
+        dryRun?: boolean;
+    };
+    const userId = req.user!.userId;
+
+    if (!spotifyUrl || !parseSpotifyCollectionUrl(spotifyUrl)) {
+        return res.status(400).json({ error: 'spotifyUrl harus link album atau playlist Spotify.' });
+    }
+
+    let collection;
+    try {
+        collection = await expandCollection('SPOTIFY', spotifyUrl);
+    } catch (err: any) {
+        console.error('[POST /songs/spotify-import]', err);
+        return res.status(502).json({ error: 'Gagal membaca album/playlist Spotify.', details: err.message, failures: err.failures });
+    }
 
-        const arrayBuffer = await mp3Res.arrayBuffer();
-        const buffer = Buffer.from(arrayBuffer);
+    if (collection.tracks.length === 0) return res.status(400).json({ error: 'Album/playlist tidak berisi lagu.' });
+    if (collection.tracks.length > MAX_BULK_IMPORT_TRACKS) {
+        return res.status(400).json({ error: `Maksimal ${MAX_BULK_IMPORT_TRACKS} lagu per import.` });
+    }
 
-        // 3. Upload to R2
-        const uniqueId = Date.now().toString(36) + '-' + Math.random().toString(36).substring(2, 7);
-        const safeTitle = finalTitle.replace(/[^a-zA-Z0-9.-]/g, '_').substring(0, 50);
-        const objectKey = `audio/${uniqueId}-${safeTitle}.mp3`;
-
-        const command = new PutObjectCommand({
-            Bucket: process.env.R2_BUCKET_NAME,
-            Key: objectKey,
-            Body: buffer,
-            ContentType: 'audio/mpeg'
+    try {
+        const candidateIds = await findSongIdsByTitle(prisma, collection.tracks.map(t => t.title));
+        const catalog = await prisma.song.findMany({
+            where: { id: { in: candidateIds } },
+            select: { id: true, title: true, artists: { select: { name: true } } },
+        });
+        const index = buildSongIndex(catalog);
+
+        // Track yang sedang/akan diproses dari import sebelumnya tidak diantrikan dua kali;
+        // job yang sudah selesai dianggap lagu yang sudah ada
+        const activeJobs = await prisma.ingestJob.findMany({
+            where: {
+                sourceUrl: { in: collection.tracks.map(t => t.url) },
+                OR: [{ status: { notIn: ['DONE', 'FAILED', 'CANCELLED'] } }, { status: 'DONE', songId: { not: null } }],
+            },
+            orderBy: { createdAt: 'desc' },
+            select: { id: true, sourceUrl: true, status: true, songId: true },
         });
+        const jobsByUrl = new Map<string, typeof activeJobs[number]>();
+        for (const job of activeJobs) if (!jobsByUrl.has(job.sourceUrl)) jobsByUrl.set(job.sourceUrl, job);
+
+        const seenUrls = new Set<string>();
+        // Urutan track (tanpa duplikat) beserta lagu / job yang mewakilinya, untuk SpotifyImportTrack
+        const importTracks: (ImportTrackInput & { url: string })[] = [];
+        const existing: { trackNumber: number; title: string; artists: string[]; songId: string }[] = [];
+        const alreadyQueued: { trackNumber: number; title: string; artists: string[]; jobId: string; status: string }[] = [];
+        const toQueue: typeof collection.tracks = [];
+
+        for (const track of collection.tracks) {
+            if (seenUrls.has(track.url)) continue;
+            seenUrls.add(track.url);
+
+            const base = { trackNumber: track.trackNumber, title: track.title, artists: track.artists };
+            const job = jobsByUrl.get(track.url);
+            const songId = findSongCandidates(index, track.title, track.artists)[0] ?? job?.songId;
+
+            if (songId) existing.push({ ...base, songId });
+            else if (job) alreadyQueued.push({ ...base, jobId: job.id, status: job.status });
+            else toQueue.push(track);
+            importTracks.push({ url: track.url, trackNumber: track.trackNumber, songId, jobId: songId ? null : job?.id });
+        }
 
-        await r2Client.send(command);
-        console.log('[yt-download] Success upload to R2:', objectKey);
+        const wantsAlbum = collection.kind === 'ALBUM' && createAlbum !== false && collection.artists.length > 0;
+        const plan = {
+            kind: collection.kind,
+            title: collection.title,
+            totalTracks: collection.tracks.length,
+            existing,
+            alreadyQueued,
+            toQueue: toQueue.map(t => ({ trackNumber: t.trackNumber, title: t.title, artists: t.artists })),
+        };
 
-        // 4. Save to DB
-        console.log('[yt-download] Saving to DB...');
+        if (dryRun) return res.json({ plan });
+
+        // 1. Album (dipakai ulang jika judul + artis yang sama sudah ada)
+        let album: { id: string; title: string } | null = null;
+        if (wantsAlbum) {
+            const artistName = collection.artists[0];
+            const spotify = await enrichArtistMetadata(artistName);
+            const artist = await prisma.artist.upsert({
+                where: { name: artistName },
+                update: {},
+                create: {
+                    name: artistName,
+                    avatarUrl: spotify.avatarUrl,
+                    bio: spotify.genres.length > 0 ? `Genres: ${spotify.genres.join(', ')}` : null,
+                },
+            });
 
-        const song = await prisma.song.create({
-            data: {
-                title: finalTitle,
-                durationSec: Math.floor(Number(duration) || 0),
-                audioKey: objectKey,
-                coverUrl: thumbnail || null,
-                albumId: albumId || null,
-                genre: genre || null,
-                artists: {
-                    connectOrCreate: artistId
-                        ? (Array.isArray(artistId) ? artistId : [artistId]).map(id => ({
-                            where: { id },
-                            create: { id, name: 'Unknown Artist' }
-                        }))
-                        : await Promise.all(artistNames.map(async (name) => {
-                            const spotify = await enrichArtistMetadata(name);
-                            return {
-                                where: { name },
-                                create: {
-                                    name,
-                                    avatarUrl: spotify.avatarUrl,
-                                    bio: spotify.genres.length > 0 ? `Genres: ${spotify.genres.join(', ')}` : null
-                                }
-                            };
-                        }))
-                }
-            },
-            include: {
-                artists: true,
-                album: true,
-            }
+            album = await prisma.album.findFirst({
+                where: { artistId: artist.id, title: { equals: collection.title, mode: 'insensitive' } },
+                select: { id: true, title: true },
+            }) ?? await prisma.album.create({
+                data: {
+                    title: collection.title,
+                    artistId: artist.id,
+                    releaseYear: collection.releaseYear,
+                    coverUrl: collection.coverUrl,
+                },
+                select: { id: true, title: true },
+            });
+        }
+
+        // 2. Playlist, job untuk track yang belum ada, dan daftar track import dalam satu transaksi.
+        //    Lagu yang sudah ada langsung masuk album/playlist; sisanya saat job-nya selesai
+        //    (termasuk job dari import lain), tetap sesuai urutan track (lihat src/lib/spotifyImports.ts).
+        const { playlist, importId, queued } = await prisma.$transaction(async (tx) => {
+            const playlist = createPlaylist
+                ? await tx.playlist.create({
+                    data: { name: playlistName || collection.title, coverUrl: collection.coverUrl, userId },
+                    select: { id: true, name: true },
+                })
+                : null;
+
+            const jobs = toQueue.length > 0
+                ? await tx.ingestJob.createManyAndReturn({
+                    data: toQueue.map(track => ({
+                        source: 'SPOTIFY',
+                        sourceUrl: track.url,
+                        params: {
+                            title: track.title,
+                            artistNames: track.artists,
+                            ...(genre ? { genre } : {}),
+                            ...(album ? { albumId: album.id, trackNumber: track.trackNumber } : {}),
+                        } satisfies IngestParams,
+                        createdById: userId,
+                    })),
+                    select: { id: true, sourceUrl: true },
+                })
+                : [];
+            const newJobsByUrl = new Map(jobs.map(j => [j.sourceUrl, j.id]));
+
+            const importId = await createSpotifyImport(
+                tx,
+                { albumId: album?.id ?? null, playlistId: playlist?.id ?? null, createdById: userId },
+                importTracks.map(({ url, ...t }) => ({ ...t, jobId: t.jobId ?? newJobsByUrl.get(url) ?? null })),
+            );
+
+            const queued = toQueue.map(t => ({ trackNumber: t.trackNumber, title: t.title, artists: t.artists, jobId: newJobsByUrl.get(t.url)! }));
+            return { playlist, importId, queued };
         });
 
-        console.log('[yt-download] Success save to DB:', song.id);
-        return res.status(201).json({ song });
+        console.log(`[POST /songs/spotify-import] ${collection.kind} "${collection.title}": ${existing.length} ada, ${alreadyQueued.length} sudah antri, ${queued.length} diantrikan`);
+        return res.status(202).json({
+            importId,
+            kind: collection.kind,
+            title: collection.title,
+            totalTracks: collection.tracks.length,
+            album,
+            playlist,
+            existing,
+            alreadyQueued,
+            queued,
+        });
     } catch (err: any) {
-        console.error('[POST /songs/yt-download]', err?.message, err?.stack || err);
-        return res.status(500).json({ error: 'Terjadi kesalahan sistem saat proses download YouTube.', details: err?.message });
+        console.error('[POST /songs/spotify-import]', err);
+        return res.status(500).json({ error: 'Gagal import album/playlist Spotify.', details: err.message });
     }
 });
 
 /**
- * POST /songs/spotify-download
- * (ADMIN ONLY) Download dari Spotify via Ferdev API lalu upload ke R2 dan simpan ke DB.
+ * POST /songs/spotify-import/:id/sync
+ * (ADMIN ONLY) Masukkan ulang lagu yang sudah tersedia ke album/playlist import,
+ * mis. setelah penempatan otomatis saat job selesai gagal. Aman diulang.
  */
-router.post('/spotify-download', requireAuth, requireAdmin, async (req: Request, res: Response) => {
-    const { spotifyUrl, artistId, albumId, genre, title: customTitle, artistNames: customArtistNames } = req.body;
-
-    if (!spotifyUrl) return res.status(400).json({ error: 'spotifyUrl wajib diisi.' });
-
+router.post('/spotify-import/:id/sync', requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    const { id } = req.params;
     try {
-        const apiKey = "fdv_pd0smcIACrw7J1-nDPKBoA";
-        const apiUrl = `https://api.ferdev.my.id/downloader/spotify?link=${encodeURIComponent(spotifyUrl)}&apikey=${apiKey}`;
-        console.log('[Spotify Download] Prepared to fetch API:', apiUrl);
-        let apiRes;
-        for (let i = 0; i < 3; i++) {
-            try {
-                apiRes = await fetch(apiUrl);
-                if (apiRes.ok) break; // Keluar loop jika berhasil
-            } catch (e: any) {
-                console.error(`[Spotify Download] Ferdev API Fetch Error (Attempt ${i + 1}):`, e.message);
-                if (i === 2) throw new Error(`Ferdev API fetch failed: ${e.message}`);
-                await new Promise(res => setTimeout(res, 2000)); // Tunggu 2 detik
-            }
-        }
+        const exists = await prisma.spotifyImport.findUnique({ where: { id }, select: { id: true } });
+        if (!exists) return res.status(404).json({ error: 'Import tidak ditemukan.' });
 
-        if (!apiRes || !apiRes.ok) return res.status(apiRes?.status || 500).json({ error: 'Gagal menghubungi API Spotify Downloader.' });
-
-        const apiData = await apiRes.json() as any;
-        if (!apiData.success || !apiData.data) return res.status(400).json({ error: 'Gagal mendapatkan data dari Spotify.' });
-
-        const { title: spotifyTitle, artist: spotifyArtist } = apiData.data;
-        const dlink = apiData.download || apiData.data.download || apiData.data.url;
-        const thumbnail = apiData.data.album?.images?.[0]?.url || apiData.data.thumbnail;
-
-        if (!dlink) {
-            return res.status(400).json({ error: 'Link download tidak ditemukan pada response Spotify API.' });
-        }
+        const placed = await prisma.$transaction(tx => syncSpotifyImport(tx, id));
+        return res.json({ id, placed });
+    } catch (err: any) {
+        console.error('[POST /songs/spotify-import/:id/sync]', err);
+        return res.status(500).json({ error: 'Gagal sinkronisasi import Spotify.', details: err.message });
+    }
+});
 
-        console.log('[Spotify Download] Extracted dlink:', dlink);
+/**
+ * POST /songs/metadata/backfill
+ * (ADMIN ONLY) Baca metadata file untuk lagu lama yang belum pernah dicek:
+ * isi durasi asli, bitrate, format, cover embedded, dan flag mismatch.
+ * Body: { limit?: number (default 50, max 200) }
+ * Panggil berulang sampai `remaining` = 0.
+ *
+ * Lagu yang gagal dibaca karena storage error (bukan file rusak) tetap belum di-scan dan
+ * dicoba lagi di panggilan berikutnya, maksimal METADATA_SCAN_MAX_ATTEMPTS kali
+ * (percobaan & error terakhir di metadataScanAttempts / metadataScanError). Setelah itu lagu
+ * tidak diambil lagi dan tidak dihitung di `remaining`, supaya backfill tetap maju.
+ */
+router.post('/metadata/backfill', requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    const limit = Math.min(Math.max(parseInt(req.body?.limit, 10) || 50, 1), 200);
+    // File yang tidak terbaca tetap ditandai scanned (flag UNREADABLE) supaya tidak diulang terus
+    const where: Prisma.SongWhereInput = { metadataScannedAt: null, metadataScanAttempts: { lt: METADATA_SCAN_MAX_ATTEMPTS } };
 
-        const finalTitle = customTitle || spotifyTitle;
-        const finalArtistNames = Array.isArray(customArtistNames) ? customArtistNames : spotifyArtist.split(',').map((a: string) => a.trim());
+    try {
+        const songs = await prisma.song.findMany({
+            where,
+            include: { artists: { select: { name: true } }, album: { select: { title: true, coverUrl: true } } },
+            orderBy: { createdAt: 'asc' },
+            take: limit,
+        });
 
-        // 2. Download MP3 file
-        console.log('[Spotify Download] Fetching MP3...');
-        let mp3Res;
-        for (let i = 0; i < 3; i++) {
+        const results = [];
+        for (const song of songs) {
+            let fileMetadata;
             try {
-                mp3Res = await fetch(dlink, {
-                    headers: {
-                        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-                        'Accept': 'audio/mpeg, audio/*;q=0.9, */*;q=0.8',
-                    }
+                fileMetadata = await inspectStoredAudio(song.audioKey);
+            } catch (err: any) {
+                if (!(err instanceof StorageReadError)) throw err;
+                console.error('[POST /songs/metadata/backfill]', err.message);
+                const failed = await prisma.song.update({
+                    where: { id: song.id },
+                    data: { metadataScanAttempts: { increment: 1 }, metadataScanError: err.message.slice(0, 2000) },
+                    select: { metadataScanAttempts: true },
                 });
-                if (mp3Res.ok) break;
-            } catch (e: any) {
-                console.error(`[Spotify Download] MP3 Fetch Error (Attempt ${i + 1}):`, e.message);
-                if (i === 2) throw new Error(`MP3 fetch failed: ${e.message}`);
-                await new Promise(res => setTimeout(res, 2000));
+                results.push({
+                    id: song.id,
+                    title: song.title,
+                    error: 'Gagal membaca file dari storage.',
+                    attempts: failed.metadataScanAttempts,
+                    willRetry: failed.metadataScanAttempts < METADATA_SCAN_MAX_ATTEMPTS,
+                });
+                continue;
             }
-        }
-
-        console.log('[Spotify Download] MP3 HTTP Status:', mp3Res?.status);
-        if (!mp3Res || !mp3Res.ok) return res.status(mp3Res?.status || 500).json({ error: `Gagal mengunduh file MP3 dari Spotify source.` });
+            const flags = compareMetadata(fileMetadata, {
+                title: song.title,
+                artistNames: song.artists.map(a => a.name),
+                album: song.album?.title,
+                durationSec: song.durationSec || null,
+            });
 
-        const buffer = Buffer.from(await mp3Res.arrayBuffer());
+            let coverUrl = song.coverUrl;
+            if (!coverUrl && !song.album?.coverUrl && fileMetadata?.picture) {
+                coverUrl = await uploadEmbeddedCover(fileMetadata.picture, song.title);
+            }
 
-        // 3. Upload to R2
-        const uniqueId = Date.now().toString(36) + '-' + Math.random().toString(36).substring(2, 7);
-        const safeTitle = finalTitle.replace(/[^a-zA-Z0-9.-]/g, '_').substring(0, 50);
-        const objectKey = `audio/${uniqueId}-${safeTitle}.mp3`;
-
-        await r2Client.send(new PutObjectCommand({
-            Bucket: process.env.R2_BUCKET_NAME,
-            Key: objectKey,
-            Body: buffer,
-            ContentType: 'audio/mpeg'
-        }));
+            const durationSec = fileMetadata?.durationSec || song.durationSec;
+            await prisma.song.update({
+                where: { id: song.id },
+                data: { durationSec, coverUrl, ...audioMetadataFields(fileMetadata, flags) },
+            });
 
-        // 4. Save to DB
-        const song = await prisma.song.create({
-            data: {
-                title: finalTitle,
-                durationSec: 0, // Duration will be updated correctly on playback or from metadata if available
-                audioKey: objectKey,
-                coverUrl: thumbnail || null,
-                albumId: albumId || null,
-                genre: genre || null,
-                artists: {
-                    connectOrCreate: artistId
-                        ? (Array.isArray(artistId) ? artistId : [artistId]).map(id => ({
-                            where: { id },
-                            create: { id, name: 'Unknown Artist' }
-                        }))
-                        : await Promise.all(finalArtistNames.map(async (name: string) => {
-                            const spotify = await enrichArtistMetadata(name);
-                            return {
-                                where: { name },
-                                create: {
-                                    name,
-                                    avatarUrl: spotify.avatarUrl,
-                                    bio: spotify.genres.length > 0 ? `Genres: ${spotify.genres.join(', ')}` : null
-                                }
-                            };
-                        }))
-                }
-            },
-            include: { artists: true, album: true }
-        });
+            results.push({
+                id: song.id,
+                title: song.title,
+                previousDurationSec: song.durationSec,
+                durationSec,
+                metadataFlags: flags,
+            });
+        }
 
-        return res.status(201).json({ song });
+        const remaining = await prisma.song.count({ where });
+        return res.json({ processed: results.length, remaining, results });
     } catch (err: any) {
-        console.error('[POST /songs/spotify-download]', err?.message);
-        return res.status(500).json({ error: 'Gagal download Spotify.', details: err.message });
+        console.error('[POST /songs/metadata/backfill]', err);
+        return res.status(500).json({ error: 'Gagal backfill metadata audio.', details: err.message });
     }
 });
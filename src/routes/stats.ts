@@ -0,0 +1,63 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import { buildWrapped, computeListeningStats, isValidTimeZone, parseStatsPeriod, StatsQueryError, DEFAULT_TIMEZONE } from '../lib/listeningStats';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const FIRST_WRAPPED_YEAR = 2020;
+
+/**
+ * GET /stats
+ * Statistik mendengarkan user saat ini.
+ * Query params: ?range=7d|30d|90d|365d|all  atau  ?from=YYYY-MM-DD&to=YYYY-MM-DD,
+ *               ?tz=Asia/Jakarta, ?limit=10 (panjang setiap daftar top, maks 50)
+ */
+router.get('/', requireAuth, async (req: Request, res: Response) => {
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '10'), 10) || 10, 1), 50);
+
+    try {
+        const period = parseStatsPeriod(req.query);
+        const stats = await computeListeningStats(prisma, req.user!.userId, period, limit);
+        return res.json(stats);
+    } catch (err) {
+        if (err instanceof StatsQueryError) return res.status(400).json({ error: err.message });
+        console.error('[GET /stats]', err);
+        return res.status(500).json({ error: 'Gagal mengambil statistik.' });
+    }
+});
+
+/**
+ * GET /stats/wrapped/:year
+ * Ringkasan akhir tahun dalam bentuk kartu (`cards[].type`): minutes, top-song, top-songs,
+ * top-artists, top-genres, moods, listening-clock, streak, discoveries.
+ * Query params: ?tz=Asia/Jakarta
+ */
+router.get('/wrapped/:year', requireAuth, async (req: Request, res: Response) => {
+    const year = Number(req.params.year);
+    const timeZone = typeof req.query.tz === 'string' && req.query.tz ? req.query.tz : DEFAULT_TIMEZONE;
+
+    if (!Number.isInteger(year) || year < FIRST_WRAPPED_YEAR || year > new Date().getFullYear()) {
+        return res.status(400).json({ error: 'Tahun tidak valid.' });
+    }
+    if (!isValidTimeZone(timeZone)) return res.status(400).json({ error: 'tz bukan zona waktu IANA yang valid.' });
+
+    try {
+        const user = await prisma.user.findUnique({
+            where: { id: req.user!.userId },
+            select: { id: true, name: true, avatarUrl: true },
+        });
+        if (!user) return res.status(404).json({ error: 'User tidak ditemukan.' });
+
+        const wrapped = await buildWrapped(prisma, user, year, timeZone);
+        // Tahun yang sudah selesai tidak berubah lagi
+        if (wrapped.final) res.setHeader('Cache-Control', 'private, max-age=86400');
+        return res.json(wrapped);
+    } catch (err) {
+        console.error('[GET /stats/wrapped/:year]', err);
+        return res.status(500).json({ error: 'Gagal membuat ringkasan tahunan.' });
+    }
+});
+
+export default router;
@@ -0,0 +1,113 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { requireAuth, requireAdmin } from '../middleware/auth';
+import { cursorWhere, parsePageQuery, sortOrderBy, toPage, InvalidCursorError, SortKey } from '../lib/paging';
+import { enqueueStorageScan, formatScan, ScanInProgressError, DEFAULT_GRACE_HOURS } from '../lib/storageReconcile';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const SCAN_SORT: SortKey[] = [{ field: 'createdAt', dir: 'desc' }, { field: 'id', dir: 'desc' }];
+const ORPHAN_SORT: SortKey[] = [{ field: 'firstSeenAt', dir: 'asc' }, { field: 'objectKey', dir: 'asc' }];
+
+// Semua endpoint storage khusus admin
+router.use(requireAuth, requireAdmin);
+
+/**
+ * GET /storage/scans
+ * (ADMIN ONLY) Riwayat scan rekonsiliasi storage, terbaru dulu.
+ * Query params: ?limit=20&cursor=<nextCursor>
+ */
+router.get('/scans', async (req: Request, res: Response) => {
+    const { take, cursor, skip } = parsePageQuery(req.query);
+
+    try {
+        const rows = await prisma.storageScan.findMany({
+            where: cursorWhere(SCAN_SORT, cursor),
+            orderBy: sortOrderBy(SCAN_SORT),
+            take: take + 1,
+            skip,
+        });
+        const { items: scans, nextCursor } = toPage(rows, SCAN_SORT, take);
+
+        return res.json({ scans: scans.map(s => formatScan(s)), nextCursor });
+    } catch (err) {
+        if (err instanceof InvalidCursorError) return res.status(400).json({ error: err.message });
+        console.error('[GET /storage/scans]', err);
+        return res.status(500).json({ error: 'Gagal mengambil daftar scan.' });
+    }
+});
+
+/**
+ * POST /storage/scans
+ * (ADMIN ONLY) Antrikan scan rekonsiliasi R2 vs database (dijalankan worker).
+ * Body: { deleteOrphans?: boolean, graceHours?: number (default 168) }
+ * Orphan hanya dihapus jika deleteOrphans dan sudah terlihat orphan selama graceHours.
+ */
+router.post('/scans', async (req: Request, res: Response) => {
+    const { deleteOrphans, graceHours } = req.body as { deleteOrphans?: boolean; graceHours?: number };
+
+    const grace = graceHours === undefined ? DEFAULT_GRACE_HOURS : Number(graceHours);
+    if (!Number.isInteger(grace) || grace < 1) {
+        return res.status(400).json({ error: 'graceHours harus bilangan bulat minimal 1.' });
+    }
+
+    try {
+        const scan = await enqueueStorageScan(prisma, { deleteOrphans: deleteOrphans === true, graceHours: grace }, req.user!.userId);
+        return res.status(202).json({ scan: formatScan(scan) });
+    } catch (err: any) {
+        if (err instanceof ScanInProgressError) {
+            return res.status(409).json({ error: err.message, scan: formatScan(err.scan) });
+        }
+        console.error('[POST /storage/scans]', err);
+        return res.status(500).json({ error: 'Gagal membuat scan storage.', details: err.message });
+    }
+});
+
+/**
+ * GET /storage/scans/:id
+ * (ADMIN ONLY) Status & laporan satu scan (lagu hilang, beda ukuran, orphan).
+ */
+router.get('/scans/:id', async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    try {
+        const scan = await prisma.storageScan.findUnique({ where: { id } });
+        if (!scan) return res.status(404).json({ error: 'Scan tidak ditemukan.' });
+
+        return res.json({ scan: formatScan(scan, true) });
+    } catch (err) {
+        console.error('[GET /storage/scans/:id]', err);
+        return res.status(500).json({ error: 'Gagal mengambil scan.' });
+    }
+});
+
+/**
+ * GET /storage/orphans
+ * (ADMIN ONLY) Objek di bucket yang tidak dipakai lagu / cover mana pun, paling lama dulu.
+ * Query params: ?limit=20&cursor=<nextCursor>
+ */
+router.get('/orphans', async (req: Request, res: Response) => {
+    const { take, cursor, skip } = parsePageQuery(req.query);
+
+    try {
+        const [rows, total] = await Promise.all([
+            prisma.storageOrphan.findMany({
+                where: cursorWhere(ORPHAN_SORT, cursor),
+                orderBy: sortOrderBy(ORPHAN_SORT),
+                take: take + 1,
+                skip,
+            }),
+            prisma.storageOrphan.count(),
+        ]);
+        const { items: orphans, nextCursor } = toPage(rows, ORPHAN_SORT, take);
+
+        return res.json({ orphans, total, nextCursor });
+    } catch (err) {
+        if (err instanceof InvalidCursorError) return res.status(400).json({ error: err.message });
+        console.error('[GET /storage/orphans]', err);
+        return res.status(500).json({ error: 'Gagal mengambil daftar orphan.' });
+    }
+});
+
+export default router;
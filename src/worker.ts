@@ -0,0 +1,183 @@
+import 'dotenv/config';
+import os from 'os';
+import { PrismaClient } from '@prisma/client';
+import { claimNextJob, requeueStaleJobs, runIngestJob } from './lib/ingestJobs';
+import { sweepAbandonedUploads } from './lib/uploads';
+import { claimNextScan, enqueueStorageScan, runStorageScan, ScanInProgressError } from './lib/storageReconcile';
+import { getStorage } from './lib/storage';
+import { claimNextTranscode, runTranscode } from './lib/transcode';
+import { claimNextLoudnessAnalysis, runLoudnessAnalysis } from './lib/loudness';
+import { claimNextWaveform, runWaveform } from './lib/waveform';
+import { isFfmpegAvailable } from './lib/ffmpeg';
+import { closeAbandonedSessions } from './lib/playSessions';
+import { refreshCharts, CHART_REFRESH_MS } from './lib/charts';
+import { deleteStaleStations } from './lib/radio';
+import { refreshExpiredHomeSections } from './lib/homeFeed';
+
+/**
+ * Worker antrian ingest (IngestJob). Jalankan terpisah dari server API:
+ *
+ *   npm run worker           ← terus berjalan, polling antrian
+ *   npm run worker -- --once ← proses semua job yang siap lalu keluar
+ *
+ * Aman dijalankan lebih dari satu instance (job di-claim dengan SKIP LOCKED).
+ * Di sela job, worker juga membersihkan upload yang tidak di-finalize, menutup sesi putar yang ditinggal,
+ * memperbarui chart & home feed, menjalankan scan rekonsiliasi storage, analisis loudness, waveform
+ * dan transcode HLS (jika ffmpeg tersedia).
+ * Job ingest selalu didahulukan; analisis loudness & waveform (cepat) didahulukan daripada transcode.
+ */
+
+const prisma = new PrismaClient();
+
+const POLL_INTERVAL_MS = Number(process.env.INGEST_POLL_INTERVAL_MS) || 5000;
+const UPLOAD_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+const HOME_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+// Scan storage otomatis; orphan ikut dihapus hanya jika STORAGE_DELETE_ORPHANS=true
+const STORAGE_SCAN_INTERVAL_MS = Number(process.env.STORAGE_SCAN_INTERVAL_MS) || 24 * 60 * 60 * 1000;
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+const runOnce = process.argv.includes('--once');
+
+let stopping = false;
+let lastUploadSweep = 0;
+let lastSessionSweep = 0;
+let lastChartRefresh = 0;
+let lastHomeRefresh = 0;
+
+// Upload manual yang tidak di-finalize (lihat src/lib/uploads.ts) dan stasiun radio yang tidak dipakai lagi
+async function sweepUploadsIfDue() {
+    if (Date.now() - lastUploadSweep < UPLOAD_SWEEP_INTERVAL_MS) return;
+    lastUploadSweep = Date.now();
+
+    const { deleted } = await sweepAbandonedUploads(prisma);
+    if (deleted > 0) console.log(`[worker] ${deleted} upload yang tidak di-finalize dihapus.`);
+
+    const stations = await deleteStaleStations(prisma);
+    if (stations > 0) console.log(`[worker] ${stations} stasiun radio lama dihapus.`);
+}
+
+// Sesi putar yang berhenti mengirim heartbeat (lihat src/lib/playSessions.ts)
+async function closeSessionsIfDue() {
+    if (Date.now() - lastSessionSweep < SESSION_SWEEP_INTERVAL_MS) return;
+    lastSessionSweep = Date.now();
+
+    const closed = await closeAbandonedSessions(prisma);
+    if (closed > 0) console.log(`[worker] ${closed} sesi putar ditutup (ABANDONED).`);
+}
+
+// Snapshot chart periode berjalan (lihat src/lib/charts.ts)
+async function refreshChartsIfDue() {
+    if (Date.now() - lastChartRefresh < CHART_REFRESH_MS) return;
+    lastChartRefresh = Date.now();
+
+    await refreshCharts(prisma);
+}
+
+// Bagian /home yang kadaluarsa milik user aktif (lihat src/lib/homeFeed.ts)
+async function refreshHomeIfDue() {
+    if (Date.now() - lastHomeRefresh < HOME_REFRESH_INTERVAL_MS) return;
+    lastHomeRefresh = Date.now();
+
+    const refreshed = await refreshExpiredHomeSections(prisma);
+    if (refreshed > 0) console.log(`[worker] ${refreshed} bagian home diperbarui.`);
+}
+
+// Rekonsiliasi storage (lihat src/lib/storageReconcile.ts): antrikan scan terjadwal,
+// lalu jalankan scan yang antri (termasuk yang dibuat admin)
+async function runStorageScanIfQueued() {
+    const last = await prisma.storageScan.findFirst({ orderBy: { createdAt: 'desc' } });
+    if (!last || Date.now() - last.createdAt.getTime() >= STORAGE_SCAN_INTERVAL_MS) {
+        await enqueueStorageScan(prisma, { deleteOrphans: process.env.STORAGE_DELETE_ORPHANS === 'true' }, null)
+            .catch(err => { if (!(err instanceof ScanInProgressError)) throw err; });
+    }
+
+    const scan = await claimNextScan(prisma);
+    if (!scan) return;
+    console.log(`[worker] Mulai scan storage ${scan.id}`);
+    await runStorageScan(prisma, scan);
+}
+
+// Error di satu tugas berkala (mis. DB putus sebentar) tidak boleh menghentikan worker;
+// tugas itu dicoba lagi di putaran / interval berikutnya
+async function runTask(name: string, task: () => Promise<void>) {
+    try {
+        await task();
+    } catch (err) {
+        console.error(`[worker ${name}]`, err);
+    }
+}
+
+// Ambil & jalankan satu pekerjaan dari antrian. Return false jika semua antrian kosong.
+async function processNext(ffmpegEnabled: boolean): Promise<boolean> {
+    const job = await claimNextJob(prisma, WORKER_ID);
+    if (job) {
+        console.log(`[worker] Mulai job ${job.id} (${job.source}, attempt ${job.attempts}/${job.maxAttempts})`);
+        await runIngestJob(prisma, job);
+        return true;
+    }
+    if (!ffmpegEnabled) return false;
+
+    const analysis = await claimNextLoudnessAnalysis(prisma);
+    if (analysis) {
+        console.log(`[worker] Mulai analisis loudness ${analysis.id} (attempt ${analysis.loudnessAttempts})`);
+        await runLoudnessAnalysis(prisma, analysis);
+        return true;
+    }
+
+    const waveformSong = await claimNextWaveform(prisma);
+    if (waveformSong) {
+        console.log(`[worker] Mulai waveform ${waveformSong.id} (attempt ${waveformSong.waveformAttempts})`);
+        await runWaveform(prisma, waveformSong);
+        return true;
+    }
+
+    const song = await claimNextTranscode(prisma);
+    if (song) {
+        console.log(`[worker] Mulai transcode ${song.id} (attempt ${song.hlsAttempts})`);
+        await runTranscode(prisma, song);
+        return true;
+    }
+    return false;
+}
+
+async function main() {
+    console.log(`🎧 Ingest worker ${WORKER_ID} berjalan${runOnce ? ' (--once)' : ''}`);
+    getStorage();   // gagal di awal jika konfigurasi storage tidak lengkap
+
+    const ffmpegEnabled = await isFfmpegAvailable();
+    if (!ffmpegEnabled) console.warn('[worker] ffmpeg tidak ditemukan, analisis loudness, waveform & transcode HLS dilewati.');
+
+    while (!stopping) {
+        await runTask('requeue', async () => {
+            const requeued = await requeueStaleJobs(prisma);
+            if (requeued > 0) console.log(`[worker] ${requeued} job macet dikembalikan ke antrian.`);
+        });
+        await runTask('uploads', sweepUploadsIfDue);
+        await runTask('sessions', closeSessionsIfDue);
+        await runTask('charts', refreshChartsIfDue);
+        await runTask('home', refreshHomeIfDue);
+        await runTask('storage', runStorageScanIfQueued);
+
+        let worked = false;
+        await runTask('queue', async () => { worked = await processNext(ffmpegEnabled); });
+        if (worked) continue;
+
+        if (runOnce) break;
+        await new Promise(r => setTimeout(r, POLL_INTERVAL_MS));
+    }
+}
+
+// Selesaikan job yang sedang berjalan dulu sebelum keluar
+for (const signal of ['SIGINT', 'SIGTERM']) {
+    process.on(signal, () => {
+        console.log(`[worker] ${signal} diterima, berhenti setelah job saat ini.`);
+        stopping = true;
+    });
+}
+
+main()
+    .catch(err => {
+        console.error('[worker]', err);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
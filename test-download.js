@@ -1,7 +1,7 @@
 async function test() {
     try {
         console.log("Fetching Ferdev API...");
-        const apiRes = await fetch("https://api.ferdev.my.id/downloader/spotify?link=https%3A%2F%2Fopen.spotify.com%2Ftrack%2F1aHUscTJLMNcJvuiBtmgqA&apikey=fdv_pd0smcIACrw7J1-nDPKBoA");
+        const apiRes = await fetch("https://api.ferdev.my.id/downloader/spotify?link=https%3A%2F%2Fopen.spotify.com%2Ftrack%2F1aHUscTJLMNcJvuiBtmgqA&apikey=" + encodeURIComponent(process.env.FERDEV_API_KEY || ""));
         
         if (!apiRes.ok) {
             console.log("Ferdev API failed:", apiRes.status);
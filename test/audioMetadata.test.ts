@@ -0,0 +1,240 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { bufferSource, readAudioMetadata } from '../src/lib/audioMetadata';
+import { compareMetadata } from '../src/lib/audioInspection';
+
+// ── Helper pembuat file audio sintetis ────────────────────────────────────────
+
+// MPEG-1 Layer III, 128 kbps, 44.1 kHz, stereo, tanpa padding → 417 byte per frame
+const MPEG_HEADER = Buffer.from([0xff, 0xfb, 0x90, 0x00]);
+const FRAME_LENGTH = 417;
+
+function mpegFrames(count: number, firstFrame?: (frame: Buffer) => void): Buffer {
+    const frames = [];
+    for (let i = 0; i < count; i++) {
+        const frame = Buffer.alloc(FRAME_LENGTH);
+        MPEG_HEADER.copy(frame, 0);
+        if (i === 0 && firstFrame) firstFrame(frame);
+        frames.push(frame);
+    }
+    return Buffer.concat(frames);
+}
+
+function synchsafe(n: number): Buffer {
+    return Buffer.from([(n >> 21) & 0x7f, (n >> 14) & 0x7f, (n >> 7) & 0x7f, n & 0x7f]);
+}
+
+// Frame ID3v2.3: encoding 0 (latin1) atau 1 (UTF-16 dengan BOM)
+function id3Frame(id: string, text: string, encoding: 0 | 1 = 0): Buffer {
+    const body = encoding === 0
+        ? Buffer.concat([Buffer.from([0]), Buffer.from(text, 'latin1')])
+        : Buffer.concat([Buffer.from([1, 0xff, 0xfe]), Buffer.from(text, 'utf16le')]);
+    const header = Buffer.alloc(10);
+    header.write(id, 0, 'latin1');
+    header.writeUInt32BE(body.length, 4);
+    return Buffer.concat([header, body]);
+}
+
+function id3v23(frames: Buffer[]): Buffer {
+    const body = Buffer.concat([...frames, Buffer.alloc(16)]); // + padding
+    return Buffer.concat([Buffer.from('ID3\x03\x00\x00', 'latin1'), synchsafe(body.length), body]);
+}
+
+function id3v1(title: string, artist: string, album: string, track: number): Buffer {
+    const tag = Buffer.alloc(128);
+    tag.write('TAG', 0, 'latin1');
+    tag.write(title, 3, 'latin1');
+    tag.write(artist, 33, 'latin1');
+    tag.write(album, 63, 'latin1');
+    tag[126] = track;
+    return tag;
+}
+
+function flacBlock(type: number, body: Buffer, last: boolean): Buffer {
+    const header = Buffer.alloc(4);
+    header[0] = (last ? 0x80 : 0) | type;
+    header.writeUIntBE(body.length, 1, 3);
+    return Buffer.concat([header, body]);
+}
+
+function streamInfo(sampleRate: number, totalSamples: number): Buffer {
+    const block = Buffer.alloc(34);
+    block[10] = (sampleRate >> 12) & 0xff;
+    block[11] = (sampleRate >> 4) & 0xff;
+    block[12] = ((sampleRate & 0x0f) << 4) | (1 << 1); // 2 channel, 16 bit
+    block[13] = 0xf0 | Math.floor(totalSamples / 2 ** 32);
+    block.writeUInt32BE(totalSamples % 2 ** 32, 14);
+    return block;
+}
+
+function vorbisComment(entries: string[]): Buffer {
+    const vendor = Buffer.from('test');
+    const parts = [Buffer.alloc(4), vendor, Buffer.alloc(4)];
+    parts[0].writeUInt32LE(vendor.length);
+    parts[2].writeUInt32LE(entries.length);
+    for (const entry of entries) {
+        const data = Buffer.from(entry, 'utf8');
+        const len = Buffer.alloc(4);
+        len.writeUInt32LE(data.length);
+        parts.push(len, data);
+    }
+    return Buffer.concat(parts);
+}
+
+function atom(type: string, ...children: Buffer[]): Buffer {
+    const body = Buffer.concat(children);
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(body.length + 8);
+    header.write(type, 4, 'latin1');
+    return Buffer.concat([header, body]);
+}
+
+function ilstItem(type: string, dataType: number, value: Buffer): Buffer {
+    const head = Buffer.alloc(8);
+    head.writeUInt32BE(dataType);
+    return atom(type, atom('data', head, value));
+}
+
+function mvhd(timescale: number, duration: number): Buffer {
+    const body = Buffer.alloc(100);
+    body.writeUInt32BE(timescale, 12);
+    body.writeUInt32BE(duration, 16);
+    return atom('mvhd', body);
+}
+
+async function parse(buf: Buffer) {
+    return readAudioMetadata(bufferSource(buf));
+}
+
+// ── MP3 ──────────────────────────────────────────────────────────────────────
+
+test('MP3 CBR + ID3v2.3: tag, durasi dari ukuran data, bitrate', async () => {
+    const file = Buffer.concat([
+        id3v23([
+            id3Frame('TIT2', 'Kau Rumahku'),
+            id3Frame('TPE1', 'Raissa Anggiani'),
+            id3Frame('TALB', 'Single'),
+            id3Frame('TRCK', '3/12'),
+        ]),
+        mpegFrames(384), // 384 × 417 byte ≈ 10 detik pada 128 kbps
+    ]);
+
+    const meta = await parse(file);
+    assert.equal(meta?.format, 'mp3');
+    assert.equal(meta?.title, 'Kau Rumahku');
+    assert.equal(meta?.artist, 'Raissa Anggiani');
+    assert.equal(meta?.album, 'Single');
+    assert.equal(meta?.trackNumber, 3);
+    assert.equal(meta?.bitrate, 128);
+    assert.equal(meta?.sampleRate, 44100);
+    assert.equal(meta?.durationSec, 10);
+});
+
+test('MP3: teks UTF-16 di ID3v2', async () => {
+    const file = Buffer.concat([id3v23([id3Frame('TIT2', 'Café ❤', 1)]), mpegFrames(4)]);
+    assert.equal((await parse(file))?.title, 'Café ❤');
+});
+
+test('MP3: ID3v1 mengisi field yang kosong', async () => {
+    const file = Buffer.concat([
+        id3v23([id3Frame('TIT2', 'Dari ID3v2')]),
+        mpegFrames(4),
+        id3v1('Dari ID3v1', 'Hindia', 'Menari', 7),
+    ]);
+
+    const meta = await parse(file);
+    assert.equal(meta?.title, 'Dari ID3v2');
+    assert.equal(meta?.artist, 'Hindia');
+    assert.equal(meta?.album, 'Menari');
+    assert.equal(meta?.trackNumber, 7);
+});
+
+test('MP3 VBR: durasi dari header Xing', async () => {
+    const frames = mpegFrames(8, (frame) => {
+        const at = 4 + 32; // setelah side info MPEG-1 stereo
+        frame.write('Xing', at, 'latin1');
+        frame.writeUInt32BE(3, at + 4);          // flag: frames + bytes
+        frame.writeUInt32BE(1000, at + 8);       // 1000 frame × 1152 sample
+        frame.writeUInt32BE(600_000, at + 12);
+    });
+
+    const meta = await parse(frames);
+    assert.equal(meta?.durationSec, 26);         // 1000 × 1152 / 44100 ≈ 26,1
+    assert.equal(meta?.bitrate, 184);            // 600000 × 8 / 26,12 / 1000
+});
+
+// ── FLAC ─────────────────────────────────────────────────────────────────────
+
+test('FLAC: STREAMINFO + Vorbis comment (artis ganda digabung)', async () => {
+    const file = Buffer.concat([
+        Buffer.from('fLaC', 'latin1'),
+        flacBlock(0, streamInfo(48000, 48000 * 185), false),
+        flacBlock(4, vorbisComment(['TITLE=Evaluasi', 'ARTIST=Hindia', 'ARTIST=Rara Sekar', 'album=Menari', 'TRACKNUMBER=2/10', 'rusak']), true),
+        Buffer.alloc(1000),
+    ]);
+
+    const meta = await parse(file);
+    assert.equal(meta?.format, 'flac');
+    assert.equal(meta?.title, 'Evaluasi');
+    assert.equal(meta?.artist, 'Hindia, Rara Sekar');
+    assert.equal(meta?.album, 'Menari');
+    assert.equal(meta?.trackNumber, 2);
+    assert.equal(meta?.sampleRate, 48000);
+    assert.equal(meta?.durationSec, 185);
+});
+
+// ── MP4 ──────────────────────────────────────────────────────────────────────
+
+test('MP4/M4A: durasi dari mvhd dan tag iTunes', async () => {
+    const trkn = Buffer.alloc(8);
+    trkn.writeUInt16BE(5, 2);
+    const png = Buffer.concat([Buffer.from([0x89]), Buffer.from('PNG\r\n'), Buffer.alloc(10)]);
+
+    const file = Buffer.concat([
+        atom('ftyp', Buffer.from('M4A \x00\x00\x00\x00', 'latin1')),
+        atom('moov',
+            mvhd(1000, 185_400),
+            atom('udta', atom('meta', Buffer.alloc(4), atom('ilst',
+                ilstItem('©nam', 1, Buffer.from('Sial')),
+                ilstItem('©ART', 1, Buffer.from('Mahalini')),
+                ilstItem('©alb', 1, Buffer.from('Fabula')),
+                ilstItem('trkn', 0, trkn),
+                ilstItem('covr', 14, png),
+            ))),
+        ),
+        atom('mdat', Buffer.alloc(2000)),
+    ]);
+
+    const meta = await parse(file);
+    assert.equal(meta?.format, 'mp4');
+    assert.equal(meta?.title, 'Sial');
+    assert.equal(meta?.artist, 'Mahalini');
+    assert.equal(meta?.album, 'Fabula');
+    assert.equal(meta?.trackNumber, 5);
+    assert.equal(meta?.durationSec, 185);
+    assert.equal(meta?.picture?.mimeType, 'image/png');
+});
+
+test('format tidak dikenal / file terlalu pendek → null', async () => {
+    assert.equal(await parse(Buffer.from('RIFF....WAVEfmt ')), null);
+    assert.equal(await parse(Buffer.from('ab')), null);
+});
+
+// ── compareMetadata ──────────────────────────────────────────────────────────
+
+test('compareMetadata: file tidak terbaca → UNREADABLE', () => {
+    assert.deepEqual(compareMetadata(null, { title: 'x' }), ['UNREADABLE']);
+});
+
+test('compareMetadata: toleransi durasi & teks yang saling mengandung', async () => {
+    const file = (await parse(Buffer.concat([
+        id3v23([id3Frame('TIT2', 'Song (Remastered)'), id3Frame('TPE1', 'Artist feat. X'), id3Frame('TALB', 'Album A')]),
+        mpegFrames(384),
+    ])))!;
+
+    assert.deepEqual(compareMetadata(file, { title: 'Song', artistNames: ['Artist'], album: 'Album A', durationSec: 12 }), []);
+    assert.deepEqual(
+        compareMetadata(file, { title: 'Lain', artistNames: ['Orang Lain'], album: 'Album B', durationSec: 30 }),
+        ['DURATION_MISMATCH', 'TITLE_MISMATCH', 'ARTIST_MISMATCH', 'ALBUM_MISMATCH'],
+    );
+});
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { chartMovement, chartPeriod, CHART_TIMEZONE, isChartFinal, previousChartPeriod } from '../src/lib/charts';
+
+const iso = (p: { start: Date; end: Date }) => [p.start.toISOString(), p.end.toISOString()];
+
+test('chartPeriod DAILY: hari lokal yang memuat waktu', () => {
+    // 18 Okt 18:30 UTC = 19 Okt 01:30 WIB
+    assert.deepEqual(iso(chartPeriod('DAILY', new Date('2026-10-18T18:30:00Z'), 'Asia/Jakarta')),
+        ['2026-10-18T17:00:00.000Z', '2026-10-19T17:00:00.000Z']);
+    assert.deepEqual(iso(chartPeriod('TRENDING', new Date('2026-10-18T18:30:00Z'), 'UTC')),
+        ['2026-10-18T00:00:00.000Z', '2026-10-19T00:00:00.000Z']);
+});
+
+test('chartPeriod WEEKLY: Senin sampai Minggu', () => {
+    const week = ['2026-10-19T00:00:00.000Z', '2026-10-26T00:00:00.000Z'];
+    assert.deepEqual(iso(chartPeriod('WEEKLY', new Date('2026-10-19T00:00:00Z'), 'UTC')), week); // Senin
+    assert.deepEqual(iso(chartPeriod('WEEKLY', new Date('2026-10-22T12:00:00Z'), 'UTC')), week); // Kamis
+    assert.deepEqual(iso(chartPeriod('WEEKLY', new Date('2026-10-25T23:59:59Z'), 'UTC')), week); // Minggu
+    // Minggu yang melewati pergantian bulan
+    assert.deepEqual(iso(chartPeriod('WEEKLY', new Date('2026-11-01T10:00:00Z'), 'UTC')),
+        ['2026-10-26T00:00:00.000Z', '2026-11-02T00:00:00.000Z']);
+});
+
+test('chartPeriod MONTHLY: termasuk Desember → Januari', () => {
+    assert.deepEqual(iso(chartPeriod('MONTHLY', new Date('2026-02-15T00:00:00Z'), 'UTC')),
+        ['2026-02-01T00:00:00.000Z', '2026-03-01T00:00:00.000Z']);
+    assert.deepEqual(iso(chartPeriod('MONTHLY', new Date('2026-12-31T20:00:00Z'), 'UTC')),
+        ['2026-12-01T00:00:00.000Z', '2027-01-01T00:00:00.000Z']);
+    // 31 Des 20:00 UTC sudah 1 Jan di Jakarta
+    assert.deepEqual(iso(chartPeriod('MONTHLY', new Date('2026-12-31T20:00:00Z'), 'Asia/Jakarta')),
+        ['2026-12-31T17:00:00.000Z', '2027-01-31T17:00:00.000Z']);
+});
+
+test('chartPeriod DAILY: hari pergantian DST panjangnya 23 jam', () => {
+    const { start, end } = chartPeriod('DAILY', new Date('2026-03-08T12:00:00Z'), 'America/New_York');
+    assert.equal(end.getTime() - start.getTime(), 23 * 60 * 60 * 1000);
+});
+
+test('previousChartPeriod: periode tepat sebelumnya', () => {
+    for (const type of ['DAILY', 'WEEKLY', 'MONTHLY'] as const) {
+        const current = chartPeriod(type, new Date('2026-03-01T12:00:00Z'), CHART_TIMEZONE);
+        const previous = previousChartPeriod(type, current);
+        assert.equal(previous.end.getTime(), current.start.getTime(), type);
+        assert.ok(previous.start < previous.end, type);
+    }
+});
+
+test('chartMovement', () => {
+    assert.equal(chartMovement(1, null), 'NEW');
+    assert.equal(chartMovement(3, 7), 'UP');
+    assert.equal(chartMovement(7, 3), 'DOWN');
+    assert.equal(chartMovement(5, 5), 'SAME');
+});
+
+test('isChartFinal: final jika dibuat setelah periode selesai', () => {
+    const periodEnd = new Date('2026-10-19T00:00:00Z');
+    assert.equal(isChartFinal({ periodEnd, generatedAt: new Date('2026-10-18T23:00:00Z') }), false);
+    assert.equal(isChartFinal({ periodEnd, generatedAt: periodEnd }), true);
+});
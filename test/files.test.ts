@@ -0,0 +1,68 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import filesRouter from '../src/routes/files';
+
+// Driver storage dibuat saat request pertama (getStorage), jadi env cukup diset di sini
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'synify-files-'));
+process.env.STORAGE_DRIVER = 'local';
+process.env.STORAGE_LOCAL_DIR = root;
+process.env.STORAGE_LOCAL_SECRET = 'test-secret';
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+    fs.mkdirSync(path.join(root, 'audio'), { recursive: true });
+    fs.mkdirSync(path.join(root, 'covers'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'audio', 'private.mp3'), 'private audio');
+    fs.writeFileSync(path.join(root, 'covers', 'c.jpg'), 'cover');
+
+    const app = express();
+    app.use('/files', filesRouter);
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+    server.close();
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+test('covers/ bisa dibaca tanpa signature', async () => {
+    const res = await fetch(`${baseUrl}/files/covers/c.jpg`);
+    assert.equal(res.status, 200);
+    assert.equal(await res.text(), 'cover');
+});
+
+test('audio/ tanpa signature ditolak', async () => {
+    const res = await fetch(`${baseUrl}/files/audio/private.mp3`);
+    assert.equal(res.status, 403);
+});
+
+test('traversal lewat covers/ tidak membuka file audio', async () => {
+    // %2F baru di-decode Express, jadi key "covers/../audio/private.mp3" sampai di route
+    const res = await fetch(`${baseUrl}/files/covers/..%2Faudio/private.mp3`);
+    assert.equal(res.status, 400);
+    assert.doesNotMatch(await res.text(), /private audio/);
+
+    // %2E%2E sudah diselesaikan client menjadi /files/audio/private.mp3 → butuh signature
+    const dotted = await fetch(`${baseUrl}/files/covers/%2E%2E/audio/private.mp3`);
+    assert.equal(dotted.status, 403);
+});
+
+test('PUT dengan key traversal ditolak sebelum cek signature', async () => {
+    const res = await fetch(`${baseUrl}/files/covers/..%2Faudio/private.mp3`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'audio/mpeg' },
+        body: 'overwrite',
+    });
+    assert.equal(res.status, 400);
+    assert.equal(fs.readFileSync(path.join(root, 'audio', 'private.mp3'), 'utf8'), 'private audio');
+});
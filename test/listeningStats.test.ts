@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeStreaks, localDate, parseStatsPeriod, StatsQueryError, zonedMidnight } from '../src/lib/listeningStats';
+
+test('zonedMidnight: zona tanpa DST', () => {
+    assert.equal(zonedMidnight(2026, 10, 19, 'Asia/Jakarta').toISOString(), '2026-10-18T17:00:00.000Z');
+    assert.equal(zonedMidnight(2026, 10, 19, 'UTC').toISOString(), '2026-10-19T00:00:00.000Z');
+    assert.equal(zonedMidnight(2026, 1, 1, 'Asia/Kolkata').toISOString(), '2025-12-31T18:30:00.000Z');
+});
+
+test('zonedMidnight: hari pergantian DST', () => {
+    // DST mulai 8 Maret 2026 jam 02:00 — tengah malamnya masih EST (-05:00)
+    assert.equal(zonedMidnight(2026, 3, 8, 'America/New_York').toISOString(), '2026-03-08T05:00:00.000Z');
+    assert.equal(zonedMidnight(2026, 3, 9, 'America/New_York').toISOString(), '2026-03-09T04:00:00.000Z');
+    // DST selesai 1 November 2026 jam 02:00 — tengah malamnya masih EDT (-04:00)
+    assert.equal(zonedMidnight(2026, 11, 1, 'America/New_York').toISOString(), '2026-11-01T04:00:00.000Z');
+    assert.equal(zonedMidnight(2026, 11, 2, 'America/New_York').toISOString(), '2026-11-02T05:00:00.000Z');
+});
+
+test('zonedMidnight: hari dan bulan di luar batas digulirkan', () => {
+    assert.equal(zonedMidnight(2026, 13, 1, 'UTC').toISOString(), '2027-01-01T00:00:00.000Z');
+    assert.equal(zonedMidnight(2026, 3, 0, 'UTC').toISOString(), '2026-02-28T00:00:00.000Z');
+});
+
+test('localDate: tanggal lokal mengikuti zona', () => {
+    const at = new Date('2026-10-18T18:30:00Z');
+    assert.equal(localDate(at, 'Asia/Jakarta'), '2026-10-19');
+    assert.equal(localDate(at, 'America/New_York'), '2026-10-18');
+});
+
+test('computeStreaks: tanpa riwayat', () => {
+    assert.deepEqual(computeStreaks([], '2026-10-19'), { longest: { days: 0, start: null, end: null }, current: 0 });
+});
+
+test('computeStreaks: streak terpanjang dan streak berjalan', () => {
+    const days = ['2026-10-01', '2026-10-02', '2026-10-03', '2026-10-05', '2026-10-17', '2026-10-18', '2026-10-19'];
+    assert.deepEqual(computeStreaks(days, '2026-10-19'), {
+        longest: { days: 3, start: '2026-10-01', end: '2026-10-03' },
+        current: 3,
+    });
+});
+
+test('computeStreaks: streak masih berjalan jika terakhir kemarin, putus jika lebih lama', () => {
+    const days = ['2026-10-16', '2026-10-17', '2026-10-18'];
+    assert.equal(computeStreaks(days, '2026-10-19').current, 3);
+    assert.equal(computeStreaks(days, '2026-10-20').current, 0);
+    assert.equal(computeStreaks(days, '2026-10-20').longest.days, 3);
+});
+
+test('computeStreaks: melewati pergantian bulan dan tahun', () => {
+    const days = ['2025-12-30', '2025-12-31', '2026-01-01', '2026-02-28', '2026-03-01'];
+    const { longest, current } = computeStreaks(days, '2026-03-01');
+    assert.deepEqual(longest, { days: 3, start: '2025-12-30', end: '2026-01-01' });
+    assert.equal(current, 2);
+});
+
+test('parseStatsPeriod: from/to tanggal lokal, to ikut dihitung', () => {
+    const period = parseStatsPeriod({ from: '2026-10-01', to: '2026-10-01', tz: 'Asia/Jakarta' });
+    assert.equal(period.from.toISOString(), '2026-09-30T17:00:00.000Z');
+    assert.equal(period.to.toISOString(), '2026-10-01T17:00:00.000Z');
+    assert.equal(period.timeZone, 'Asia/Jakarta');
+});
+
+test('parseStatsPeriod: range relatif terhadap now', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+    const period = parseStatsPeriod({ range: '7d', tz: 'UTC' }, now);
+    assert.equal(period.from.toISOString(), '2026-10-12T12:00:00.000Z');
+    assert.equal(period.to.getTime(), now.getTime() + 1);
+    assert.equal(parseStatsPeriod({ range: 'all', tz: 'UTC' }, now).from.getTime(), 0);
+});
+
+test('parseStatsPeriod: input tidak valid → StatsQueryError', () => {
+    assert.throws(() => parseStatsPeriod({ tz: 'Bukan/Zona' }), StatsQueryError);
+    assert.throws(() => parseStatsPeriod({ range: '14d' }), StatsQueryError);
+    assert.throws(() => parseStatsPeriod({ from: '2026-10-01' }), StatsQueryError);
+    assert.throws(() => parseStatsPeriod({ from: '2026-10-05', to: '2026-10-01' }), StatsQueryError);
+    assert.throws(() => parseStatsPeriod({ from: '1/10/2026', to: '2026-10-01' }), StatsQueryError);
+});
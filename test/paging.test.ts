@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { cursorWhere, decodeCursor, encodeCursor, parsePageQuery, sortOrderBy, toPage, InvalidCursorError, SortKey } from '../src/lib/paging';
+
+const KEYS: SortKey[] = [{ field: 'createdAt', dir: 'desc' }, { field: 'id', dir: 'desc' }];
+
+function rawCursor(value: unknown): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+test('encodeCursor / decodeCursor: string, angka, null dan Date kembali utuh', () => {
+    const date = new Date('2026-10-19T12:34:56.789Z');
+    const decoded = decodeCursor(encodeCursor([date, 'abc', 42, null]));
+    assert.deepEqual(decoded, [date, 'abc', 42, null]);
+    assert.ok(decoded![0] instanceof Date);
+});
+
+test('decodeCursor: cursor rusak → null', () => {
+    assert.equal(decodeCursor('bukan-base64-json'), null);
+    assert.equal(decodeCursor(rawCursor({ a: 1 })), null);
+});
+
+test('decodeCursor: nilai object (operator Prisma) ditolak', () => {
+    assert.equal(decodeCursor(rawCursor([{ not: 'x' }, 'id'])), null);
+    assert.equal(decodeCursor(rawCursor([{ $d: '2026-01-01T00:00:00Z', not: 'x' }, 'id'])), null);
+    assert.equal(decodeCursor(rawCursor([['a'], 'id'])), null);
+    assert.equal(decodeCursor(rawCursor([true, 'id'])), null);
+});
+
+test('decodeCursor: tanggal tidak valid ditolak', () => {
+    assert.equal(decodeCursor(rawCursor([{ $d: 'bukan tanggal' }, 'id'])), null);
+    assert.equal(decodeCursor(rawCursor([{ $d: 123 }, 'id'])), null);
+});
+
+test('cursorWhere: tanpa cursor → {}, cursor tidak valid → InvalidCursorError', () => {
+    assert.deepEqual(cursorWhere(KEYS), {});
+    assert.throws(() => cursorWhere(KEYS, rawCursor([{ not: null }, 'id'])), InvalidCursorError);
+    assert.throws(() => cursorWhere(KEYS, encodeCursor(['hanya-satu'])), InvalidCursorError);
+});
+
+test('cursorWhere: keyset "setelah baris terakhir"', () => {
+    const date = new Date('2026-10-19T00:00:00Z');
+    assert.deepEqual(cursorWhere(KEYS, encodeCursor([date, 'c1'])), {
+        OR: [
+            { createdAt: { lt: date } },
+            { AND: [{ createdAt: date }, { id: { lt: 'c1' } }] },
+        ],
+    });
+});
+
+test('cursorWhere: kolom nullsLast', () => {
+    const keys: SortKey[] = [{ field: 'releaseYear', dir: 'asc', nullsLast: true }, { field: 'id', dir: 'asc' }];
+
+    assert.deepEqual(cursorWhere(keys, encodeCursor([2020, 'a'])), {
+        OR: [
+            { OR: [{ releaseYear: { gt: 2020 } }, { releaseYear: null }] },
+            { AND: [{ releaseYear: 2020 }, { id: { gt: 'a' } }] },
+        ],
+    });
+    // Setelah null hanya tersisa baris null lain dengan id lebih besar
+    assert.deepEqual(cursorWhere(keys, encodeCursor([null, 'a'])), { AND: [{ releaseYear: null }, { id: { gt: 'a' } }] });
+});
+
+test('sortOrderBy', () => {
+    assert.deepEqual(sortOrderBy([{ field: 'releaseYear', dir: 'desc', nullsLast: true }, { field: 'id', dir: 'asc' }]), [
+        { releaseYear: { sort: 'desc', nulls: 'last' } },
+        { id: 'asc' },
+    ]);
+});
+
+test('parsePageQuery: batas limit, offset diabaikan jika ada cursor', () => {
+    assert.deepEqual(parsePageQuery({}), { take: 20, cursor: undefined, skip: 0 });
+    assert.deepEqual(parsePageQuery({ limit: '500', offset: '10' }), { take: 100, cursor: undefined, skip: 10 });
+    assert.deepEqual(parsePageQuery({ limit: '0', cursor: 'abc', offset: '10' }), { take: 20, cursor: 'abc', skip: 0 });
+    assert.deepEqual(parsePageQuery({ limit: '-3' }), { take: 1, cursor: undefined, skip: 0 });
+});
+
+test('toPage: nextCursor hanya jika ada baris lebih', () => {
+    const rows = [1, 2, 3].map(i => ({ id: `s${i}`, createdAt: new Date(Date.UTC(2026, 0, 4 - i)) }));
+
+    const first = toPage(rows, KEYS, 2);
+    assert.deepEqual(first.items.map(r => r.id), ['s1', 's2']);
+    assert.deepEqual(decodeCursor(first.nextCursor!), [rows[1].createdAt, 's2']);
+
+    assert.equal(toPage(rows.slice(0, 2), KEYS, 2).nextCursor, null);
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { creditedSeconds, isPlayEndReason, nextListenedSec, qualifyThresholdSec } from '../src/lib/playSessions';
+
+test('qualifyThresholdSec: 30 detik atau setengah durasi, mana yang lebih pendek', () => {
+    assert.equal(qualifyThresholdSec(240), 30);
+    assert.equal(qualifyThresholdSec(40), 20);
+    assert.equal(qualifyThresholdSec(0), 30);
+    assert.equal(qualifyThresholdSec(-5), 30);
+});
+
+test('creditedSeconds: maju dihitung selisih posisi, dibatasi waktu nyata + toleransi', () => {
+    assert.equal(creditedSeconds(10, 25, 15), 15);
+    assert.equal(creditedSeconds(10, 25, 30), 15);
+    // seek maju 100 detik dalam 15 detik nyata
+    assert.equal(creditedSeconds(10, 110, 15), 20);
+});
+
+test('creditedSeconds: mundur dihitung posisi baru, tidak pernah negatif', () => {
+    assert.equal(creditedSeconds(100, 8, 15), 8);
+    assert.equal(creditedSeconds(100, 50, 15), 20);
+    assert.equal(creditedSeconds(0, 0, -3), 0);
+});
+
+test('nextListenedSec: toleransi tidak menumpuk di heartbeat beruntun', () => {
+    const startedAt = new Date('2026-01-01T00:00:00Z');
+    let session = { listenedSec: 0, positionSec: 0, startedAt, lastHeartbeatAt: startedAt };
+
+    // Heartbeat tiap 1 detik, tiap kali mengaku maju 6 detik (1 detik + 5 detik toleransi)
+    for (let i = 1; i <= 10; i++) {
+        const now = new Date(startedAt.getTime() + i * 1000);
+        const listenedSec = nextListenedSec(session, session.positionSec + 6, now);
+        session = { listenedSec, positionSec: session.positionSec + 6, startedAt, lastHeartbeatAt: now };
+    }
+
+    // 10 detik nyata + satu kali toleransi, bukan 60 detik
+    assert.equal(session.listenedSec, 15);
+    assert.ok(session.listenedSec < qualifyThresholdSec(240));
+});
+
+test('nextListenedSec: mendengarkan normal tetap qualified', () => {
+    const startedAt = new Date('2026-01-01T00:00:00Z');
+    let session = { listenedSec: 0, positionSec: 0, startedAt, lastHeartbeatAt: startedAt };
+
+    for (let i = 1; i <= 3; i++) {
+        const now = new Date(startedAt.getTime() + i * 15_000);
+        const listenedSec = nextListenedSec(session, i * 15, now);
+        session = { listenedSec, positionSec: i * 15, startedAt, lastHeartbeatAt: now };
+    }
+
+    assert.equal(session.listenedSec, 45);
+    assert.ok(session.listenedSec >= qualifyThresholdSec(240));
+});
+
+test('nextListenedSec: tidak pernah berkurang', () => {
+    const startedAt = new Date('2026-01-01T00:00:00Z');
+    const session = { listenedSec: 20, positionSec: 20, startedAt, lastHeartbeatAt: new Date(startedAt.getTime() + 20_000) };
+    assert.equal(nextListenedSec(session, 20, new Date(startedAt.getTime() + 10_000)), 20);
+});
+
+test('isPlayEndReason hanya menerima alasan dari client', () => {
+    assert.equal(isPlayEndReason('COMPLETED'), true);
+    assert.equal(isPlayEndReason('SKIPPED'), true);
+    assert.equal(isPlayEndReason('ERROR'), true);
+    assert.equal(isPlayEndReason('ABANDONED'), false);
+    assert.equal(isPlayEndReason('completed'), false);
+    assert.equal(isPlayEndReason(undefined), false);
+});
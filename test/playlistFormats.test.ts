@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectPlaylistFormat, parsePlaylist, serializePlaylist, ExportPlaylist, PLAYLIST_FORMATS } from '../src/lib/playlistFormats';
+
+const PLAYLIST: ExportPlaylist = {
+    name: 'Senja & Hujan',
+    description: 'Lagu <sore>',
+    owner: 'Rani',
+    tracks: [
+        { id: 's1', title: 'Kau Rumahku', artists: ['Raissa Anggiani'], album: 'Single', durationSec: 215, location: 'http://x/songs/s1' },
+        { id: 's2', title: 'Tom\'s "Diner"\nLive', artists: ['A', 'B'], album: null, durationSec: 180, location: 'http://x/songs/s2' },
+    ],
+};
+
+test('detectPlaylistFormat', () => {
+    assert.equal(detectPlaylistFormat('  #EXTM3U\n'), 'm3u8');
+    assert.equal(detectPlaylistFormat('#EXTINF:1,a - b'), 'm3u8');
+    assert.equal(detectPlaylistFormat('<?xml version="1.0"?><playlist/>'), 'xspf');
+    assert.equal(detectPlaylistFormat('{"tracks":[]}'), 'json');
+    assert.equal(detectPlaylistFormat('[]'), 'json');
+    assert.equal(detectPlaylistFormat('judul lagu'), null);
+});
+
+test('export lalu import kembali menghasilkan entri yang sama di semua format', () => {
+    for (const format of PLAYLIST_FORMATS) {
+        const entries = parsePlaylist(serializePlaylist(PLAYLIST, format), format);
+        assert.equal(entries.length, 2, format);
+        assert.deepEqual(entries[0], { title: 'Kau Rumahku', artists: ['Raissa Anggiani'], album: 'Single', durationSec: 215 }, format);
+        assert.deepEqual(entries[1].artists, ['A', 'B'], format);
+        assert.equal(entries[1].durationSec, 180, format);
+    }
+});
+
+test('M3U8: baris baru di judul tidak memecah entri', () => {
+    const m3u8 = serializePlaylist(PLAYLIST, 'm3u8');
+    assert.equal(m3u8.split('\n').filter(l => l.startsWith('#EXTINF')).length, 2);
+    assert.equal(parsePlaylist(m3u8, 'm3u8')[1].title, 'Tom\'s "Diner" Live');
+});
+
+test('M3U8: baris lokasi tanpa #EXTINF memakai nama file', () => {
+    const entries = parsePlaylist('#EXTM3U\nC:\\Music\\Hindia%20-%20Evaluasi.mp3\n/music/Untitled.flac\n', 'm3u8');
+    assert.deepEqual(entries, [
+        { title: 'Evaluasi', artists: ['Hindia'] },
+        { title: 'Untitled', artists: [] },
+    ]);
+});
+
+test('M3U8: durasi -1 / tanpa artis', () => {
+    const entries = parsePlaylist('#EXTM3U\n#EXTINF:-1,Judul Saja\nstream.mp3\n', 'm3u8');
+    assert.deepEqual(entries, [{ title: 'Judul Saja', artists: [], durationSec: undefined }]);
+});
+
+test('XSPF: entity, CDATA, track tanpa judul dilewati', () => {
+    const xspf = `<?xml version="1.0"?>
+<playlist version="1"><trackList>
+  <track><title><![CDATA[Rock & Roll]]></title><creator>A &amp; B; C</creator><duration>61500</duration></track>
+  <track><creator>Tanpa Judul</creator></track>
+  <track><title>Caf&#233; &#x2764;</title></track>
+</trackList></playlist>`;
+    assert.deepEqual(parsePlaylist(xspf, 'xspf'), [
+        { title: 'Rock & Roll', artists: ['A & B', 'C'], album: undefined, durationSec: 62 },
+        { title: 'Café ❤', artists: [], album: undefined, durationSec: undefined },
+    ]);
+});
+
+test('JSON: array polos, `artist` string, album object', () => {
+    const entries = parsePlaylist(JSON.stringify([
+        { title: ' Sial ', artist: 'Mahalini, Rizky Febian', album: { title: 'Fabula' } },
+        { title: '' },
+        { artists: ['x'] },
+    ]), 'json');
+    assert.deepEqual(entries, [{ title: 'Sial', artists: ['Mahalini', 'Rizky Febian'], album: 'Fabula', durationSec: undefined }]);
+});
+
+test('JSON rusak melempar error', () => {
+    assert.throws(() => parsePlaylist('{ tracks: ', 'json'), SyntaxError);
+});
@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PrismaClient } from '@prisma/client';
+import { parseSmartRules, smartRulesToFilter, SMART_MAX_LIMIT } from '../src/lib/smartPlaylists';
+import { buildSongOrderBy, buildSongWhere } from '../src/lib/songFilters';
+
+test('parseSmartRules: aturan valid, field asing dibuang', () => {
+    const parsed = parseSmartRules({ genre: ['Pop', 'Rock'], moods: ['Relax'], minPlays: 3, sort: 'plays', limit: 50, foo: 'bar' });
+    assert.deepEqual(parsed, { rules: { genre: ['Pop', 'Rock'], moods: ['Relax'], minPlays: 3, sort: 'plays', limit: 50 } });
+});
+
+test('parseSmartRules: input tidak valid', () => {
+    const cases: unknown[] = [
+        null,
+        [],
+        'genre=Pop',
+        { genre: 1 },
+        { moods: 'Relax' },
+        { artistIds: [1, 2] },
+        { minPlays: 0 },
+        { minPlays: 1.5 },
+        { addedInLastDays: -7 },
+        { sort: 'random' },
+        { limit: SMART_MAX_LIMIT + 1 },
+    ];
+    for (const input of cases) {
+        assert.ok('error' in parseSmartRules(input), JSON.stringify(input));
+    }
+});
+
+test('smartRulesToFilter: genre / moods / artistIds / addedInLastDays', async () => {
+    const before = Date.now();
+    const filter = await smartRulesToFilter({} as PrismaClient, { genre: 'Pop', moods: ['Relax'], artistIds: ['a1'], addedInLastDays: 7 }, 'u1');
+
+    assert.equal(filter.genre, 'Pop');
+    assert.deepEqual(filter.moods, ['Relax']);
+    assert.deepEqual(filter.artistIds, ['a1']);
+    assert.equal(filter.songIds, undefined);
+    const expected = before - 7 * 24 * 60 * 60 * 1000;
+    assert.ok(Math.abs(filter.createdAfter!.getTime() - expected) < 1000);
+});
+
+test('smartRulesToFilter: minPlays → lagu yang diputar owner minimal N kali', async () => {
+    let args: any;
+    const prisma = {
+        playHistory: {
+            groupBy: async (a: unknown) => {
+                args = a;
+                return [{ songId: 's1' }, { songId: 's2' }];
+            },
+        },
+    } as unknown as PrismaClient;
+
+    const filter = await smartRulesToFilter(prisma, { minPlays: 3 }, 'u1');
+    assert.deepEqual(filter.songIds, ['s1', 's2']);
+    assert.deepEqual(args.where, { userId: 'u1' });
+    assert.deepEqual(args.having, { songId: { _count: { gte: 3 } } });
+});
+
+test('buildSongWhere: filter kosong → {}', () => {
+    assert.deepEqual(buildSongWhere({}), {});
+    assert.deepEqual(buildSongWhere({ moods: [], artistIds: [] }), {});
+});
+
+test('buildSongWhere: mood + moods dan artist + artistIds berlaku keduanya', () => {
+    assert.deepEqual(buildSongWhere({ mood: 'Happy', moods: ['Relax', 'Chill'], artist: 'a1', artistIds: ['a2'] }), {
+        AND: [
+            { moods: { has: 'Happy' } },
+            { moods: { hasSome: ['Relax', 'Chill'] } },
+            { artists: { some: { id: 'a1' } } },
+            { artists: { some: { id: { in: ['a2'] } } } },
+        ],
+    });
+});
+
+test('buildSongWhere: genre array, songIds, createdAfter, q', () => {
+    const createdAfter = new Date('2026-01-01T00:00:00Z');
+    assert.deepEqual(buildSongWhere({ genre: ['Pop'], songIds: ['s1'], createdAfter, q: 'hujan' }), {
+        AND: [
+            { genre: { in: ['Pop'] } },
+            { id: { in: ['s1'] } },
+            { createdAt: { gte: createdAfter } },
+            {
+                OR: [
+                    { title: { contains: 'hujan', mode: 'insensitive' } },
+                    { artists: { some: { name: { contains: 'hujan', mode: 'insensitive' } } } },
+                ],
+            },
+        ],
+    });
+});
+
+test('buildSongOrderBy', () => {
+    assert.deepEqual(buildSongOrderBy('plays'), { playCount: 'desc' });
+    assert.deepEqual(buildSongOrderBy('title'), { title: 'asc' });
+    assert.deepEqual(buildSongOrderBy(undefined), { createdAt: 'desc' });
+});
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { backfillWhere, SONG_QUEUES } from '../src/lib/songQueues';
+
+test('backfill tanpa songIds: hanya lagu yang belum pernah dijadwalkan', () => {
+    assert.deepEqual(backfillWhere('hls', {}), { OR: [{ hlsStatus: null }] });
+    assert.deepEqual(backfillWhere('loudness', { includeFailed: false }), { OR: [{ loudnessStatus: null }] });
+});
+
+test('backfill tanpa songIds + includeFailed: ikut lagu FAILED', () => {
+    assert.deepEqual(backfillWhere('waveform', { includeFailed: true }), {
+        OR: [{ waveformStatus: null }, { waveformStatus: 'FAILED' }],
+    });
+});
+
+test('backfill dengan songIds: lagu yang belum pernah diproses ikut, yang RUNNING tidak', () => {
+    for (const queue of SONG_QUEUES) {
+        const status = `${queue}Status`;
+        assert.deepEqual(backfillWhere(queue, { songIds: ['a', 'b'] }), {
+            id: { in: ['a', 'b'] },
+            OR: [{ [status]: null }, { [status]: { not: 'RUNNING' } }],
+        });
+    }
+});
+
+test('songIds mengabaikan includeFailed (semua status selain RUNNING sudah ikut)', () => {
+    assert.deepEqual(backfillWhere('hls', { songIds: ['a'], includeFailed: true }), backfillWhere('hls', { songIds: ['a'] }));
+});
@@ -0,0 +1,97 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { assertValidKey, createLocalDriver, InvalidKeyError } from '../src/lib/storage/local';
+
+const roots: string[] = [];
+after(() => roots.forEach(root => fs.rmSync(root, { recursive: true, force: true })));
+
+function tempDriver() {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'synify-storage-'));
+    roots.push(root);
+    return { root, driver: createLocalDriver({ root, baseUrl: 'http://localhost:3001/', secret: 'test-secret' }) };
+}
+
+function query(url: string): Record<string, string> {
+    return Object.fromEntries(new URL(url).searchParams);
+}
+
+test('assertValidKey menerima key biasa', () => {
+    for (const key of ['audio/abc-song.mp3', 'covers/x.jpg', 'hls/song-1/128k/seg_001.ts']) {
+        assert.doesNotThrow(() => assertValidKey(key), key);
+    }
+});
+
+test('assertValidKey menolak traversal, segmen kosong dan folder .meta', () => {
+    for (const key of [
+        '',
+        'covers/../audio/x.mp3',
+        '../secret.txt',
+        'audio/./x.mp3',
+        'audio//x.mp3',
+        '/etc/passwd',
+        'covers\\..\\audio\\x.mp3',
+        'audio/x\0.mp3',
+        '.meta/audio/x.mp3.json',
+    ]) {
+        assert.throws(() => assertValidKey(key), InvalidKeyError, JSON.stringify(key));
+    }
+});
+
+test('filePath tidak pernah keluar dari root', () => {
+    const { root, driver } = tempDriver();
+    assert.equal(driver.filePath('audio/x.mp3'), path.join(root, 'audio', 'x.mp3'));
+    assert.throws(() => driver.filePath('covers/../../x'), InvalidKeyError);
+});
+
+test('signed GET URL lolos verifikasi hanya untuk key & method yang sama', async () => {
+    const { driver } = tempDriver();
+    const url = await driver.signedGetUrl('audio/a b.mp3', 60);
+    assert.ok(url.startsWith('http://localhost:3001/files/audio/a%20b.mp3?'));
+
+    const q = query(url);
+    assert.equal(driver.verifySignature('GET', 'audio/a b.mp3', q), true);
+    assert.equal(driver.verifySignature('GET', 'audio/other.mp3', q), false);
+    assert.equal(driver.verifySignature('PUT', 'audio/a b.mp3', q), false);
+    assert.equal(driver.verifySignature('GET', 'audio/a b.mp3', { ...q, sig: q.sig.slice(1) }), false);
+    assert.equal(driver.verifySignature('GET', 'audio/a b.mp3', { exp: q.exp }), false);
+});
+
+test('signed URL kadaluarsa ditolak', async () => {
+    const { driver } = tempDriver();
+    const q = query(await driver.signedGetUrl('audio/x.mp3', -10));
+    assert.equal(driver.verifySignature('GET', 'audio/x.mp3', q), false);
+});
+
+test('signed PUT URL terikat ke content type', async () => {
+    const { driver } = tempDriver();
+    const q = query(await driver.signedPutUrl('audio/x.mp3', 'audio/mpeg', 60));
+    assert.equal(q.ct, 'audio/mpeg');
+    assert.equal(driver.verifySignature('PUT', 'audio/x.mp3', q), true);
+    assert.equal(driver.verifySignature('PUT', 'audio/x.mp3', { ...q, ct: 'text/html' }), false);
+});
+
+test('signed URL tidak bisa dibuat untuk key tidak valid', async () => {
+    const { driver } = tempDriver();
+    await assert.rejects(driver.signedGetUrl('covers/../audio/x.mp3', 60), InvalidKeyError);
+    await assert.rejects(driver.signedPutUrl('.meta/x.json', 'audio/mpeg', 60), InvalidKeyError);
+});
+
+test('put / head / read / list / delete', async () => {
+    const { driver } = tempDriver();
+    await driver.put('audio/x.mp3', Buffer.from('hello world'), { contentType: 'audio/mpeg' });
+
+    const object = await driver.head('audio/x.mp3');
+    assert.equal(object?.size, 11);
+    assert.equal(object?.contentType, 'audio/mpeg');
+    assert.equal((await driver.read('audio/x.mp3', 6, 5)).toString(), 'world');
+
+    const keys = [];
+    for await (const o of driver.list()) keys.push(o.key);
+    assert.deepEqual(keys, ['audio/x.mp3']);
+
+    await driver.delete('audio/x.mp3');
+    assert.equal(await driver.head('audio/x.mp3'), null);
+});